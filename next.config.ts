@@ -3,6 +3,8 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
   /* config options here */
   reactStrictMode: true,
+  // Native canvas bindings used by the server-side ring renderer
+  serverExternalPackages: ['@napi-rs/canvas'],
   // Ensure proper image optimization
   images: {
     remotePatterns: [
@@ -0,0 +1,213 @@
+#!/usr/bin/env node
+
+/**
+ * Mock X API Server
+ *
+ * A small stand-in for api.x.com for local development and tests. Start it,
+ * then run the app with X_API_BASE_URL pointing at it:
+ *
+ *   npm run mock:x
+ *   X_API_BASE_URL=http://localhost:4010 npm run dev
+ *
+ * Any non-empty bearer token is accepted on v2. Like X, v1.1 account
+ * endpoints refuse bearer tokens and want an OAuth 1.0a signature, whose
+ * contents aren't checked. Set MOCK_X_STATUS (e.g. 403 or
+ * 429) to make every request fail with that status. Responses carry
+ * x-rate-limit-* headers; the window resets every MOCK_X_RESET_SECONDS.
+ * /2/users/me sends an ETag and answers a matching If-None-Match with 304.
+ */
+
+const crypto = require('crypto');
+const http = require('http');
+
+const PORT = Number(process.env.MOCK_X_PORT || 4010);
+const FORCED_STATUS = Number(process.env.MOCK_X_STATUS || 0);
+const RATE_LIMIT = 75;
+const RESET_SECONDS = Number(process.env.MOCK_X_RESET_SECONDS || 900);
+
+const user = {
+  id: '1000000001',
+  name: 'Mock User',
+  username: 'mockuser',
+  profile_image_url: `http://localhost:${PORT}/profile_images/default.png`,
+  public_metrics: {
+    followers_count: 2500,
+    following_count: 180,
+    tweet_count: 1200,
+    listed_count: 12,
+  },
+};
+
+// Uploaded profile images, served back from /profile_images/<n>.png
+const profileImages = [];
+
+// Posted tweet texts, used to reject duplicates like X does
+const tweets = [];
+
+// Timeline served from /2/users/:id/tweets: one post every 12 hours going back
+const TIMELINE_SIZE = 240;
+const timeline = Array.from({ length: TIMELINE_SIZE }, (_, index) => ({
+  id: `${1700000000000000000n + BigInt(TIMELINE_SIZE - index)}`,
+  text: `Mock post #${TIMELINE_SIZE - index}`,
+  created_at: new Date(Date.now() - index * 12 * 60 * 60 * 1000).toISOString(),
+  author_id: user.id,
+  public_metrics: { retweet_count: index % 5, reply_count: index % 3, like_count: 10 + (index % 20), quote_count: 0 },
+}));
+let mediaCount = 0;
+
+// One shared request budget, refilled when the window resets
+let rateLimitRemaining = RATE_LIMIT;
+let rateLimitReset = Math.floor(Date.now() / 1000) + RESET_SECONDS;
+
+function consumeRateLimit(status) {
+  const now = Math.floor(Date.now() / 1000);
+  if (now >= rateLimitReset) {
+    rateLimitRemaining = RATE_LIMIT;
+    rateLimitReset = now + RESET_SECONDS;
+  }
+  rateLimitRemaining = status === 429 ? 0 : Math.max(rateLimitRemaining - 1, 0);
+
+  return {
+    'x-rate-limit-limit': String(RATE_LIMIT),
+    'x-rate-limit-remaining': String(rateLimitRemaining),
+    'x-rate-limit-reset': String(rateLimitReset),
+  };
+}
+
+function sendJson(res, status, body, headers = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...consumeRateLimit(status), ...headers });
+  res.end(JSON.stringify(body));
+}
+
+// Answer with 304 when the client already has this body
+function sendJsonWithEtag(req, res, body) {
+  const etag = `"${crypto.createHash('sha1').update(JSON.stringify(body)).digest('hex')}"`;
+
+  if (req.headers['if-none-match'] === etag) {
+    res.writeHead(304, { ETag: etag, ...consumeRateLimit(304) });
+    res.end();
+    return;
+  }
+  sendJson(res, 200, body, { ETag: etag });
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  console.log(`[Mock X] ${req.method} ${url.pathname}`);
+
+  const imageMatch = /^\/profile_images\/(\d+)\.png$/.exec(url.pathname);
+  if (req.method === 'GET' && imageMatch && profileImages[imageMatch[1]]) {
+    res.writeHead(200, { 'Content-Type': 'image/png' });
+    res.end(profileImages[imageMatch[1]]);
+    return;
+  }
+
+  // v1.1 account endpoints only take OAuth 1.0a user-context signatures
+  // (not verified here); X refuses OAuth 2.0 bearer tokens on them
+  const isV1 = url.pathname.startsWith('/1.1/');
+  if (isV1 && !/^OAuth .+/.test(req.headers.authorization || '')) {
+    sendJson(res, 403, { errors: [{ code: 220, message: 'Your credentials do not allow access to this resource.' }] });
+    return;
+  }
+
+  if (!isV1 && !/^Bearer .+/.test(req.headers.authorization || '')) {
+    sendJson(res, 401, { title: 'Unauthorized', detail: 'Unauthorized', type: 'about:blank', status: 401 });
+    return;
+  }
+
+  if (FORCED_STATUS) {
+    sendJson(res, FORCED_STATUS, { errors: [{ code: FORCED_STATUS, message: `Mock failure ${FORCED_STATUS}` }] });
+    return;
+  }
+
+  if (req.method === 'GET' && url.pathname === '/2/users/me') {
+    sendJsonWithEtag(req, res, { data: user });
+    return;
+  }
+
+  // Newest first, paged by pagination_token like X
+  if (req.method === 'GET' && /^\/2\/users\/[^/]+\/tweets$/.test(url.pathname)) {
+    const maxResults = Number(url.searchParams.get('max_results') || 10);
+    const offset = Number(url.searchParams.get('pagination_token') || 0);
+    const startTime = url.searchParams.get('start_time');
+    const endTime = url.searchParams.get('end_time');
+
+    if (maxResults < 5 || maxResults > 100) {
+      sendJson(res, 400, { title: 'Invalid Request', detail: 'max_results must be between 5 and 100', type: 'about:blank', status: 400 });
+      return;
+    }
+
+    const matching = timeline.filter(tweet =>
+      (!startTime || Date.parse(tweet.created_at) >= Date.parse(startTime)) &&
+      (!endTime || Date.parse(tweet.created_at) <= Date.parse(endTime)));
+    const page = matching.slice(offset, offset + maxResults);
+    const nextOffset = offset + maxResults;
+
+    sendJson(res, 200, {
+      ...(page.length > 0 && { data: page }),
+      meta: {
+        result_count: page.length,
+        ...(nextOffset < matching.length && { next_token: String(nextOffset) }),
+      },
+    });
+    return;
+  }
+
+  if (req.method === 'POST' && url.pathname === '/1.1/account/update_profile_image.json') {
+    const image = new URLSearchParams(await readBody(req)).get('image');
+
+    if (!image) {
+      sendJson(res, 400, { errors: [{ code: 38, message: 'image parameter is missing.' }] });
+      return;
+    }
+
+    profileImages.push(Buffer.from(image, 'base64'));
+    user.profile_image_url = `http://localhost:${PORT}/profile_images/${profileImages.length - 1}.png`;
+    sendJson(res, 200, {
+      id_str: user.id,
+      screen_name: user.username,
+      profile_image_url_https: user.profile_image_url,
+    });
+    return;
+  }
+
+  if (req.method === 'POST' && url.pathname === '/2/media/upload') {
+    await readBody(req);
+    mediaCount += 1;
+    sendJson(res, 200, { data: { id: `${1800000000000000000n + BigInt(mediaCount)}`, media_key: `3_${mediaCount}` } });
+    return;
+  }
+
+  if (req.method === 'POST' && url.pathname === '/2/tweets') {
+    const { text } = JSON.parse((await readBody(req)) || '{}');
+
+    if (!text) {
+      sendJson(res, 400, { title: 'Invalid Request', detail: 'text is required', type: 'about:blank', status: 400 });
+      return;
+    }
+
+    if (tweets.includes(text)) {
+      sendJson(res, 403, { title: 'Forbidden', detail: 'You are not allowed to create a Tweet with duplicate content.', type: 'about:blank', status: 403 });
+      return;
+    }
+
+    tweets.push(text);
+    sendJson(res, 201, { data: { id: `${1900000000000000000n + BigInt(tweets.length)}`, text } });
+    return;
+  }
+
+  sendJson(res, 404, { title: 'Not Found Error', detail: `No mock for ${req.method} ${url.pathname}`, type: 'about:blank', status: 404 });
+});
+
+server.listen(PORT, () => {
+  console.log(`[Mock X] Listening on http://localhost:${PORT}`);
+});
@@ -7,12 +7,16 @@
  * Security features:
  * - State validation (CSRF protection)
  * - PKCE code verifier validation
- * - Secure token storage (httpOnly cookies)
+ * - Secure token storage (httpOnly cookies, encrypted refresh tokens)
  * - Error handling and logging
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { exchangeCodeForToken } from '../../../lib/oauth';
+import { fetchCurrentUser } from '../../../lib/xapi';
+import { getStorage } from '../../../lib/storage';
+import { createSession, generateSessionId } from '../../../lib/sessionStore';
+import { saveUserTokens } from '../../../lib/userTokenStore';
 import {
   getOAuthStateCookie,
   getOAuthVerifierCookie,
@@ -20,15 +24,9 @@ import {
   setAccessTokenCookie,
   setRefreshTokenCookie,
   setSessionCookie,
+  PENDING_USER_ID,
 } from '../../../lib/cookies';
 
-/**
- * Generate a unique session ID
- */
-function generateSessionId(): string {
-  return `sess_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
-}
-
 export async function GET(request: NextRequest) {
   const startTime = Date.now();
 
@@ -137,20 +135,35 @@ export async function GET(request: NextRequest) {
       scope: tokens.scope,
     });
 
-    // Store tokens in secure httpOnly cookies
+    // The access token goes in a secure httpOnly cookie
     await setAccessTokenCookie(tokens.access_token, tokens.expires_in);
 
-    if (tokens.refresh_token) {
-      await setRefreshTokenCookie(tokens.refresh_token);
+    // Create user session keyed by the X user ID, which server-side features
+    // (e.g. scheduled avatar refresh) store their data under. Only a stored
+    // session identifies the user; a pending one gets an ID that matches none.
+    let sessionId = generateSessionId();
+    let userId = PENDING_USER_ID;
+
+    try {
+      const user = await fetchCurrentUser(tokens.access_token);
+      await getStorage().upsertUser(user.id, user.username);
+      // X rotates refresh tokens, so they're kept in one place: encrypted
+      // server storage, shared with background jobs
+      await saveUserTokens(user.id, {
+        accessToken: tokens.access_token,
+        refreshToken: tokens.refresh_token,
+        expiresAt: Date.now() + tokens.expires_in * 1000,
+      });
+      sessionId = (await createSession(user.id)).id;
+      userId = user.id;
+    } catch (userError) {
+      console.error('[OAuth Callback] Failed to fetch user, continuing without user ID:', userError);
     }
 
-    // Create user session
-    // In a real app, you would:
-    // 1. Fetch user data from X API
-    // 2. Create/update user in database
-    // 3. Create session in database
-    const sessionId = generateSessionId();
-    const userId = 'user_pending'; // Replace with actual user ID after fetching from X API
+    // Without a user there's nowhere to store it, so the cookie holds it
+    if (userId === PENDING_USER_ID && tokens.refresh_token) {
+      await setRefreshTokenCookie(tokens.refresh_token);
+    }
 
     await setSessionCookie(userId, sessionId);
 
@@ -1,7 +1,9 @@
 /**
  * Token Refresh API Route
  *
- * Handles automatic token refresh using the refresh_token stored in httpOnly cookies.
+ * Handles automatic token refresh. Signed-in users' refresh tokens are kept
+ * encrypted in server storage, shared with background jobs; the httpOnly cookie
+ * is only used for sessions without a user ID.
  * This endpoint is called when the access token expires to obtain a new one without
  * requiring the user to re-authenticate.
  */
@@ -9,18 +11,23 @@
 import { NextRequest, NextResponse } from 'next/server';
 import {
   getRefreshTokenCookie,
+  getSessionUserId,
   setAccessTokenCookie,
   setRefreshTokenCookie,
   clearAuthCookies
 } from '@/app/lib/cookies';
 import { refreshAccessToken } from '@/app/lib/oauth';
+import { getUserTokens, refreshUserTokens } from '@/app/lib/userTokenStore';
 
 export async function POST(_request: NextRequest) {
   try {
-    // Get the refresh token from httpOnly cookie
-    const refreshToken = await getRefreshTokenCookie();
+    const userId = await getSessionUserId();
+    const hasStoredTokens = userId !== null && (await getUserTokens(userId)) !== null;
 
-    if (!refreshToken) {
+    // Sessions without stored tokens fall back to the httpOnly cookie
+    const refreshToken = hasStoredTokens ? null : await getRefreshTokenCookie();
+
+    if (!hasStoredTokens && !refreshToken) {
       return NextResponse.json(
         {
           success: false,
@@ -48,9 +55,23 @@ export async function POST(_request: NextRequest) {
     }
 
     try {
+      if (hasStoredTokens && userId) {
+        // Saves the rotated refresh token back to storage
+        const tokens = await refreshUserTokens(userId);
+        const expiresIn = Math.floor((tokens.expiresAt - Date.now()) / 1000);
+
+        await setAccessTokenCookie(tokens.accessToken, expiresIn);
+
+        return NextResponse.json({
+          success: true,
+          message: 'Token refreshed successfully',
+          expiresIn
+        });
+      }
+
       // Exchange refresh token for new access token
       const tokens = await refreshAccessToken(
-        refreshToken,
+        refreshToken!,
         clientId,
         clientSecret
       );
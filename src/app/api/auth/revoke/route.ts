@@ -8,13 +8,20 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getAccessTokenCookie, clearAuthCookies } from '@/app/lib/cookies';
+import { getAccessTokenCookie, getSessionUserId, clearAuthCookies } from '@/app/lib/cookies';
+import { deleteUserTokens } from '@/app/lib/userTokenStore';
 
 export async function POST(_request: NextRequest) {
   try {
     // Get the access token from httpOnly cookie
     const accessToken = await getAccessTokenCookie();
 
+    // Stored tokens outlive the session for background jobs; a revoke ends them too
+    const userId = await getSessionUserId();
+    if (userId) {
+      await deleteUserTokens(userId);
+    }
+
     // Get client credentials
     const clientId = process.env.X_CLIENT_ID;
     const clientSecret = process.env.X_CLIENT_SECRET;
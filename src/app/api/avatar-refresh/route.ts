@@ -0,0 +1,173 @@
+/**
+ * Avatar Refresh Schedule Endpoint
+ *
+ * Lets the signed-in user opt in to having their X profile picture
+ * re-rendered automatically as their follower count moves.
+ *
+ * GET    /api/avatar-refresh  - current schedule and run log
+ * PUT    /api/avatar-refresh  - create or update the schedule
+ * POST   /api/avatar-refresh  - run the schedule now
+ * DELETE /api/avatar-refresh  - opt out and remove the schedule
+ *
+ * Runs act with the user's stored tokens (see userTokenStore), refreshed in
+ * the same place as the browser session's.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId } from '../../lib/cookies';
+import { parseRingRequest, type RingRequestParams } from '../../lib/serverRing';
+import { PROFILE_IMAGE_UPLOADS_ENABLED } from '../../lib/ringConfig';
+import { runAvatarRefresh, toPublicSchedule } from '../../lib/avatarRefresh';
+import {
+  isRefreshInterval,
+  REFRESH_INTERVAL_HOURS,
+  MIN_REFRESH_STEP,
+  MAX_REFRESH_STEP,
+} from '../../lib/avatarRefreshConfig';
+import {
+  deleteAvatarRefreshSchedule,
+  getAvatarRefreshSchedule,
+  saveAvatarRefreshSchedule,
+  type AvatarRefreshSchedule,
+} from '../../lib/avatarRefreshStore';
+
+export const runtime = 'nodejs';
+
+function unauthorized() {
+  return NextResponse.json(
+    {
+      error: 'unauthorized',
+      message: 'Not authenticated. Please sign in first.',
+    },
+    { status: 401 }
+  );
+}
+
+function invalidRequest(message: string) {
+  return NextResponse.json(
+    {
+      error: 'invalid_request',
+      message,
+    },
+    { status: 400 }
+  );
+}
+
+export async function GET() {
+  const userId = await getSessionUserId();
+  if (!userId) return unauthorized();
+
+  const schedule = await getAvatarRefreshSchedule(userId);
+
+  return NextResponse.json({
+    success: true,
+    data: schedule ? toPublicSchedule(schedule) : null,
+  });
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId();
+    if (!userId) return unauthorized();
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return invalidRequest('Request body must be a JSON object');
+    }
+
+    const { enabled, dryRun, intervalHours, step, ...ringParams } = body as RingRequestParams & {
+      enabled?: unknown;
+      dryRun?: unknown;
+      intervalHours?: unknown;
+      step?: unknown;
+    };
+
+    if (typeof enabled !== 'boolean' || typeof dryRun !== 'boolean') {
+      return invalidRequest('enabled and dryRun must be booleans');
+    }
+
+    if (!isRefreshInterval(intervalHours)) {
+      return invalidRequest(`intervalHours must be one of: ${REFRESH_INTERVAL_HOURS.join(', ')}`);
+    }
+
+    if (typeof step !== 'number' || !Number.isFinite(step) || step < MIN_REFRESH_STEP || step > MAX_REFRESH_STEP) {
+      return invalidRequest(`step must be between ${MIN_REFRESH_STEP} and ${MAX_REFRESH_STEP} percentage points`);
+    }
+
+    // The job reads the live count itself, so only followers goals can be tracked
+    const options = parseRingRequest({ ...ringParams, goalType: 'followers', current: 0 });
+    if (typeof options === 'string') {
+      return invalidRequest(options);
+    }
+
+    const { avatar, target, goalType, style, overflow, crop } = options;
+    const existing = await getAvatarRefreshSchedule(userId);
+
+    const schedule: AvatarRefreshSchedule = {
+      userId,
+      username: existing?.username,
+      enabled,
+      // Uploads fail on the real X API until they're switched on
+      dryRun: dryRun || !PROFILE_IMAGE_UPLOADS_ENABLED,
+      intervalHours,
+      step,
+      ring: { avatar, target, goalType, style, overflow, crop },
+      // A new target or style should be uploaded on the next run
+      lastPercent: null,
+      lastRunAt: existing?.lastRunAt ?? null,
+      nextRunAt: existing?.nextRunAt ?? new Date().toISOString(),
+      runs: existing?.runs ?? [],
+    };
+
+    await saveAvatarRefreshSchedule(schedule);
+    console.log(`[Avatar Refresh] Schedule saved for ${userId} (enabled: ${enabled}, dry run: ${schedule.dryRun})`);
+
+    return NextResponse.json({
+      success: true,
+      data: toPublicSchedule(schedule),
+    });
+  } catch (error) {
+    console.error('[Avatar Refresh] Error saving schedule:', error);
+
+    return NextResponse.json(
+      {
+        error: 'server_error',
+        message: error instanceof Error ? error.message : 'Failed to save avatar refresh schedule',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST() {
+  const userId = await getSessionUserId();
+  if (!userId) return unauthorized();
+
+  const schedule = await getAvatarRefreshSchedule(userId);
+  if (!schedule) {
+    return NextResponse.json(
+      {
+        error: 'not_found',
+        message: 'No avatar refresh schedule. Save your settings first.',
+      },
+      { status: 404 }
+    );
+  }
+
+  const updated = await runAvatarRefresh(schedule);
+
+  return NextResponse.json({
+    success: true,
+    data: toPublicSchedule(updated),
+  });
+}
+
+export async function DELETE() {
+  const userId = await getSessionUserId();
+  if (!userId) return unauthorized();
+
+  await deleteAvatarRefreshSchedule(userId);
+  console.log(`[Avatar Refresh] Schedule removed for ${userId}`);
+
+  return NextResponse.json({ success: true });
+}
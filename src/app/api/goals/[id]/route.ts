@@ -0,0 +1,88 @@
+/**
+ * Saved Goal Endpoint
+ *
+ * PUT    /api/goals/[id]  - replace a goal's fields
+ * DELETE /api/goals/[id]  - delete a goal
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId } from '../../../lib/cookies';
+import { getStorage } from '../../../lib/storage';
+import { toSavedGoal, validateGoalInput } from '../../../lib/goals';
+
+export const runtime = 'nodejs';
+
+function unauthorized() {
+  return NextResponse.json(
+    {
+      error: 'unauthorized',
+      message: 'Not authenticated. Please sign in first.',
+    },
+    { status: 401 }
+  );
+}
+
+function notFound() {
+  return NextResponse.json(
+    {
+      error: 'not_found',
+      message: 'Goal not found',
+    },
+    { status: 404 }
+  );
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getSessionUserId();
+    if (!userId) return unauthorized();
+
+    const { id } = await params;
+    const storage = getStorage();
+    const existing = await storage.getGoal(userId, id);
+    if (!existing) return notFound();
+
+    const input = validateGoalInput(await request.json().catch(() => null));
+
+    if (typeof input === 'string') {
+      return NextResponse.json(
+        {
+          error: 'invalid_request',
+          message: input,
+        },
+        { status: 400 }
+      );
+    }
+
+    const goal = { ...existing, ...input, updatedAt: new Date().toISOString() };
+    await storage.saveGoal(goal);
+
+    return NextResponse.json({ success: true, data: toSavedGoal(goal) });
+  } catch (error) {
+    console.error('[Goals] Error updating goal:', error);
+
+    return NextResponse.json(
+      {
+        error: 'server_error',
+        message: 'Failed to save goal',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const userId = await getSessionUserId();
+  if (!userId) return unauthorized();
+
+  const { id } = await params;
+  if (!(await getStorage().deleteGoal(userId, id))) return notFound();
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,92 @@
+/**
+ * Saved Goals Endpoint
+ *
+ * Named goals for the signed-in user. Anonymous users keep their goals in
+ * localStorage instead.
+ *
+ * GET  /api/goals  - list goals, oldest first
+ * POST /api/goals  - create a goal from { name, goalType, startValue, target, deadline, ringStyle }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId } from '../../lib/cookies';
+import { getStorage } from '../../lib/storage';
+import { createSavedGoal, toSavedGoal, validateGoalInput, MAX_GOALS_PER_USER } from '../../lib/goals';
+
+export const runtime = 'nodejs';
+
+export async function GET() {
+  const userId = await getSessionUserId();
+
+  if (!userId) {
+    return NextResponse.json(
+      {
+        error: 'unauthorized',
+        message: 'Not authenticated. Please sign in first.',
+      },
+      { status: 401 }
+    );
+  }
+
+  const goals = await getStorage().listGoals(userId);
+
+  return NextResponse.json({
+    success: true,
+    data: goals.map(toSavedGoal),
+  });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId();
+
+    if (!userId) {
+      return NextResponse.json(
+        {
+          error: 'unauthorized',
+          message: 'Not authenticated. Please sign in first.',
+        },
+        { status: 401 }
+      );
+    }
+
+    const input = validateGoalInput(await request.json().catch(() => null));
+
+    if (typeof input === 'string') {
+      return NextResponse.json(
+        {
+          error: 'invalid_request',
+          message: input,
+        },
+        { status: 400 }
+      );
+    }
+
+    const storage = getStorage();
+
+    if ((await storage.listGoals(userId)).length >= MAX_GOALS_PER_USER) {
+      return NextResponse.json(
+        {
+          error: 'too_many_goals',
+          message: `You can save up to ${MAX_GOALS_PER_USER} goals. Delete one to add another.`,
+        },
+        { status: 409 }
+      );
+    }
+
+    const goal = createSavedGoal(input);
+    await storage.saveGoal({ ...goal, userId });
+
+    return NextResponse.json({ success: true, data: goal }, { status: 201 });
+  } catch (error) {
+    console.error('[Goals] Error creating goal:', error);
+
+    return NextResponse.json(
+      {
+        error: 'server_error',
+        message: 'Failed to save goal',
+      },
+      { status: 500 }
+    );
+  }
+}
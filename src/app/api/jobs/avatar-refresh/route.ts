@@ -0,0 +1,55 @@
+/**
+ * Avatar Refresh Job
+ *
+ * Runs every enabled avatar refresh schedule that is due. Meant to be hit by
+ * a cron (e.g. every 15 minutes) with "Authorization: Bearer $CRON_SECRET".
+ *
+ * POST /api/jobs/avatar-refresh
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { runDueAvatarRefreshes } from '../../../lib/avatarRefresh';
+
+export const runtime = 'nodejs';
+
+// Compares digests so the buffers are always the same length and the time
+// taken reveals nothing about the secret
+const matchesSecret = (header: string | null, secret: string): boolean => {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(header ?? ''), digest(`Bearer ${secret}`));
+};
+
+export async function POST(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || !matchesSecret(request.headers.get('authorization'), secret)) {
+    return NextResponse.json(
+      {
+        error: 'unauthorized',
+        message: secret ? 'Invalid job credentials' : 'CRON_SECRET is not configured',
+      },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const runs = await runDueAvatarRefreshes();
+    console.log(`[Avatar Refresh] Job ran ${runs.length} schedule(s)`);
+
+    return NextResponse.json({
+      success: true,
+      data: { runs },
+    });
+  } catch (error) {
+    console.error('[Avatar Refresh] Job failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'server_error',
+        message: 'Avatar refresh job failed',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Growth Ring Image Endpoint
+ *
+ * Renders the same growth ring PNG as the tool canvas, server-side.
+ * Intended for scripts and bots that can't open a browser.
+ *
+ * GET  /api/ring?current=2500&target=10000&goalType=followers&ringStyle=neon&avatar=me.png
+ * POST /api/ring with a JSON body using the same fields, plus `avatarData`
+ *
+ * Pass `overflow=true` to draw progress past 100% as extra laps instead of
+ * capping the ring at a full circle.
+ *
+ * Avatar sources (exactly one):
+ * - avatar:     path to a local file inside RING_AVATAR_DIR (defaults to ./public)
+ * - avatarUrl:  https URL on an allowed host (pbs.twimg.com)
+ * - avatarData: base64 image data URL (POST only)
+ *
+ * `ringStyle` names a built-in style; POST bodies may instead pass a full
+ * custom theme object as `style` (same format as exported themes).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseRingRequest, renderRingPng, type RingRequestParams } from '../../lib/serverRing';
+
+export const runtime = 'nodejs';
+
+/**
+ * Render the ring and build the PNG response
+ */
+async function renderResponse(params: RingRequestParams): Promise<NextResponse> {
+  const options = parseRingRequest(params);
+
+  if (typeof options === 'string') {
+    return NextResponse.json(
+      {
+        error: 'invalid_request',
+        message: options,
+      },
+      { status: 400 }
+    );
+  }
+
+  let png: Buffer;
+  try {
+    png = await renderRingPng(options);
+  } catch (error) {
+    console.error('[Ring] Render failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'render_failed',
+        message: error instanceof Error ? error.message : 'Failed to render ring',
+      },
+      { status: 422 }
+    );
+  }
+
+  return new NextResponse(new Uint8Array(png), {
+    status: 200,
+    headers: {
+      'Content-Type': 'image/png',
+      'Content-Length': png.length.toString(),
+      'Cache-Control': 'no-store',
+    },
+  });
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    return await renderResponse({
+      current: searchParams.get('current') ?? undefined,
+      target: searchParams.get('target') ?? undefined,
+      goalType: searchParams.get('goalType') ?? undefined,
+      ringStyle: searchParams.get('ringStyle') ?? undefined,
+      overflow: searchParams.get('overflow') ?? undefined,
+      avatar: searchParams.get('avatar') ?? undefined,
+      avatarUrl: searchParams.get('avatarUrl') ?? undefined,
+    });
+  } catch (error) {
+    console.error('[Ring] Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'server_error',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        {
+          error: 'invalid_request',
+          message: 'Request body must be a JSON object',
+        },
+        { status: 400 }
+      );
+    }
+
+    return await renderResponse(body as RingRequestParams);
+  } catch (error) {
+    console.error('[Ring] Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'server_error',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
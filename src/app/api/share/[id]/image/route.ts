@@ -0,0 +1,82 @@
+/**
+ * Shared Ring Image Endpoint
+ *
+ * Renders a saved ring as a PNG for link previews.
+ *
+ * GET /api/share/[id]/image                  -> 1200x630 Open Graph card
+ * GET /api/share/[id]/image?preset=x-avatar  -> any export preset
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { renderRingPng } from '../../../../lib/serverRing';
+import { getSharedRing } from '../../../../lib/ringShareStore';
+import { RING_EXPORT_PRESETS, isRingExportPreset } from '../../../../lib/ringRenderer';
+
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const preset = request.nextUrl.searchParams.get('preset') ?? 'og-image';
+
+    if (!isRingExportPreset(preset)) {
+      return NextResponse.json(
+        {
+          error: 'invalid_request',
+          message: `preset must be one of: ${Object.keys(RING_EXPORT_PRESETS).join(', ')}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const ring = await getSharedRing(id);
+
+    if (!ring) {
+      return NextResponse.json(
+        {
+          error: 'not_found',
+          message: 'Shared ring not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    let png: Buffer;
+    try {
+      png = await renderRingPng(ring.options, preset);
+    } catch (error) {
+      console.error('[Ring] Shared ring render failed:', error);
+
+      return NextResponse.json(
+        {
+          error: 'render_failed',
+          message: error instanceof Error ? error.message : 'Failed to render ring',
+        },
+        { status: 422 }
+      );
+    }
+
+    // Shared rings never change, so previews can be cached by crawlers
+    return new NextResponse(new Uint8Array(png), {
+      status: 200,
+      headers: {
+        'Content-Type': 'image/png',
+        'Content-Length': png.length.toString(),
+        'Cache-Control': 'public, max-age=86400, immutable',
+      },
+    });
+  } catch (error) {
+    console.error('[Ring] Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'server_error',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Share Link Endpoint
+ *
+ * Saves a ring configuration under a short ID and returns its permalink.
+ *
+ * POST /api/share with the same JSON body as POST /api/ring
+ * -> { id: "aB3dE5fG", url: "/r/aB3dE5fG" }
+ *
+ * The public page at /r/[id] renders the ring with Open Graph and Twitter
+ * card tags pointing at /api/share/[id]/image.
+ *
+ * Links are limited per client IP, and uploaded avatars are stored cropped
+ * and scaled down rather than as uploaded.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseRingRequest, shrinkSharedAvatar, type RingRequestParams, type ServerRingOptions } from '../../lib/serverRing';
+import { checkShareRateLimit, saveSharedRing } from '../../lib/ringShareStore';
+import { getClientIp, getRetryAfterSeconds } from '../../lib/clientRateLimit';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: NextRequest) {
+  try {
+    const resetAt = checkShareRateLimit(getClientIp(request.headers));
+    if (resetAt) {
+      return NextResponse.json(
+        {
+          error: 'rate_limit_exceeded',
+          message: 'Too many share links. Please try again later.',
+        },
+        { status: 429, headers: { 'Retry-After': String(getRetryAfterSeconds(resetAt)) } }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        {
+          error: 'invalid_request',
+          message: 'Request body must be a JSON object',
+        },
+        { status: 400 }
+      );
+    }
+
+    const options = parseRingRequest(body as RingRequestParams);
+
+    if (typeof options === 'string') {
+      return NextResponse.json(
+        {
+          error: 'invalid_request',
+          message: options,
+        },
+        { status: 400 }
+      );
+    }
+
+    let shared: ServerRingOptions;
+    try {
+      shared = await shrinkSharedAvatar(options);
+    } catch (error) {
+      return NextResponse.json(
+        {
+          error: 'invalid_request',
+          message: error instanceof Error ? error.message : 'Invalid avatar',
+        },
+        { status: 400 }
+      );
+    }
+
+    const ring = await saveSharedRing(shared);
+    console.log('[Ring] Saved share link:', ring.id);
+
+    return NextResponse.json({ id: ring.id, url: `/r/${ring.id}` }, { status: 201 });
+  } catch (error) {
+    console.error('[Ring] Share error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'server_error',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
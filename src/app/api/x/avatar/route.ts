@@ -0,0 +1,115 @@
+/**
+ * X API - Profile Image Endpoint
+ *
+ * Sets a rendered ring as the signed-in user's X profile picture using the
+ * stored access token, so the token never reaches the browser.
+ *
+ * POST /api/x/avatar with { image: "data:image/png;base64,..." }
+ *
+ * X only accepts profile image updates signed with OAuth 1.0a, and sign-in
+ * uses OAuth 2.0, so the real X API refuses them (see updateProfileImage).
+ * The route is off unless NEXT_PUBLIC_PROFILE_IMAGE_UPLOADS is "true".
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAccessTokenCookie, isAccessTokenExpired } from '../../../lib/cookies';
+import { updateProfileImage, MAX_PROFILE_IMAGE_BYTES } from '../../../lib/xapi';
+import { XApiError, XForbiddenTierError } from '../../../lib/xErrors';
+import { invalidateXCache } from '../../../lib/xCache';
+import { PROFILE_IMAGE_UPLOADS_ENABLED } from '../../../lib/ringConfig';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: NextRequest) {
+  if (!PROFILE_IMAGE_UPLOADS_ENABLED) {
+    return NextResponse.json(
+      {
+        error: 'feature_disabled',
+        message: 'Profile image uploads are turned off. X only accepts them from apps using OAuth 1.0a sign-in.',
+      },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const image = body && typeof body === 'object' ? (body as { image?: unknown }).image : undefined;
+    const match = typeof image === 'string' ? /^data:image\/(png|jpeg);base64,(.+)$/.exec(image) : null;
+
+    if (!match) {
+      return NextResponse.json(
+        {
+          error: 'invalid_request',
+          message: 'image must be a base64 PNG or JPEG data URL',
+        },
+        { status: 400 }
+      );
+    }
+
+    const bytes = Buffer.from(match[2], 'base64');
+    if (bytes.length > MAX_PROFILE_IMAGE_BYTES) {
+      return NextResponse.json(
+        {
+          error: 'invalid_request',
+          message: 'Profile image too large. X accepts images up to 700KB.',
+        },
+        { status: 413 }
+      );
+    }
+
+    const accessToken = await getAccessTokenCookie();
+
+    if (!accessToken) {
+      return NextResponse.json(
+        {
+          error: 'unauthorized',
+          message: 'Not authenticated. Please sign in first.',
+        },
+        { status: 401 }
+      );
+    }
+
+    if (await isAccessTokenExpired()) {
+      return NextResponse.json(
+        {
+          error: 'token_expired',
+          message: 'Access token has expired. Please sign in again.',
+        },
+        { status: 401 }
+      );
+    }
+
+    console.log('[X API] Updating profile image...');
+    const { profileImageUrl } = await updateProfileImage(accessToken, bytes);
+    console.log('[X API] Profile image updated');
+
+    // The cached profile still has the old image URL
+    await invalidateXCache('USERS_ME', accessToken);
+
+    return NextResponse.json({
+      success: true,
+      data: { profileImageUrl },
+    });
+  } catch (error) {
+    console.error('[X API] Error updating profile image:', error);
+
+    if (error instanceof XForbiddenTierError) {
+      return NextResponse.json(
+        error.toResponseBody('X did not accept the profile image update. X only allows it for apps using OAuth 1.0a sign-in, which Growth Rings does not support yet.'),
+        { status: error.responseStatus }
+      );
+    }
+
+    if (error instanceof XApiError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.responseStatus });
+    }
+
+    return NextResponse.json(
+      {
+        error: 'server_error',
+        message: error instanceof Error ? error.message : 'Failed to update profile image',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * X API - Metrics History Endpoint
+ *
+ * Records daily snapshots of a user's public metrics and returns their
+ * stored history. X has no historical follower counts, so history only
+ * covers days a snapshot was recorded.
+ *
+ * GET  /api/x/history?days=30  - stored history for the signed-in user
+ * POST /api/x/history?days=30  - record today's snapshot for the signed-in
+ *                                user with their stored tokens, then return
+ *                                history
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId } from '../../../lib/cookies';
+import { getFreshAccessToken } from '../../../lib/userTokenStore';
+import { fetchCurrentUser, fetchUserTweets, calculateEngagementRate } from '../../../lib/xapi';
+import { XApiError } from '../../../lib/xErrors';
+import { getMetricsHistory, recordMetricsSnapshot, toMetricsSnapshot } from '../../../lib/metricsHistoryStore';
+
+export const runtime = 'nodejs';
+
+const MAX_DAYS = 365;
+
+function parseDays(request: NextRequest): number | null {
+  const value = request.nextUrl.searchParams.get('days');
+  if (value === null) return 30;
+
+  const days = Number(value);
+  return Number.isInteger(days) && days > 0 && days <= MAX_DAYS ? days : null;
+}
+
+function unauthorized() {
+  return NextResponse.json(
+    {
+      error: 'unauthorized',
+      message: 'Not authenticated. Please sign in first.',
+    },
+    { status: 401 }
+  );
+}
+
+function invalidDays() {
+  return NextResponse.json(
+    {
+      error: 'invalid_request',
+      message: `days must be a whole number between 1 and ${MAX_DAYS}`,
+    },
+    { status: 400 }
+  );
+}
+
+export async function GET(request: NextRequest) {
+  const days = parseDays(request);
+  if (days === null) return invalidDays();
+
+  const userId = await getSessionUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    return NextResponse.json({
+      success: true,
+      data: await getMetricsHistory(userId, days),
+    });
+  } catch (error) {
+    console.error('[X API] Error reading metrics history:', error);
+
+    return NextResponse.json(
+      {
+        error: 'server_error',
+        message: 'Failed to read metrics history',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const days = parseDays(request);
+  if (days === null) return invalidDays();
+
+  const userId = await getSessionUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const accessToken = await getFreshAccessToken(userId).catch((error: unknown) => {
+      console.error('[X API] No usable stored tokens for metrics snapshot:', error);
+      return null;
+    });
+    if (!accessToken) return unauthorized();
+
+    const user = await fetchCurrentUser(accessToken);
+    const followersCount = user.public_metrics?.followers_count ?? 0;
+
+    let engagementRate: number | null = null;
+    try {
+      engagementRate = calculateEngagementRate(await fetchUserTweets(user.id, accessToken, 10), followersCount);
+    } catch (error) {
+      console.error('[X API] Failed to fetch tweets for snapshot:', error);
+      // Record the snapshot without an engagement rate
+    }
+
+    const snapshot = toMetricsSnapshot(user, engagementRate);
+    if (snapshot) {
+      await recordMetricsSnapshot(userId, snapshot);
+      console.log('[X API] Metrics snapshot recorded', { username: user.username, date: snapshot.date });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await getMetricsHistory(userId, days),
+    });
+  } catch (error) {
+    console.error('[X API] Error recording metrics snapshot:', error);
+
+    if (error instanceof XApiError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.responseStatus });
+    }
+
+    return NextResponse.json(
+      {
+        error: 'server_error',
+        message: error instanceof Error ? error.message : 'Failed to record metrics snapshot',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,50 +1,87 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { requestX } from '../../lib/xapi';
+import { XApiError, XRateLimitError } from '../../lib/xErrors';
+import { toRateLimitHeaders } from '../../lib/xRateLimit';
+import { getClientIp, getRetryAfterSeconds } from '../../lib/clientRateLimit';
+import { checkXProxyRateLimit, validateXProxyEndpoint } from '../../lib/xProxy';
+
+// Long enough to recognise a probe without logging whole payloads
+const LOGGED_ENDPOINT_LENGTH = 200;
+
+const logRejection = (reason: string, ip: string, endpoint: string | null, message: string) => {
+  console.warn('[X Proxy] Request rejected', {
+    reason,
+    ip,
+    endpoint: endpoint?.slice(0, LOGGED_ENDPOINT_LENGTH) ?? null,
+    message,
+  });
+};
 
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const endpoint = searchParams.get('endpoint');
     const bearerToken = request.headers.get('authorization')?.replace('Bearer ', '');
+    const ip = getClientIp(request.headers);
+
+    const resetAt = checkXProxyRateLimit(ip);
+    if (resetAt) {
+      logRejection('rate_limited', ip, endpoint, 'Too many proxy requests');
+      const error = new XRateLimitError(
+        { title: 'Too Many Requests', detail: 'Proxy request limit reached' },
+        resetAt,
+        'Too many requests. Please wait a minute and try again.'
+      );
+      return NextResponse.json(error.toResponseBody(), {
+        status: 429,
+        headers: { 'Retry-After': String(getRetryAfterSeconds(resetAt)) },
+      });
+    }
 
     if (!endpoint) {
+      logRejection('missing_endpoint', ip, null, 'Missing endpoint parameter');
       return NextResponse.json(
-        { error: 'Missing endpoint parameter' },
+        { error: 'invalid_request', message: 'Missing endpoint parameter' },
         { status: 400 }
       );
     }
 
     if (!bearerToken) {
+      logRejection('missing_token', ip, endpoint, 'Missing authorization token');
       return NextResponse.json(
-        { error: 'Missing authorization token' },
+        { error: 'unauthorized', message: 'Missing authorization token' },
         { status: 401 }
       );
     }
 
-    const xApiUrl = `https://api.x.com/2${endpoint}`;
-
-    const response = await fetch(xApiUrl, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${bearerToken}`,
-        'Content-Type': 'application/json',
-      },
-    });
-
-    const data = await response.json();
-
-    if (!response.ok) {
+    const validated = validateXProxyEndpoint(endpoint);
+    if ('reason' in validated) {
+      logRejection(validated.reason, ip, endpoint, validated.message);
       return NextResponse.json(
-        { error: data.errors?.[0]?.detail || 'X API request failed', status: response.status },
-        { status: response.status }
+        { error: 'invalid_request', message: validated.message },
+        { status: validated.reason === 'endpoint_not_allowed' ? 404 : 400 }
       );
     }
 
-    return NextResponse.json(data);
+    // The browser shows the remaining budget, so don't hold the request open waiting for a reset
+    const { data, rateLimit } = await requestX<unknown>(validated.path, bearerToken, {
+      query: validated.query,
+      maxRateLimitWaitMs: 0,
+    });
+
+    return NextResponse.json(data, { headers: toRateLimitHeaders(rateLimit) });
   } catch (error) {
+    if (error instanceof XApiError) {
+      return NextResponse.json(error.toResponseBody(), {
+        status: error.responseStatus,
+        headers: toRateLimitHeaders(error.rateLimit),
+      });
+    }
+
     console.error('X API proxy error:', error);
     return NextResponse.json(
       { error: 'Failed to proxy request to X API' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,145 @@
+/**
+ * X API - Post Tweet Endpoint
+ *
+ * Posts a progress tweet as the signed-in user, uploading the ring image
+ * as media first when one is attached.
+ *
+ * POST /api/x/tweet with { text: "...", image?: "data:image/png;base64,..." }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAccessTokenCookie, isAccessTokenExpired } from '../../../lib/cookies';
+import { postTweet, uploadMedia } from '../../../lib/xapi';
+import { XApiError, XForbiddenTierError, XRateLimitError } from '../../../lib/xErrors';
+import { countTweetCharacters, MAX_TWEET_LENGTH } from '../../../lib/tweetTemplates';
+
+export const runtime = 'nodejs';
+
+/**
+ * Largest image accepted for tweet media
+ */
+const MAX_MEDIA_BYTES = 5 * 1024 * 1024; // 5MB
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const { text, image } = (body && typeof body === 'object' ? body : {}) as { text?: unknown; image?: unknown };
+
+    if (typeof text !== 'string' || !text.trim()) {
+      return NextResponse.json(
+        {
+          error: 'invalid_request',
+          message: 'Tweet text is required',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (countTweetCharacters(text) > MAX_TWEET_LENGTH) {
+      return NextResponse.json(
+        {
+          error: 'invalid_request',
+          message: `Tweet is too long. The limit is ${MAX_TWEET_LENGTH} characters.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    let media: { bytes: Buffer; type: 'image/png' | 'image/jpeg' } | null = null;
+    if (image !== undefined && image !== null) {
+      const match = typeof image === 'string' ? /^data:(image\/(?:png|jpeg));base64,(.+)$/.exec(image) : null;
+
+      if (!match) {
+        return NextResponse.json(
+          {
+            error: 'invalid_request',
+            message: 'image must be a base64 PNG or JPEG data URL',
+          },
+          { status: 400 }
+        );
+      }
+
+      media = { bytes: Buffer.from(match[2], 'base64'), type: match[1] as 'image/png' | 'image/jpeg' };
+
+      if (media.bytes.length > MAX_MEDIA_BYTES) {
+        return NextResponse.json(
+          {
+            error: 'invalid_request',
+            message: 'Image too large. X accepts images up to 5MB.',
+          },
+          { status: 413 }
+        );
+      }
+    }
+
+    const accessToken = await getAccessTokenCookie();
+
+    if (!accessToken) {
+      return NextResponse.json(
+        {
+          error: 'unauthorized',
+          message: 'Not authenticated. Please sign in first.',
+        },
+        { status: 401 }
+      );
+    }
+
+    if (await isAccessTokenExpired()) {
+      return NextResponse.json(
+        {
+          error: 'token_expired',
+          message: 'Access token has expired. Please sign in again.',
+        },
+        { status: 401 }
+      );
+    }
+
+    console.log('[X API] Posting tweet...', { withMedia: Boolean(media) });
+    const mediaIds = media ? [await uploadMedia(accessToken, media.bytes, media.type)] : [];
+    const tweet = await postTweet(accessToken, text.trim(), mediaIds);
+    console.log('[X API] Tweet posted', { id: tweet.id });
+
+    return NextResponse.json({
+      success: true,
+      data: { id: tweet.id, text: tweet.text },
+    });
+  } catch (error) {
+    console.error('[X API] Error posting tweet:', error);
+
+    if (error instanceof XRateLimitError) {
+      return NextResponse.json(
+        error.toResponseBody('X posting limit reached. Please wait a while before posting again.'),
+        { status: error.responseStatus }
+      );
+    }
+
+    if (error instanceof XForbiddenTierError && /duplicate/i.test(error.detail)) {
+      return NextResponse.json(
+        {
+          ...error.toResponseBody('X rejected this as a duplicate of a recent tweet. Edit the text and try again.'),
+          error: 'duplicate_tweet',
+        },
+        { status: error.responseStatus }
+      );
+    }
+
+    if (error instanceof XForbiddenTierError) {
+      return NextResponse.json(
+        error.toResponseBody("Posting isn't allowed for this app's X API access tier, or posting permission wasn't granted. Sign out and sign in again, or check the app's tier in the X Developer Portal."),
+        { status: error.responseStatus }
+      );
+    }
+
+    if (error instanceof XApiError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.responseStatus });
+    }
+
+    return NextResponse.json(
+      {
+        error: 'server_error',
+        message: error instanceof Error ? error.message : 'Failed to post tweet',
+      },
+      { status: 500 }
+    );
+  }
+}
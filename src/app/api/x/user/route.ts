@@ -2,12 +2,16 @@
  * X API - User Data Endpoint
  *
  * Fetches current user data from X API using stored access token.
- * This is a server-side proxy to keep tokens secure.
+ * This is a server-side proxy to keep tokens secure. Responses come through
+ * the X response cache and report how they were served in x-cache-status.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getAccessTokenCookie, isAccessTokenExpired } from '../../../lib/cookies';
-import { fetchCurrentUser, fetchUserTweets, calculateEngagementRate } from '../../../lib/xapi';
+import { calculateEngagementRate, type XTweet } from '../../../lib/xapi';
+import { XApiError } from '../../../lib/xErrors';
+import { fetchCurrentUserCached, fetchUserTweetsCached, toCacheHeaders, type XCacheResult } from '../../../lib/xCache';
+import { recordMetricsSnapshot, toMetricsSnapshot } from '../../../lib/metricsHistoryStore';
 
 export async function GET(request: NextRequest) {
   try {
@@ -39,16 +43,19 @@ export async function GET(request: NextRequest) {
 
     // Fetch user data from X API
     console.log('[X API] Fetching user data...');
-    const userData = await fetchCurrentUser(accessToken);
+    const userResult = await fetchCurrentUserCached(accessToken);
+    const userData = userResult.value;
 
     // Optionally fetch tweets for engagement calculation
     const includeTweets = request.nextUrl.searchParams.get('include_tweets') === 'true';
+    let tweetsResult: XCacheResult<XTweet[]> | null = null;
     let tweets = null;
     let engagementRate = null;
 
     if (includeTweets && userData.id) {
       try {
-        tweets = await fetchUserTweets(userData.id, accessToken, 10);
+        tweetsResult = await fetchUserTweetsCached(userData.id, accessToken, 10);
+        tweets = tweetsResult.value;
         engagementRate = calculateEngagementRate(
           tweets,
           userData.public_metrics?.followers_count || 0
@@ -59,51 +66,44 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    // Every sync also extends the user's metrics history
+    const snapshot = toMetricsSnapshot(userData, engagementRate);
+    if (snapshot) {
+      await recordMetricsSnapshot(userData.id, snapshot).catch(error => {
+        console.error('[X API] Failed to record metrics snapshot:', error);
+      });
+    }
+
     console.log('[X API] User data fetched successfully', {
       username: userData.username,
       followers: userData.public_metrics?.followers_count,
+      cache: userResult.status,
     });
 
-    return NextResponse.json({
-      success: true,
-      data: {
-        user: userData,
-        ...(tweets && { tweets }),
-        ...(engagementRate !== null && { engagementRate }),
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          user: userData,
+          ...(tweets && { tweets }),
+          ...(engagementRate !== null && { engagementRate }),
+        },
       },
-    });
+      { headers: toCacheHeaders(userResult, ...(tweetsResult ? [tweetsResult] : [])) }
+    );
   } catch (error) {
     console.error('[X API] Error fetching user data:', error);
 
-    // Determine error type
-    let errorCode = 'server_error';
-    let errorMessage = 'Failed to fetch user data';
-    let statusCode = 500;
-
-    if (error instanceof Error) {
-      errorMessage = error.message;
-
-      if (error.message.includes('401')) {
-        errorCode = 'unauthorized';
-        errorMessage = 'Invalid or expired access token';
-        statusCode = 401;
-      } else if (error.message.includes('429')) {
-        errorCode = 'rate_limit_exceeded';
-        errorMessage = 'Rate limit exceeded. Please try again later.';
-        statusCode = 429;
-      } else if (error.message.includes('403')) {
-        errorCode = 'forbidden';
-        errorMessage = 'Access forbidden. Check your app permissions.';
-        statusCode = 403;
-      }
+    if (error instanceof XApiError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.responseStatus });
     }
 
     return NextResponse.json(
       {
-        error: errorCode,
-        message: errorMessage,
+        error: 'server_error',
+        message: error instanceof Error ? error.message : 'Failed to fetch user data',
       },
-      { status: statusCode }
+      { status: 500 }
     );
   }
 }
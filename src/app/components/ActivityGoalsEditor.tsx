@@ -0,0 +1,72 @@
+'use client';
+
+import React from 'react';
+
+interface GoalType {
+  icon: React.ComponentType<{ size?: number; style?: React.CSSProperties; 'aria-hidden'?: boolean }>;
+  label: string;
+  color: string;
+}
+
+interface ActivityGoalsEditorProps {
+  goalTypes: Record<string, GoalType>;
+  activityGoals: Record<string, { current: number; target: number }>;
+  onActivityGoalChange: (type: string, field: 'current' | 'target', value: number) => void;
+}
+
+export const ActivityGoalsEditor: React.FC<ActivityGoalsEditorProps> = ({
+  goalTypes,
+  activityGoals,
+  onActivityGoalChange,
+}) => {
+  return (
+    <fieldset className="mb-4">
+      <legend className="block text-sm font-medium text-gray-700 mb-3">
+        Activity Rings
+      </legend>
+      <p id="activity-goals-description" className="text-xs text-gray-500 mb-3">
+        Rings are drawn from the outside in, in the order listed.
+      </p>
+      <div className="space-y-3" aria-describedby="activity-goals-description">
+        {Object.entries(goalTypes).map(([key, goal]) => (
+          <div key={key} className="p-3 rounded-lg border-2 border-gray-200">
+            <p className="flex items-center gap-2 text-sm font-medium text-gray-900 mb-2">
+              <goal.icon size={16} style={{ color: goal.color }} aria-hidden={true} />
+              {goal.label}
+            </p>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor={`activity-${key}-current`} className="block text-xs text-gray-600 mb-1">
+                  Current
+                </label>
+                <input
+                  id={`activity-${key}-current`}
+                  type="number"
+                  value={activityGoals[key]?.current ?? 0}
+                  onChange={(e) => onActivityGoalChange(key, 'current', Number(e.target.value))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  min="0"
+                  step="any"
+                />
+              </div>
+              <div>
+                <label htmlFor={`activity-${key}-target`} className="block text-xs text-gray-600 mb-1">
+                  Target
+                </label>
+                <input
+                  id={`activity-${key}-target`}
+                  type="number"
+                  value={activityGoals[key]?.target ?? 0}
+                  onChange={(e) => onActivityGoalChange(key, 'target', Number(e.target.value))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  min="0"
+                  step="any"
+                />
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </fieldset>
+  );
+};
@@ -5,6 +5,7 @@ import { Target, Users, TrendingUp, Zap, RefreshCw, Key, AlertCircle, Clock, Bar
 import { useNavigation } from '../hooks/useNavigation';
 import { useApp } from '../contexts/AppContext';
 import { useAnalytics } from '../hooks/useAnalytics';
+import { ANALYTICS_TWEET_DAYS } from '../services/xapi';
 import { LineChart, MetricCard, TweetCard } from './AnalyticsCharts';
 
 export const AnalyticsDashboard: React.FC = () => {
@@ -183,7 +184,7 @@ export const AnalyticsDashboard: React.FC = () => {
               />
               <MetricCard
                 title="Engagement Rate"
-                value={`${engagementTrends.currentEngagement}%`}
+                value={`${analytics.data.hasEnoughHistory ? engagementTrends.currentEngagement : analytics.data.averageEngagement}%`}
                 icon={TrendingUp}
                 color="#6A1B9A"
               />
@@ -195,83 +196,100 @@ export const AnalyticsDashboard: React.FC = () => {
               />
             </div>
 
-            {/* Growth Overview */}
-            <div className="grid lg:grid-cols-3 gap-6 mb-8">
-              <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
-                <h3 className="text-lg font-semibold text-gray-900 mb-4">Growth Trend</h3>
-                <div className="text-center">
-                  <div className={`text-3xl font-bold mb-2 ${
-                    growthStats.growthVelocity === 'accelerating' ? 'text-green-600' :
-                    growthStats.growthVelocity === 'declining' ? 'text-red-600' : 'text-blue-600'
-                  }`}>
-                    {growthStats.growthVelocity === 'accelerating' ? '📈' :
-                     growthStats.growthVelocity === 'declining' ? '📉' : '📊'}
+            {analytics.data.hasEnoughHistory ? (
+              <>
+                {/* Growth Overview */}
+                <div className="grid lg:grid-cols-3 gap-6 mb-8">
+                  <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
+                    <h3 className="text-lg font-semibold text-gray-900 mb-4">Growth Trend</h3>
+                    <div className="text-center">
+                      <div className={`text-3xl font-bold mb-2 ${
+                        growthStats.growthVelocity === 'accelerating' ? 'text-green-600' :
+                        growthStats.growthVelocity === 'declining' ? 'text-red-600' : 'text-blue-600'
+                      }`}>
+                        {growthStats.growthVelocity === 'accelerating' ? '📈' :
+                         growthStats.growthVelocity === 'declining' ? '📉' : '📊'}
+                      </div>
+                      <p className="text-sm text-gray-600 capitalize">{growthStats.growthVelocity}</p>
+                      <p className="text-lg font-semibold mt-2">
+                        {growthStats.weeklyGrowth > 0 ? '+' : ''}{growthStats.weeklyGrowth} this week
+                      </p>
+                    </div>
                   </div>
-                  <p className="text-sm text-gray-600 capitalize">{growthStats.growthVelocity}</p>
-                  <p className="text-lg font-semibold mt-2">
-                    {growthStats.weeklyGrowth > 0 ? '+' : ''}{growthStats.weeklyGrowth} this week
-                  </p>
-                </div>
-              </div>
 
-              <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
-                <h3 className="text-lg font-semibold text-gray-900 mb-4">Engagement Trend</h3>
-                <div className="text-center">
-                  <div className={`text-3xl font-bold mb-2 ${
-                    engagementTrends.trend === 'improving' ? 'text-green-600' :
-                    engagementTrends.trend === 'declining' ? 'text-red-600' : 'text-blue-600'
-                  }`}>
-                    {engagementTrends.trend === 'improving' ? '⬆️' :
-                     engagementTrends.trend === 'declining' ? '⬇️' : '➡️'}
+                  <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
+                    <h3 className="text-lg font-semibold text-gray-900 mb-4">Engagement Trend</h3>
+                    <div className="text-center">
+                      <div className={`text-3xl font-bold mb-2 ${
+                        engagementTrends.trend === 'improving' ? 'text-green-600' :
+                        engagementTrends.trend === 'declining' ? 'text-red-600' : 'text-blue-600'
+                      }`}>
+                        {engagementTrends.trend === 'improving' ? '⬆️' :
+                         engagementTrends.trend === 'declining' ? '⬇️' : '➡️'}
+                      </div>
+                      <p className="text-sm text-gray-600 capitalize">{engagementTrends.trend}</p>
+                      <p className="text-lg font-semibold mt-2">{engagementTrends.currentEngagement}% current</p>
+                    </div>
                   </div>
-                  <p className="text-sm text-gray-600 capitalize">{engagementTrends.trend}</p>
-                  <p className="text-lg font-semibold mt-2">{engagementTrends.currentEngagement}% current</p>
-                </div>
-              </div>
 
-              <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
-                <h3 className="text-lg font-semibold text-gray-900 mb-4">Growth Score</h3>
-                <div className="text-center">
-                  <div className="text-3xl font-bold text-blue-600 mb-2">{analytics.data.growthTrend}</div>
-                  <p className="text-sm text-gray-600">Out of 10</p>
-                  <div className="w-full bg-gray-200 rounded-full h-2 mt-3">
-                    <div
-                      className="bg-blue-500 h-2 rounded-full"
-                      style={{ width: `${(analytics.data.growthTrend / 10) * 100}%` }}
-                    ></div>
+                  <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
+                    <h3 className="text-lg font-semibold text-gray-900 mb-4">Growth Score</h3>
+                    <div className="text-center">
+                      <div className="text-3xl font-bold text-blue-600 mb-2">{analytics.data.growthTrend}</div>
+                      <p className="text-sm text-gray-600">Out of 10</p>
+                      <div className="w-full bg-gray-200 rounded-full h-2 mt-3">
+                        <div
+                          className="bg-blue-500 h-2 rounded-full"
+                          style={{ width: `${(analytics.data.growthTrend / 10) * 100}%` }}
+                        ></div>
+                      </div>
+                    </div>
                   </div>
                 </div>
-              </div>
-            </div>
 
-            {/* Charts */}
-            <div className="grid lg:grid-cols-2 gap-6 mb-8">
-              <LineChart
-                data={analytics.data.historicalData.map(d => ({
-                  date: d.date,
-                  followersCount: d.followersCount,
-                  followingCount: d.followingCount,
-                  tweetCount: d.tweetCount,
-                  engagementRate: d.engagementRate
-                }))}
-                metric="followersCount"
-                color="#1565C0"
-                title="Followers Growth"
-              />
+                {/* Charts */}
+                <div className="grid lg:grid-cols-2 gap-6 mb-8">
+                  <LineChart
+                    data={analytics.data.historicalData.map(d => ({
+                      date: d.date,
+                      followersCount: d.followersCount,
+                      followingCount: d.followingCount,
+                      tweetCount: d.tweetCount,
+                      engagementRate: d.engagementRate ?? 0
+                    }))}
+                    metric="followersCount"
+                    color="#1565C0"
+                    title="Followers Growth"
+                  />
 
-              <LineChart
-                data={analytics.data.historicalData.map(d => ({
-                  date: d.date,
-                  followersCount: d.followersCount,
-                  followingCount: d.followingCount,
-                  tweetCount: d.tweetCount,
-                  engagementRate: d.engagementRate
-                }))}
-                metric="engagementRate"
-                color="#2E7D32"
-                title="Engagement Rate"
-              />
-            </div>
+                  <LineChart
+                    data={analytics.data.historicalData.flatMap(d => d.engagementRate === null ? [] : [{
+                      date: d.date,
+                      followersCount: d.followersCount,
+                      followingCount: d.followingCount,
+                      tweetCount: d.tweetCount,
+                      engagementRate: d.engagementRate
+                    }])}
+                    metric="engagementRate"
+                    color="#2E7D32"
+                    title="Engagement Rate"
+                  />
+                </div>
+              </>
+            ) : (
+              // Not Enough History State
+              <div className="bg-blue-50 border border-blue-200 rounded-xl p-6 mb-8 flex items-start gap-3" role="status">
+                <Clock className="w-5 h-5 text-blue-600 mt-0.5 flex-shrink-0" aria-hidden="true" />
+                <div>
+                  <h3 className="font-semibold text-blue-900 mb-1">Not enough history yet</h3>
+                  <p className="text-sm text-blue-800">
+                    X only reports today&apos;s numbers, so Growth Rings records one snapshot of your metrics each day
+                    you sync. Trends and charts appear once {analytics.data.minimumHistoryDays} days are recorded
+                    ({analytics.data.historicalData.length} so far).
+                  </p>
+                </div>
+              </div>
+            )}
 
             {/* Top Tweet & Recent Tweets */}
             <div className="grid lg:grid-cols-3 gap-6">
@@ -300,7 +318,10 @@ export const AnalyticsDashboard: React.FC = () => {
 
               <div className="lg:col-span-2">
                 <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
-                  <h3 className="text-lg font-semibold text-gray-900 mb-4">Recent Tweets</h3>
+                  <h3 className="text-lg font-semibold text-gray-900 mb-1">Recent Tweets</h3>
+                  <p className="text-sm text-gray-500 mb-4">
+                    Analytics cover {analytics.data.tweets.length} posts from the last {ANALYTICS_TWEET_DAYS} days.
+                  </p>
                   <div className="space-y-4 max-h-96 overflow-y-auto">
                     {analytics.data.tweets.slice(0, 5).map((tweet) => (
                       <TweetCard key={tweet.id} tweet={tweet} />
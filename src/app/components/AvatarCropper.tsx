@@ -0,0 +1,195 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ZoomIn, ZoomOut, RotateCcw } from 'lucide-react';
+import { loadImage } from '../utils/imageProcessor';
+import {
+  getInitialCrop,
+  getCropZoom,
+  zoomCrop,
+  panCrop,
+  MIN_CROP_ZOOM,
+  MAX_CROP_ZOOM,
+} from '../utils/avatarCrop';
+import type { RingCropRect } from '../lib/ringRenderer';
+
+interface AvatarCropperProps {
+  imageSrc: string;
+  crop: RingCropRect | null;
+  onCropChange: (crop: RingCropRect) => void;
+}
+
+const PREVIEW_SIZE = 200;
+const KEYBOARD_PAN_STEP = 10; // preview pixels per arrow key press
+
+export const AvatarCropper: React.FC<AvatarCropperProps> = ({
+  imageSrc,
+  crop,
+  onCropChange,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  // Latest crop and callback for the image loader, which only re-runs for a
+  // new image; the crop is owned by the parent from then on
+  const cropRef = useRef(crop);
+  const onCropChangeRef = useRef(onCropChange);
+  useEffect(() => {
+    cropRef.current = crop;
+    onCropChangeRef.current = onCropChange;
+  });
+
+  // Load the image and pick a starting crop when a new image arrives
+  useEffect(() => {
+    let cancelled = false;
+    setImage(null);
+    setLoadError(null);
+
+    loadImage(imageSrc)
+      .then(async (img) => {
+        if (cancelled) return;
+        setImage(img);
+        if (!cropRef.current) {
+          const initialCrop = await getInitialCrop(img);
+          if (!cancelled) onCropChangeRef.current(initialCrop);
+        }
+      })
+      .catch((error) => {
+        if (!cancelled) setLoadError(error instanceof Error ? error.message : 'Failed to load image');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [imageSrc]);
+
+  // Draw the crop with everything outside the ring circle dimmed
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx || !image || !crop) return;
+
+    ctx.clearRect(0, 0, PREVIEW_SIZE, PREVIEW_SIZE);
+    ctx.drawImage(image, crop.x, crop.y, crop.size, crop.size, 0, 0, PREVIEW_SIZE, PREVIEW_SIZE);
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(0, 0, PREVIEW_SIZE, PREVIEW_SIZE);
+    ctx.arc(PREVIEW_SIZE / 2, PREVIEW_SIZE / 2, PREVIEW_SIZE / 2, 0, 2 * Math.PI, true);
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+    ctx.fill('evenodd');
+    ctx.restore();
+  }, [image, crop]);
+
+  if (loadError) {
+    return <p className="text-xs text-red-600 mt-3" role="alert">{loadError}</p>;
+  }
+
+  if (!image || !crop) {
+    return null;
+  }
+
+  const zoom = getCropZoom(crop, image.width, image.height);
+  const previewToImage = crop.size / PREVIEW_SIZE;
+
+  const pan = (deltaX: number, deltaY: number) => {
+    // Dragging the picture right moves the crop window left
+    onCropChange(panCrop(crop, -deltaX * previewToImage, -deltaY * previewToImage, image.width, image.height));
+  };
+
+  const setZoom = (value: number) => {
+    onCropChange(zoomCrop(crop, value, image.width, image.height));
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { x: event.clientX, y: event.clientY };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!dragRef.current) return;
+    pan(event.clientX - dragRef.current.x, event.clientY - dragRef.current.y);
+    dragRef.current = { x: event.clientX, y: event.clientY };
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLCanvasElement>) => {
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [KEYBOARD_PAN_STEP, 0],
+      ArrowRight: [-KEYBOARD_PAN_STEP, 0],
+      ArrowUp: [0, KEYBOARD_PAN_STEP],
+      ArrowDown: [0, -KEYBOARD_PAN_STEP],
+    };
+    const move = moves[event.key];
+    if (!move) return;
+
+    event.preventDefault();
+    pan(move[0], move[1]);
+  };
+
+  const handleReset = async () => {
+    onCropChange(await getInitialCrop(image));
+  };
+
+  return (
+    <div className="mt-3 p-3 rounded-lg border-2 border-gray-200">
+      <p id="avatar-crop-help" className="text-xs text-gray-500 mb-3">
+        Drag or use the arrow keys to position your photo inside the ring.
+      </p>
+      <canvas
+        ref={canvasRef}
+        width={PREVIEW_SIZE}
+        height={PREVIEW_SIZE}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onKeyDown={handleKeyDown}
+        tabIndex={0}
+        className="mx-auto block rounded-lg cursor-move touch-none focus:outline-none focus:ring-2 focus:ring-blue-500"
+        role="img"
+        aria-label="Avatar crop preview"
+        aria-describedby="avatar-crop-help"
+      />
+      <div className="flex items-center gap-2 mt-3">
+        <button
+          onClick={() => setZoom(zoom - 0.25)}
+          disabled={zoom <= MIN_CROP_ZOOM}
+          className="p-1 text-gray-600 hover:text-gray-900 disabled:text-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
+          aria-label="Zoom out"
+        >
+          <ZoomOut size={16} aria-hidden="true" />
+        </button>
+        <input
+          type="range"
+          min={MIN_CROP_ZOOM}
+          max={MAX_CROP_ZOOM}
+          step="0.01"
+          value={zoom}
+          onChange={(e) => setZoom(Number(e.target.value))}
+          className="flex-1"
+          aria-label="Zoom"
+        />
+        <button
+          onClick={() => setZoom(zoom + 0.25)}
+          disabled={zoom >= MAX_CROP_ZOOM}
+          className="p-1 text-gray-600 hover:text-gray-900 disabled:text-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
+          aria-label="Zoom in"
+        >
+          <ZoomIn size={16} aria-hidden="true" />
+        </button>
+        <button
+          onClick={handleReset}
+          className="p-1 text-gray-600 hover:text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
+          aria-label="Reset crop"
+        >
+          <RotateCcw size={16} aria-hidden="true" />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,212 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Clock, Play, Trash2 } from 'lucide-react';
+import { REFRESH_INTERVAL_HOURS, MIN_REFRESH_STEP, MAX_REFRESH_STEP } from '../lib/avatarRefreshConfig';
+import type { PublicAvatarRefreshSchedule } from '../lib/avatarRefresh';
+
+/**
+ * Schedule settings edited in the card
+ */
+export interface AvatarRefreshSettings {
+  enabled: boolean;
+  dryRun: boolean;
+  intervalHours: number;
+  step: number;
+}
+
+interface AvatarRefreshCardProps {
+  schedule: PublicAvatarRefreshSchedule | null;
+  isLoading: boolean;
+  isSaving: boolean;
+  isRunning: boolean;
+  error: string | null;
+  canSave: boolean;
+  uploadsEnabled: boolean; // off: every run is a dry run
+  onSave: (settings: AvatarRefreshSettings) => void;
+  onRunNow: () => void;
+  onRemove: () => void;
+}
+
+const DEFAULT_SETTINGS: AvatarRefreshSettings = {
+  enabled: true,
+  dryRun: true,
+  intervalHours: 24,
+  step: 5,
+};
+
+const RUN_ACTION_STYLES = {
+  updated: 'text-green-700',
+  'dry-run': 'text-blue-700',
+  skipped: 'text-gray-500',
+  error: 'text-red-600',
+} as const;
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+export const AvatarRefreshCard: React.FC<AvatarRefreshCardProps> = ({
+  schedule,
+  isLoading,
+  isSaving,
+  isRunning,
+  error,
+  canSave,
+  uploadsEnabled,
+  onSave,
+  onRunNow,
+  onRemove,
+}) => {
+  const [settings, setSettings] = useState<AvatarRefreshSettings>(DEFAULT_SETTINGS);
+
+  // Start from the stored schedule once it loads
+  useEffect(() => {
+    if (schedule) {
+      const { enabled, dryRun, intervalHours, step } = schedule;
+      setSettings({ enabled, dryRun, intervalHours, step });
+    }
+  }, [schedule]);
+
+  const updateSetting = <K extends keyof AvatarRefreshSettings>(field: K, value: AvatarRefreshSettings[K]) => {
+    setSettings(prev => ({ ...prev, [field]: value }));
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
+      <h2 className="text-xl font-semibold text-gray-900 mb-2 flex items-center gap-2">
+        <Clock className="text-gray-600" size={20} aria-hidden="true" />
+        Auto-Update Avatar
+      </h2>
+      <p className="text-xs text-gray-500 mb-4">
+        Checks your follower count on a schedule and sets the ring as your X profile picture when it moves.
+      </p>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading…</p>
+      ) : (
+        <div className="space-y-3">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={(e) => updateSetting('enabled', e.target.checked)}
+            />
+            Enabled
+          </label>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="avatar-refresh-interval" className="block text-xs text-gray-600 mb-1">
+                Check every
+              </label>
+              <select
+                id="avatar-refresh-interval"
+                value={settings.intervalHours}
+                onChange={(e) => updateSetting('intervalHours', Number(e.target.value))}
+                className={inputClassName}
+              >
+                {REFRESH_INTERVAL_HOURS.map((hours) => (
+                  <option key={hours} value={hours}>
+                    {hours === 1 ? '1 hour' : `${hours} hours`}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="avatar-refresh-step" className="block text-xs text-gray-600 mb-1">
+                Update after (points)
+              </label>
+              <input
+                id="avatar-refresh-step"
+                type="number"
+                min={MIN_REFRESH_STEP}
+                max={MAX_REFRESH_STEP}
+                value={settings.step}
+                onChange={(e) => updateSetting('step', Number(e.target.value))}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={settings.dryRun || !uploadsEnabled}
+              disabled={!uploadsEnabled}
+              onChange={(e) => updateSetting('dryRun', e.target.checked)}
+            />
+            Dry run (log only, don&apos;t change my avatar)
+          </label>
+          {!uploadsEnabled && (
+            <p className="text-xs text-gray-500">
+              X doesn&apos;t accept profile picture uploads from Growth Rings yet, so runs only log what they would do.
+            </p>
+          )}
+
+          {!canSave && (
+            <p className="text-xs text-gray-500">
+              Upload a photo and use a single followers ring to schedule updates.
+            </p>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => onSave(settings)}
+              disabled={!canSave || isSaving}
+              className="flex-1 bg-blue-600 text-white px-3 py-2 rounded-lg text-sm font-medium hover:bg-blue-700 disabled:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {isSaving ? 'Saving…' : 'Save'}
+            </button>
+            {schedule && (
+              <>
+                <button
+                  onClick={onRunNow}
+                  disabled={isRunning}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 disabled:text-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500 flex items-center gap-1"
+                >
+                  <Play size={14} aria-hidden="true" />
+                  {isRunning ? 'Running…' : 'Run now'}
+                </button>
+                <button
+                  onClick={onRemove}
+                  disabled={isSaving}
+                  className="p-2 text-gray-500 hover:text-red-600 focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
+                  aria-label="Stop auto-updating and remove schedule"
+                >
+                  <Trash2 size={16} aria-hidden="true" />
+                </button>
+              </>
+            )}
+          </div>
+
+          {error && (
+            <p className="text-xs text-red-600" role="alert">{error}</p>
+          )}
+
+          {schedule && (
+            <div>
+              <p className="text-xs text-gray-600 mb-1">
+                {schedule.enabled
+                  ? `Next check ${new Date(schedule.nextRunAt).toLocaleString()}`
+                  : 'Paused'}
+              </p>
+              {schedule.runs.length > 0 ? (
+                <ul className="max-h-40 overflow-y-auto text-xs space-y-1" aria-label="Recent runs">
+                  {schedule.runs.map((run) => (
+                    <li key={run.at} className="flex justify-between gap-2">
+                      <span className={RUN_ACTION_STYLES[run.action]}>{run.message}</span>
+                      <time dateTime={run.at} className="text-gray-400 whitespace-nowrap">
+                        {new Date(run.at).toLocaleDateString()}
+                      </time>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-xs text-gray-500">No runs yet.</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -5,6 +5,16 @@ import { Settings, RefreshCw } from 'lucide-react';
 import { GoalTypeSelector } from './GoalTypeSelector';
 import { XApiStatus } from './XApiStatus';
 import { ImageUploader } from './ImageUploader';
+import { ActivityGoalsEditor } from './ActivityGoalsEditor';
+import { RingThemeManager } from './RingThemeManager';
+import { TextOverlayEditor } from './TextOverlayEditor';
+import { MilestoneEditor } from './MilestoneEditor';
+import { SavedGoalsEditor } from './SavedGoalsEditor';
+import { isCustomStyleId, type RingStyleDefinition } from '../lib/ringStyles';
+import type { RingCropRect, RingMilestone } from '../lib/ringRenderer';
+import type { MilestoneSettings, RingTextSettings } from '../lib/ringConfig';
+import { getDeadlineFromDays, type SavedGoal } from '../lib/goals';
+import type { RateLimitInfo } from '../lib/xRateLimit';
 
 interface GoalType {
   icon: React.ComponentType<{ size?: number; style?: React.CSSProperties; 'aria-hidden'?: boolean }>;
@@ -14,6 +24,12 @@ interface GoalType {
 }
 
 interface GoalSetupCardProps {
+  ringLayout: 'single' | 'activity';
+  setRingLayout: (layout: 'single' | 'activity') => void;
+  activityGoals: Record<string, { current: number; target: number }>;
+  onActivityGoalChange: (type: string, field: 'current' | 'target', value: number) => void;
+  showOverflow: boolean;
+  setShowOverflow: (value: boolean) => void;
   goalType: string;
   goalTypes: Record<string, GoalType>;
   setGoalType: (type: string) => void;
@@ -21,27 +37,62 @@ interface GoalSetupCardProps {
   setCurrentFollowers: (value: number) => void;
   targetFollowers: number;
   setTargetFollowers: (value: number) => void;
-  timeframe: string;
-  setTimeframe: (value: string) => void;
+  deadline: string | null;
+  setDeadline: (value: string | null) => void;
   ringStyle: string;
   setRingStyle: (value: string) => void;
   timeframes: Record<string, { label: string; days: number }>;
-  ringStyles: Record<string, { name: string; gradient: boolean; glow?: boolean }>;
+  ringStyles: Record<string, RingStyleDefinition>;
+  themeError: string | null;
+  onSaveTheme: (style: RingStyleDefinition, id?: string) => void;
+  onDeleteTheme: (id: string) => void;
+  onExportThemes: () => string;
+  onImportThemes: (json: string) => number;
+  textSettings: RingTextSettings;
+  onTextSettingChange: <K extends keyof RingTextSettings>(field: K, value: RingTextSettings[K]) => void;
+  paidFeaturesEnabled: boolean;
+  milestoneSettings: MilestoneSettings;
+  onMilestoneSettingChange: <K extends keyof MilestoneSettings>(field: K, value: MilestoneSettings[K]) => void;
+  milestones: RingMilestone[];
+  savedGoals: SavedGoal[];
+  activeGoalId: string | null;
+  goalsSynced: boolean;
+  goalsLoading: boolean;
+  goalsError: string | null;
+  startValue: number;
+  setStartValue: (value: number) => void;
+  onSelectGoal: (id: string | null) => void;
+  onSaveGoal: (name: string, id?: string) => void;
+  onDeleteGoal: (id: string) => void;
   profileImage: string | null;
   isGenerating: boolean;
   imageError: string | null;
   fileInputRef: RefObject<HTMLInputElement | null>;
   onFileInputClick: () => void;
   onImageUpload: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  avatarCrop: RingCropRect | null;
+  onAvatarCropChange: (crop: RingCropRect) => void;
   xApiIsConfigured: boolean;
   xApiUserData?: { username: string; followersCount: number; engagementRate: number } | null;
   xApiIsLoading: boolean;
   xApiError: string | null;
   xApiLastUpdated?: Date | null;
+  xApiRateLimit?: RateLimitInfo | null;
   onSyncWithXApi: () => void;
 }
 
+const ringLayouts = {
+  single: 'Single Goal',
+  activity: 'Activity Rings',
+} as const;
+
 export const GoalSetupCard: React.FC<GoalSetupCardProps> = ({
+  ringLayout,
+  setRingLayout,
+  activityGoals,
+  onActivityGoalChange,
+  showOverflow,
+  setShowOverflow,
   goalType,
   goalTypes,
   setGoalType,
@@ -49,25 +100,52 @@ export const GoalSetupCard: React.FC<GoalSetupCardProps> = ({
   setCurrentFollowers,
   targetFollowers,
   setTargetFollowers,
-  timeframe,
-  setTimeframe,
+  deadline,
+  setDeadline,
   ringStyle,
   setRingStyle,
   timeframes,
   ringStyles,
+  themeError,
+  onSaveTheme,
+  onDeleteTheme,
+  onExportThemes,
+  onImportThemes,
+  textSettings,
+  onTextSettingChange,
+  paidFeaturesEnabled,
+  milestoneSettings,
+  onMilestoneSettingChange,
+  milestones,
+  savedGoals,
+  activeGoalId,
+  goalsSynced,
+  goalsLoading,
+  goalsError,
+  startValue,
+  setStartValue,
+  onSelectGoal,
+  onSaveGoal,
+  onDeleteGoal,
   profileImage,
   isGenerating,
   imageError,
   fileInputRef,
   onFileInputClick,
   onImageUpload,
+  avatarCrop,
+  onAvatarCropChange,
   xApiIsConfigured,
   xApiUserData,
   xApiIsLoading,
   xApiError,
   xApiLastUpdated,
+  xApiRateLimit,
   onSyncWithXApi,
 }) => {
+  const builtInStyles = Object.entries(ringStyles).filter(([key]) => !isCustomStyleId(key));
+  const customStyles = Object.entries(ringStyles).filter(([key]) => isCustomStyleId(key));
+
   return (
     <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
       <h2 className="text-xl font-semibold text-gray-900 mb-4 flex items-center gap-2">
@@ -75,121 +153,198 @@ export const GoalSetupCard: React.FC<GoalSetupCardProps> = ({
         Goal Setup
       </h2>
 
-      {/* Goal Type Selector */}
-      <GoalTypeSelector
-        goalType={goalType}
-        goalTypes={goalTypes}
-        onGoalTypeChange={setGoalType}
-      />
+      {/* Ring Layout */}
+      <div className="mb-4">
+        <span id="ring-layout-label" className="block text-sm font-medium text-gray-700 mb-2">
+          Ring Layout
+        </span>
+        <div className="grid grid-cols-2 gap-2" role="radiogroup" aria-labelledby="ring-layout-label">
+          {(Object.keys(ringLayouts) as Array<keyof typeof ringLayouts>).map((layout) => (
+            <button
+              key={layout}
+              onClick={() => setRingLayout(layout)}
+              className={`px-3 py-2 rounded-lg border-2 text-sm font-medium transition-all focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 ${
+                ringLayout === layout
+                  ? 'border-blue-500 bg-blue-50 text-blue-700'
+                  : 'border-gray-200 hover:border-gray-300 text-gray-700'
+              }`}
+              role="radio"
+              aria-checked={ringLayout === layout}
+            >
+              {ringLayouts[layout]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {ringLayout === 'activity' ? (
+        <ActivityGoalsEditor
+          goalTypes={goalTypes}
+          activityGoals={activityGoals}
+          onActivityGoalChange={onActivityGoalChange}
+        />
+      ) : (
+        <>
+        {/* Saved Goals */}
+        <SavedGoalsEditor
+          goals={savedGoals}
+          activeGoalId={activeGoalId}
+          isSynced={goalsSynced}
+          isLoading={goalsLoading}
+          error={goalsError}
+          startValue={startValue}
+          setStartValue={setStartValue}
+          onSelectGoal={onSelectGoal}
+          onSaveGoal={onSaveGoal}
+          onDeleteGoal={onDeleteGoal}
+        />
 
-      {/* Current and Target Values */}
-      <div className="grid grid-cols-2 gap-3 mb-4">
-        <div>
-          <label
-            htmlFor="current-followers"
-            className="block text-sm font-medium text-gray-700 mb-2"
-          >
-            Current
-            {xApiIsConfigured && xApiUserData && (
-              <span
-                className="text-xs text-green-600 ml-1"
-                role="status"
-                aria-label="Live data from X API"
-              >
-                (Live)
-              </span>
+        {/* Goal Type Selector */}
+        <GoalTypeSelector
+          goalType={goalType}
+          goalTypes={goalTypes}
+          onGoalTypeChange={setGoalType}
+        />
+
+        {/* Current and Target Values */}
+        <div className="grid grid-cols-2 gap-3 mb-4">
+          <div>
+            <label
+              htmlFor="current-followers"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              Current
+              {xApiIsConfigured && xApiUserData && (
+                <span
+                  className="text-xs text-green-600 ml-1"
+                  role="status"
+                  aria-label="Live data from X API"
+                >
+                  (Live)
+                </span>
+              )}
+            </label>
+            <div className="flex gap-2">
+              <input
+                id="current-followers"
+                type="number"
+                value={currentFollowers}
+                onChange={(e) => setCurrentFollowers(Number(e.target.value))}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                aria-describedby="current-help"
+                min="0"
+                step="1"
+              />
+              {xApiIsConfigured && (
+                <button
+                  onClick={onSyncWithXApi}
+                  disabled={xApiIsLoading}
+                  className={`px-3 py-2 rounded-lg border transition-colors flex items-center focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 ${
+                    xApiIsLoading
+                      ? 'border-gray-300 text-gray-400 cursor-not-allowed'
+                      : 'border-blue-500 text-blue-600 hover:bg-blue-50'
+                  }`}
+                  aria-label={xApiIsLoading ? 'Syncing with X API' : 'Sync follower count with X API'}
+                >
+                  <RefreshCw
+                    size={16}
+                    className={xApiIsLoading ? 'animate-spin' : ''}
+                    aria-hidden="true"
+                  />
+                  <span className="sr-only">
+                    {xApiIsLoading ? 'Syncing with X API' : 'Sync with X API'}
+                  </span>
+                </button>
+              )}
+            </div>
+            {xApiUserData && xApiLastUpdated && (
+              <p id="current-help" className="text-xs text-gray-500 mt-1">
+                Last updated: <time dateTime={xApiLastUpdated.toISOString()}>{xApiLastUpdated.toLocaleTimeString()}</time>
+              </p>
             )}
-          </label>
-          <div className="flex gap-2">
+          </div>
+
+          <div>
+            <label
+              htmlFor="target-followers"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              Target
+            </label>
             <input
-              id="current-followers"
+              id="target-followers"
               type="number"
-              value={currentFollowers}
-              onChange={(e) => setCurrentFollowers(Number(e.target.value))}
-              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              aria-describedby="current-help"
+              value={targetFollowers}
+              onChange={(e) => setTargetFollowers(Number(e.target.value))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              aria-describedby="target-help"
               min="0"
               step="1"
             />
-            {xApiIsConfigured && (
-              <button
-                onClick={onSyncWithXApi}
-                disabled={xApiIsLoading}
-                className={`px-3 py-2 rounded-lg border transition-colors flex items-center focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 ${
-                  xApiIsLoading
-                    ? 'border-gray-300 text-gray-400 cursor-not-allowed'
-                    : 'border-blue-500 text-blue-600 hover:bg-blue-50'
-                }`}
-                aria-label={xApiIsLoading ? 'Syncing with X API' : 'Sync follower count with X API'}
-              >
-                <RefreshCw
-                  size={16}
-                  className={xApiIsLoading ? 'animate-spin' : ''}
-                  aria-hidden="true"
-                />
-                <span className="sr-only">
-                  {xApiIsLoading ? 'Syncing with X API' : 'Sync with X API'}
-                </span>
-              </button>
-            )}
-          </div>
-          {xApiUserData && xApiLastUpdated && (
-            <p id="current-help" className="text-xs text-gray-500 mt-1">
-              Last updated: <time dateTime={xApiLastUpdated.toISOString()}>{xApiLastUpdated.toLocaleTimeString()}</time>
+            <p id="target-help" className="sr-only">
+              Enter your target {goalTypes[goalType]?.label.toLowerCase() || 'goal'} value
             </p>
-          )}
+          </div>
         </div>
 
-        <div>
-          <label
-            htmlFor="target-followers"
-            className="block text-sm font-medium text-gray-700 mb-2"
-          >
-            Target
-          </label>
-          <input
-            id="target-followers"
-            type="number"
-            value={targetFollowers}
-            onChange={(e) => setTargetFollowers(Number(e.target.value))}
-            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-            aria-describedby="target-help"
-            min="0"
-            step="1"
-          />
-          <p id="target-help" className="sr-only">
-            Enter your target {goalTypes[goalType]?.label.toLowerCase() || 'goal'} value
-          </p>
-        </div>
-      </div>
+        {/* Milestones */}
+        <MilestoneEditor
+          milestoneSettings={milestoneSettings}
+          onMilestoneSettingChange={onMilestoneSettingChange}
+          milestones={milestones}
+          goalLabel={goalTypes[goalType]?.label || 'Goal'}
+        />
+        </>
+      )}
+
+      {/* Overflow */}
+      <label className="mb-4 flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={showOverflow}
+          onChange={(e) => setShowOverflow(e.target.checked)}
+          aria-describedby="overflow-help"
+        />
+        Show progress past 100%
+      </label>
+      <p id="overflow-help" className="sr-only">
+        Draws progress beyond your target as a second, brighter lap with the real percentage
+      </p>
 
       {/* X API Status */}
       <XApiStatus
         isConfigured={xApiIsConfigured}
         error={xApiError}
         userData={xApiUserData}
+        rateLimit={xApiRateLimit}
       />
 
-      {/* Timeframe */}
+      {/* Deadline */}
       <div className="mb-4">
-        <label htmlFor="timeframe-select" className="block text-sm font-medium text-gray-700 mb-2">
-          Timeframe
+        <label htmlFor="deadline-input" className="block text-sm font-medium text-gray-700 mb-2">
+          Deadline
         </label>
-        <select
-          id="timeframe-select"
-          value={timeframe}
-          onChange={(e) => setTimeframe(e.target.value)}
+        <input
+          id="deadline-input"
+          type="date"
+          value={deadline ?? ''}
+          onChange={(e) => setDeadline(e.target.value || null)}
           className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-          aria-describedby="timeframe-help"
-        >
+          aria-describedby="deadline-help"
+        />
+        <div className="flex gap-2 mt-2" role="group" aria-label="Set deadline from today">
           {Object.entries(timeframes).map(([key, frame]) => (
-            <option key={key} value={key}>
+            <button
+              key={key}
+              onClick={() => setDeadline(getDeadlineFromDays(frame.days))}
+              className="px-2 py-1 border border-gray-300 rounded-lg text-xs text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
               {frame.label}
-            </option>
+            </button>
           ))}
-        </select>
-        <p id="timeframe-help" className="sr-only">
-          Select the duration for your goal achievement
+        </div>
+        <p id="deadline-help" className="sr-only">
+          Select the date you want to reach your goal by
         </p>
       </div>
 
@@ -205,17 +360,51 @@ export const GoalSetupCard: React.FC<GoalSetupCardProps> = ({
           className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           aria-describedby="ring-style-help"
         >
-          {Object.entries(ringStyles).map(([key, style]) => (
-            <option key={key} value={key}>
-              {style.name}
-            </option>
-          ))}
+          <optgroup label="Built-in">
+            {builtInStyles.map(([key, style]) => (
+              <option key={key} value={key}>
+                {style.name}
+              </option>
+            ))}
+          </optgroup>
+          {customStyles.length > 0 && (
+            <optgroup label="Custom">
+              {customStyles.map(([key, style]) => (
+                <option key={key} value={key}>
+                  {style.name}
+                </option>
+              ))}
+            </optgroup>
+          )}
         </select>
         <p id="ring-style-help" className="sr-only">
           Choose the visual style for your progress ring
         </p>
+        {ringStyles[ringStyle] && (
+          <RingThemeManager
+            selectedStyleId={ringStyle}
+            selectedStyle={ringStyles[ringStyle]}
+            isCustomStyle={isCustomStyleId(ringStyle)}
+            customStyleCount={customStyles.length}
+            themeError={themeError}
+            onSaveTheme={onSaveTheme}
+            onDeleteTheme={onDeleteTheme}
+            onExportThemes={onExportThemes}
+            onImportThemes={onImportThemes}
+          />
+        )}
       </div>
 
+      {/* Ring Text */}
+      <TextOverlayEditor
+        textSettings={textSettings}
+        onTextSettingChange={onTextSettingChange}
+        goalLabel={goalTypes[goalType]?.label || 'Label'}
+        canShowValues={ringLayout === 'single'}
+        handleSuggestion={xApiUserData?.username}
+        paidFeaturesEnabled={paidFeaturesEnabled}
+      />
+
       {/* Image Uploader */}
       <ImageUploader
         profileImage={profileImage}
@@ -224,6 +413,8 @@ export const GoalSetupCard: React.FC<GoalSetupCardProps> = ({
         fileInputRef={fileInputRef}
         onFileInputClick={onFileInputClick}
         onImageUpload={onImageUpload}
+        avatarCrop={avatarCrop}
+        onAvatarCropChange={onAvatarCropChange}
       />
     </div>
   );
@@ -2,6 +2,9 @@
 
 import React, { RefObject } from 'react';
 import { Upload, AlertCircle } from 'lucide-react';
+import { AvatarCropper } from './AvatarCropper';
+import { SUPPORTED_FORMATS_TEXT } from '../utils/imageIngestion';
+import type { RingCropRect } from '../lib/ringRenderer';
 
 interface ImageUploaderProps {
   profileImage: string | null;
@@ -10,6 +13,8 @@ interface ImageUploaderProps {
   fileInputRef: RefObject<HTMLInputElement | null>;
   onFileInputClick: () => void;
   onImageUpload: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  avatarCrop: RingCropRect | null;
+  onAvatarCropChange: (crop: RingCropRect) => void;
 }
 
 export const ImageUploader: React.FC<ImageUploaderProps> = ({
@@ -19,6 +24,8 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
   fileInputRef,
   onFileInputClick,
   onImageUpload,
+  avatarCrop,
+  onAvatarCropChange,
 }) => {
   return (
     <div>
@@ -61,7 +68,7 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
         id="profile-picture-upload"
         ref={fileInputRef}
         type="file"
-        accept="image/*"
+        accept="image/*,.heic,.heif,.avif,.webp,.svg"
         onChange={onImageUpload}
         className="sr-only"
         aria-describedby="upload-instructions"
@@ -69,7 +76,7 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
       />
 
       <p id="upload-instructions" className="text-xs text-gray-500 mt-2">
-        Supported formats: JPG, PNG, GIF. Max size: 10MB
+        Supported formats: {SUPPORTED_FORMATS_TEXT}. Max size: 10MB
       </p>
 
       {/* Image Upload Status */}
@@ -121,6 +128,15 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
           </p>
         </div>
       )}
+
+      {/* Crop Step */}
+      {profileImage && (
+        <AvatarCropper
+          imageSrc={profileImage}
+          crop={avatarCrop}
+          onCropChange={onAvatarCropChange}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,75 @@
+'use client';
+
+import React from 'react';
+import { Flag } from 'lucide-react';
+import {
+  MILESTONE_MODES,
+  type MilestoneMode,
+  type MilestoneSettings,
+} from '../lib/ringConfig';
+import type { RingMilestone } from '../lib/ringRenderer';
+
+interface MilestoneEditorProps {
+  milestoneSettings: MilestoneSettings;
+  onMilestoneSettingChange: <K extends keyof MilestoneSettings>(field: K, value: MilestoneSettings[K]) => void;
+  milestones: RingMilestone[];
+  goalLabel: string;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+export const MilestoneEditor: React.FC<MilestoneEditorProps> = ({
+  milestoneSettings,
+  onMilestoneSettingChange,
+  milestones,
+  goalLabel,
+}) => {
+  const listField = milestoneSettings.mode === 'values' ? 'valueList' : 'percentList';
+
+  return (
+    <fieldset className="mb-4">
+      <legend className="text-sm font-medium text-gray-700 mb-2 flex items-center gap-2">
+        <Flag size={16} className="text-gray-600" aria-hidden="true" />
+        Milestones
+      </legend>
+
+      <div className="space-y-3">
+        <select
+          aria-label="Milestone type"
+          value={milestoneSettings.mode}
+          onChange={(e) => onMilestoneSettingChange('mode', e.target.value as MilestoneMode)}
+          className={inputClassName}
+        >
+          {(Object.keys(MILESTONE_MODES) as MilestoneMode[]).map((mode) => (
+            <option key={mode} value={mode}>
+              {MILESTONE_MODES[mode]}
+            </option>
+          ))}
+        </select>
+
+        {milestoneSettings.mode !== 'none' && (
+          <div>
+            <label htmlFor="milestone-list" className="block text-xs text-gray-600 mb-1">
+              {milestoneSettings.mode === 'values'
+                ? `${goalLabel} (e.g. 1K, 5K, 10K)`
+                : 'Percent of target (e.g. 25, 50, 75)'}
+            </label>
+            <input
+              id="milestone-list"
+              type="text"
+              value={milestoneSettings[listField]}
+              onChange={(e) => onMilestoneSettingChange(listField, e.target.value)}
+              className={inputClassName}
+              aria-describedby="milestone-list-help"
+            />
+            <p id="milestone-list-help" className="text-xs text-gray-500 mt-1" aria-live="polite">
+              {milestones.length > 0
+                ? `On the ring: ${milestones.map(milestone => `${milestone.badgeArt?.symbol ?? ''} ${milestone.label}`.trim()).join(', ')}`
+                : 'No milestones fit within your target.'}
+            </p>
+          </div>
+        )}
+      </div>
+    </fieldset>
+  );
+};
@@ -0,0 +1,97 @@
+'use client';
+
+import React from 'react';
+import { CalendarClock } from 'lucide-react';
+import type { GoalPacing, PacingStatus } from '../lib/pacing';
+
+interface PacingSummaryProps {
+  pacing: GoalPacing;
+  deadline: string | null;
+  valueSuffix: string;
+  showExpectedArc: boolean;
+  onShowExpectedArcChange: (value: boolean) => void;
+}
+
+const statusLabels: Record<PacingStatus, { label: string; className: string }> = {
+  ahead: { label: 'Ahead', className: 'bg-green-100 text-green-800' },
+  'on-track': { label: 'On track', className: 'bg-blue-100 text-blue-800' },
+  behind: { label: 'Behind', className: 'bg-red-100 text-red-800' },
+  complete: { label: 'Complete', className: 'bg-green-100 text-green-800' },
+};
+
+const formatDate = (date: string): string => {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+};
+
+// Small daily changes (engagement rate) need more decimals than follower counts
+const formatRate = (value: number, suffix: string): string => {
+  const magnitude = Math.abs(value);
+  const digits = magnitude < 1 ? 2 : magnitude < 10 ? 1 : 0;
+  const sign = value > 0 ? '+' : '';
+  return `${sign}${value.toLocaleString(undefined, { maximumFractionDigits: digits })}${suffix}/day`;
+};
+
+export const PacingSummary: React.FC<PacingSummaryProps> = ({
+  pacing,
+  deadline,
+  valueSuffix,
+  showExpectedArc,
+  onShowExpectedArcChange,
+}) => {
+  const { daysLeft, requiredPerDay, currentPerDay, projectedDate, expectedValue, status } = pacing;
+
+  const getNeededText = () => {
+    if (status === 'complete') return 'Goal reached.';
+    if (!deadline || daysLeft === null) return 'Set a deadline to see the pace you need.';
+    if (daysLeft <= 0) return `The deadline passed on ${formatDate(deadline)}.`;
+    return `${formatRate(requiredPerDay ?? 0, valueSuffix)} needed to reach it by ${formatDate(deadline)} (${daysLeft} ${daysLeft === 1 ? 'day' : 'days'} left).`;
+  };
+
+  const getProjectionText = () => {
+    if (status === 'complete') return null;
+    if (currentPerDay === null) return 'Not enough history yet to measure your current pace.';
+    if (!projectedDate) return `Current pace: ${formatRate(currentPerDay, valueSuffix)}. At this pace the goal won't be reached.`;
+    return `Current pace: ${formatRate(currentPerDay, valueSuffix)}. Projected to reach it on ${formatDate(projectedDate)}.`;
+  };
+
+  const projectionText = getProjectionText();
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 max-w-md mx-auto mt-3 text-left" aria-live="polite">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm font-medium text-gray-900 flex items-center gap-2">
+          <CalendarClock size={16} className="text-gray-600" aria-hidden="true" />
+          Pacing
+        </p>
+        {status && (
+          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusLabels[status].className}`}>
+            {statusLabels[status].label}
+          </span>
+        )}
+      </div>
+
+      <p className="text-sm text-gray-700">{getNeededText()}</p>
+      {projectionText && <p className="text-sm text-gray-700 mt-1">{projectionText}</p>}
+
+      <label className="flex items-center gap-2 text-sm text-gray-700 mt-3">
+        <input
+          type="checkbox"
+          checked={showExpectedArc}
+          onChange={(e) => onShowExpectedArcChange(e.target.checked)}
+          disabled={expectedValue === null}
+        />
+        Show expected progress on the ring
+      </label>
+      {expectedValue === null && status !== 'complete' && (
+        <p className="text-xs text-gray-500 mt-1">
+          Save the goal with a deadline to track expected progress from today.
+        </p>
+      )}
+    </div>
+  );
+};
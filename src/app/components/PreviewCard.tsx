@@ -1,7 +1,19 @@
 'use client';
 
-import React, { RefObject } from 'react';
-import { Download, Upload } from 'lucide-react';
+import React, { RefObject, useState } from 'react';
+import { Download, Upload, Film, Share2, Link2, UserCircle } from 'lucide-react';
+import {
+  ANIMATION_FORMATS,
+  ANIMATION_DURATIONS,
+  ANIMATION_FRAME_RATES,
+  isWebmSupported,
+  type AnimationFormat,
+} from '../utils/ringAnimation';
+import { RING_EXPORT_PRESETS, type RingExportPresetKey } from '../lib/ringRenderer';
+import type { TweetTemplateValues } from '../lib/tweetTemplates';
+import type { GoalPacing } from '../lib/pacing';
+import { TweetComposer } from './TweetComposer';
+import { PacingSummary } from './PacingSummary';
 
 interface PreviewCardProps {
   profileImage: string | null;
@@ -15,7 +27,28 @@ interface PreviewCardProps {
   currentGoalLabel: string;
   currentGoalColor: string;
   motivationalMessage: string;
-  onDownloadImage: () => void;
+  pacing: GoalPacing | null; // null hides pacing
+  deadline: string | null;
+  valueSuffix: string;
+  showExpectedArc: boolean;
+  onShowExpectedArcChange: (value: boolean) => void;
+  milestonePrompt: { label: string; symbol: string; shareText: string } | null;
+  onDismissMilestonePrompt: () => void;
+  onDownloadImage: (preset: RingExportPresetKey) => void;
+  onDownloadAnimation: (options: { format: AnimationFormat; durationMs: number; fps: number }) => void;
+  isExportingAnimation: boolean;
+  canShareLink: boolean;
+  onCreateShareLink: () => void;
+  isSharing: boolean;
+  shareUrl: string | null;
+  canSetAvatar: boolean;
+  onSetAsAvatar: () => void;
+  isSettingAvatar: boolean;
+  avatarStatus: string | null;
+  onClearAvatarStatus: () => void;
+  tweetTemplateValues: TweetTemplateValues | null; // null hides the composer
+  onRenderTweetImage: () => Promise<string>;
+  onPostTweet: (text: string, image: string | null) => Promise<{ id: string }>;
   onClearCanvasError: () => void;
   onRetryGenerate: () => void;
 }
@@ -29,24 +62,115 @@ export const PreviewCard: React.FC<PreviewCardProps> = ({
   progressPercentage,
   currentGoalColor,
   motivationalMessage,
+  pacing,
+  deadline,
+  valueSuffix,
+  showExpectedArc,
+  onShowExpectedArcChange,
+  milestonePrompt,
+  onDismissMilestonePrompt,
   onDownloadImage,
+  onDownloadAnimation,
+  isExportingAnimation,
+  canShareLink,
+  onCreateShareLink,
+  isSharing,
+  shareUrl,
+  canSetAvatar,
+  onSetAsAvatar,
+  isSettingAvatar,
+  avatarStatus,
+  onClearAvatarStatus,
+  tweetTemplateValues,
+  onRenderTweetImage,
+  onPostTweet,
   onClearCanvasError,
   onRetryGenerate,
 }) => {
+  const [exportPreset, setExportPreset] = useState<RingExportPresetKey>('x-avatar');
+  const [animationFormat, setAnimationFormat] = useState<AnimationFormat>('gif');
+  const [animationDuration, setAnimationDuration] = useState(ANIMATION_DURATIONS[1]);
+  const [animationFps, setAnimationFps] = useState(ANIMATION_FRAME_RATES[1]);
+
   return (
     <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
       <div className="flex justify-between items-center mb-4">
         <h3 className="text-xl font-semibold text-gray-900">Your Growth Ring</h3>
         {showCanvas && !canvasError && (
+          <div className="flex items-center gap-2">
+            <label htmlFor="export-preset" className="sr-only">
+              Export size
+            </label>
+            <select
+              id="export-preset"
+              value={exportPreset}
+              onChange={(e) => setExportPreset(e.target.value as RingExportPresetKey)}
+              className="px-2 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {(Object.keys(RING_EXPORT_PRESETS) as RingExportPresetKey[]).map((preset) => (
+                <option key={preset} value={preset}>
+                  {RING_EXPORT_PRESETS[preset].label}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => onDownloadImage(exportPreset)}
+              className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center gap-2"
+            >
+              <Download size={16} />
+              Download
+            </button>
+            <button
+              onClick={onCreateShareLink}
+              disabled={!canShareLink || isSharing}
+              title={canShareLink ? undefined : 'Share links are available for single goal rings'}
+              className="bg-gray-900 hover:bg-black disabled:bg-gray-300 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center gap-2"
+            >
+              <Link2 size={16} aria-hidden="true" />
+              {isSharing ? 'Saving...' : 'Share link'}
+            </button>
+            {canSetAvatar && (
+              <button
+                onClick={onSetAsAvatar}
+                disabled={isSettingAvatar}
+                className="bg-green-600 hover:bg-green-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center gap-2"
+              >
+                <UserCircle size={16} aria-hidden="true" />
+                {isSettingAvatar ? 'Uploading...' : 'Set as my avatar'}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {avatarStatus && showCanvas && !canvasError && (
+        <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg flex items-start gap-2" role="status">
+          <p className="flex-grow text-sm text-green-800">{avatarStatus}</p>
           <button
-            onClick={onDownloadImage}
-            className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center gap-2"
+            onClick={onClearAvatarStatus}
+            className="text-green-500 hover:text-green-700 text-sm"
+            aria-label="Dismiss"
           >
-            <Download size={16} />
-            Download
+            ✕
           </button>
-        )}
-      </div>
+        </div>
+      )}
+
+      {shareUrl && showCanvas && !canvasError && (
+        <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg" role="status">
+          <label htmlFor="share-url" className="block text-sm font-medium text-blue-900 mb-2">
+            Share link ready. Paste it into a post to show your ring preview.
+          </label>
+          <input
+            id="share-url"
+            type="text"
+            readOnly
+            value={shareUrl}
+            onFocus={(e) => e.target.select()}
+            className="w-full px-3 py-2 border border-blue-200 rounded-lg bg-white text-sm text-gray-700"
+          />
+        </div>
+      )}
 
       {canvasError && showCanvas && (
         <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-start gap-2">
@@ -66,6 +190,43 @@ export const PreviewCard: React.FC<PreviewCardProps> = ({
         </div>
       )}
 
+      {milestonePrompt && showCanvas && !canvasError && (
+        <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg flex items-start gap-2" role="status">
+          <div className="flex-shrink-0 text-xl" aria-hidden="true">
+            {milestonePrompt.symbol}
+          </div>
+          <div className="flex-grow">
+            <p className="text-sm font-medium text-yellow-900">Milestone reached: {milestonePrompt.label}</p>
+            <p className="text-sm text-yellow-800 mt-1">Your ring has a new badge. Download it and share the news.</p>
+            <div className="flex gap-2 mt-2">
+              <button
+                onClick={() => onDownloadImage(exportPreset)}
+                className="bg-blue-500 hover:bg-blue-600 text-white px-3 py-1.5 rounded-lg text-sm font-medium transition-colors flex items-center gap-2"
+              >
+                <Download size={14} aria-hidden="true" />
+                Download
+              </button>
+              <a
+                href={`https://x.com/intent/post?text=${encodeURIComponent(milestonePrompt.shareText)}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="bg-gray-900 hover:bg-black text-white px-3 py-1.5 rounded-lg text-sm font-medium transition-colors flex items-center gap-2"
+              >
+                <Share2 size={14} aria-hidden="true" />
+                Share on X
+              </a>
+            </div>
+          </div>
+          <button
+            onClick={onDismissMilestonePrompt}
+            className="text-yellow-500 hover:text-yellow-700 text-sm"
+            aria-label="Dismiss milestone"
+          >
+            ✕
+          </button>
+        </div>
+      )}
+
       {!profileImage ? (
         <div className="flex flex-col items-center justify-center h-80 border-2 border-dashed border-gray-300 rounded-lg">
           {isGenerating ? (
@@ -136,17 +297,125 @@ export const PreviewCard: React.FC<PreviewCardProps> = ({
                   role="progressbar"
                   aria-valuenow={Math.round(progressPercentage)}
                   aria-valuemin={0}
-                  aria-valuemax={100}
+                  aria-valuemax={Math.max(100, Math.round(progressPercentage))}
                 >
                   <div
                     className="h-2 rounded-full transition-all duration-500"
                     style={{
-                      width: `${progressPercentage}%`,
+                      width: `${Math.min(progressPercentage, 100)}%`,
                       backgroundColor: currentGoalColor
                     }}
                   />
                 </div>
               </div>
+
+              {pacing && (
+                <PacingSummary
+                  pacing={pacing}
+                  deadline={deadline}
+                  valueSuffix={valueSuffix}
+                  showExpectedArc={showExpectedArc}
+                  onShowExpectedArcChange={onShowExpectedArcChange}
+                />
+              )}
+
+              {/* Animated Export */}
+              <div className="bg-gray-50 rounded-lg p-4 max-w-md mx-auto mt-4 text-left">
+                <p className="text-sm font-medium text-gray-900 mb-3 flex items-center gap-2">
+                  <Film size={16} className="text-gray-600" aria-hidden="true" />
+                  Animated Export
+                </p>
+                <div className="grid grid-cols-3 gap-2 mb-3">
+                  <div>
+                    <label htmlFor="animation-format" className="block text-xs text-gray-600 mb-1">
+                      Format
+                    </label>
+                    <select
+                      id="animation-format"
+                      value={animationFormat}
+                      onChange={(e) => setAnimationFormat(e.target.value as AnimationFormat)}
+                      className="w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      {(Object.keys(ANIMATION_FORMATS) as AnimationFormat[]).map((format) => (
+                        <option
+                          key={format}
+                          value={format}
+                          disabled={format === 'webm' && typeof window !== 'undefined' && !isWebmSupported()}
+                        >
+                          {ANIMATION_FORMATS[format].label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="animation-duration" className="block text-xs text-gray-600 mb-1">
+                      Duration
+                    </label>
+                    <select
+                      id="animation-duration"
+                      value={animationDuration}
+                      onChange={(e) => setAnimationDuration(Number(e.target.value))}
+                      className="w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      {ANIMATION_DURATIONS.map((duration) => (
+                        <option key={duration} value={duration}>
+                          {duration / 1000}s
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="animation-fps" className="block text-xs text-gray-600 mb-1">
+                      Frame Rate
+                    </label>
+                    <select
+                      id="animation-fps"
+                      value={animationFps}
+                      onChange={(e) => setAnimationFps(Number(e.target.value))}
+                      className="w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      {ANIMATION_FRAME_RATES.map((fps) => (
+                        <option key={fps} value={fps}>
+                          {fps} fps
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <button
+                  onClick={() => onDownloadAnimation({
+                    format: animationFormat,
+                    durationMs: animationDuration,
+                    fps: animationFps,
+                  })}
+                  disabled={isExportingAnimation}
+                  className={`w-full px-4 py-2 rounded-lg font-medium transition-colors flex items-center justify-center gap-2 ${
+                    isExportingAnimation
+                      ? 'bg-gray-200 text-gray-500 cursor-not-allowed'
+                      : 'bg-purple-500 hover:bg-purple-600 text-white'
+                  }`}
+                >
+                  {isExportingAnimation ? (
+                    <>
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-500" aria-hidden="true" />
+                      Encoding...
+                    </>
+                  ) : (
+                    <>
+                      <Download size={16} aria-hidden="true" />
+                      Download Animation
+                    </>
+                  )}
+                </button>
+              </div>
+
+              {tweetTemplateValues && (
+                <TweetComposer
+                  templateValues={tweetTemplateValues}
+                  onRenderImage={onRenderTweetImage}
+                  onPostTweet={onPostTweet}
+                />
+              )}
             </>
           )}
         </div>
@@ -0,0 +1,341 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { Palette, Download, Upload, Trash2 } from 'lucide-react';
+import { validateRingStyle, type RingStyleDefinition } from '../lib/ringStyles';
+
+interface RingThemeManagerProps {
+  selectedStyleId: string;
+  selectedStyle: RingStyleDefinition;
+  isCustomStyle: boolean;
+  customStyleCount: number;
+  themeError: string | null;
+  onSaveTheme: (style: RingStyleDefinition, id?: string) => void;
+  onDeleteTheme: (id: string) => void;
+  onExportThemes: () => string;
+  onImportThemes: (json: string) => number;
+}
+
+interface ThemeDraft {
+  name: string;
+  strokeWidth: number;
+  dashPattern: string;
+  gradient: boolean;
+  glowBlur: number;
+  capStyle: RingStyleDefinition['capStyle'];
+  trackColor: string;
+  font: string;
+  badgeSymbol: string;
+  badgeFill: string;
+  badgeStroke: string;
+}
+
+const capStyles: Array<RingStyleDefinition['capStyle']> = ['round', 'butt', 'square'];
+
+const toDraft = (style: RingStyleDefinition, name: string): ThemeDraft => ({
+  name,
+  strokeWidth: style.strokeWidth,
+  dashPattern: style.dashPattern?.join(', ') ?? '',
+  gradient: Boolean(style.gradientStops?.length),
+  glowBlur: style.glow?.blur ?? 0,
+  capStyle: style.capStyle,
+  trackColor: style.trackColor,
+  font: style.font,
+  badgeSymbol: style.badgeArt.symbol,
+  badgeFill: style.badgeArt.fill,
+  badgeStroke: style.badgeArt.stroke,
+});
+
+const fromDraft = (draft: ThemeDraft, base: RingStyleDefinition): RingStyleDefinition => {
+  const dashPattern = draft.dashPattern
+    .split(',')
+    .map(segment => segment.trim())
+    .filter(Boolean)
+    .map(Number);
+
+  return validateRingStyle({
+    name: draft.name,
+    strokeWidth: draft.strokeWidth,
+    ...(dashPattern.length > 0 && { dashPattern }),
+    // Keep the base style's stops when editing, otherwise use the built-in fade
+    ...(draft.gradient && {
+      gradientStops: base.gradientStops?.length ? base.gradientStops : [{ offset: 0 }, { offset: 1, opacity: 0.5 }],
+    }),
+    ...(draft.glowBlur > 0 && { glow: { ...base.glow, blur: draft.glowBlur } }),
+    capStyle: draft.capStyle,
+    trackColor: draft.trackColor,
+    font: draft.font,
+    badgeArt: { symbol: draft.badgeSymbol, fill: draft.badgeFill, stroke: draft.badgeStroke },
+  });
+};
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+export const RingThemeManager: React.FC<RingThemeManagerProps> = ({
+  selectedStyleId,
+  selectedStyle,
+  isCustomStyle,
+  customStyleCount,
+  themeError,
+  onSaveTheme,
+  onDeleteTheme,
+  onExportThemes,
+  onImportThemes,
+}) => {
+  const [draft, setDraft] = useState<ThemeDraft | null>(null);
+  const [editingId, setEditingId] = useState<string | undefined>(undefined);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+
+  const updateDraft = <K extends keyof ThemeDraft>(field: K, value: ThemeDraft[K]) => {
+    setDraft(prev => (prev ? { ...prev, [field]: value } : prev));
+  };
+
+  const startNewTheme = () => {
+    setDraft(toDraft(selectedStyle, `${selectedStyle.name} Copy`));
+    setEditingId(undefined);
+    setFormError(null);
+  };
+
+  const startEditTheme = () => {
+    setDraft(toDraft(selectedStyle, selectedStyle.name));
+    setEditingId(selectedStyleId);
+    setFormError(null);
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+
+    try {
+      onSaveTheme(fromDraft(draft, selectedStyle), editingId);
+      setDraft(null);
+      setFormError(null);
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : 'Invalid theme');
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([onExportThemes()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.download = 'growth-ring-themes.json';
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const count = onImportThemes(await file.text());
+    setImportMessage(count > 0 ? `Imported ${count} theme${count === 1 ? '' : 's'}` : null);
+  };
+
+  return (
+    <div className="mt-3 p-3 rounded-lg border-2 border-gray-200">
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={startNewTheme}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg border border-blue-500 text-blue-600 hover:bg-blue-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <Palette size={14} aria-hidden="true" />
+          New Theme
+        </button>
+        {isCustomStyle && (
+          <>
+            <button
+              onClick={startEditTheme}
+              className="px-3 py-1.5 text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              Edit
+            </button>
+            <button
+              onClick={() => onDeleteTheme(selectedStyleId)}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg border border-red-300 text-red-600 hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-red-500"
+              aria-label={`Delete theme ${selectedStyle.name}`}
+            >
+              <Trash2 size={14} aria-hidden="true" />
+              Delete
+            </button>
+          </>
+        )}
+        <button
+          onClick={handleExport}
+          disabled={customStyleCount === 0}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:text-gray-400 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <Download size={14} aria-hidden="true" />
+          Export
+        </button>
+        <button
+          onClick={() => importInputRef.current?.click()}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <Upload size={14} aria-hidden="true" />
+          Import
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          className="hidden"
+          aria-label="Import themes from a JSON file"
+        />
+      </div>
+
+      {(themeError || importMessage) && (
+        <p className={`text-xs mt-2 ${themeError ? 'text-red-600' : 'text-green-600'}`} role="status">
+          {themeError || importMessage}
+        </p>
+      )}
+
+      {draft && (
+        <div className="mt-3 space-y-3">
+          <div>
+            <label htmlFor="theme-name" className="block text-xs text-gray-600 mb-1">Name</label>
+            <input
+              id="theme-name"
+              type="text"
+              value={draft.name}
+              onChange={(e) => updateDraft('name', e.target.value)}
+              className={inputClassName}
+              maxLength={50}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="theme-stroke-width" className="block text-xs text-gray-600 mb-1">Stroke Width</label>
+              <input
+                id="theme-stroke-width"
+                type="number"
+                value={draft.strokeWidth}
+                onChange={(e) => updateDraft('strokeWidth', Number(e.target.value))}
+                className={inputClassName}
+                min="1"
+                max="40"
+              />
+            </div>
+            <div>
+              <label htmlFor="theme-cap-style" className="block text-xs text-gray-600 mb-1">Cap Style</label>
+              <select
+                id="theme-cap-style"
+                value={draft.capStyle}
+                onChange={(e) => updateDraft('capStyle', e.target.value as ThemeDraft['capStyle'])}
+                className={inputClassName}
+              >
+                {capStyles.map(cap => (
+                  <option key={cap} value={cap}>{cap}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="theme-dash-pattern" className="block text-xs text-gray-600 mb-1">Dash Pattern</label>
+              <input
+                id="theme-dash-pattern"
+                type="text"
+                value={draft.dashPattern}
+                onChange={(e) => updateDraft('dashPattern', e.target.value)}
+                className={inputClassName}
+                placeholder="e.g. 8, 4"
+              />
+            </div>
+            <div>
+              <label htmlFor="theme-glow-blur" className="block text-xs text-gray-600 mb-1">Glow Blur</label>
+              <input
+                id="theme-glow-blur"
+                type="number"
+                value={draft.glowBlur}
+                onChange={(e) => updateDraft('glowBlur', Number(e.target.value))}
+                className={inputClassName}
+                min="0"
+                max="50"
+              />
+            </div>
+            <div>
+              <label htmlFor="theme-track-color" className="block text-xs text-gray-600 mb-1">Track Color</label>
+              <input
+                id="theme-track-color"
+                type="text"
+                value={draft.trackColor}
+                onChange={(e) => updateDraft('trackColor', e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="theme-font" className="block text-xs text-gray-600 mb-1">Font</label>
+              <input
+                id="theme-font"
+                type="text"
+                value={draft.font}
+                onChange={(e) => updateDraft('font', e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={draft.gradient}
+              onChange={(e) => updateDraft('gradient', e.target.checked)}
+            />
+            Gradient fade
+          </label>
+
+          <fieldset>
+            <legend className="block text-xs text-gray-600 mb-1">Badge</legend>
+            <div className="grid grid-cols-3 gap-3">
+              <input
+                type="text"
+                value={draft.badgeSymbol}
+                onChange={(e) => updateDraft('badgeSymbol', e.target.value)}
+                className={inputClassName}
+                aria-label="Badge symbol"
+                maxLength={8}
+              />
+              <input
+                type="color"
+                value={draft.badgeFill}
+                onChange={(e) => updateDraft('badgeFill', e.target.value)}
+                className="w-full h-9 border border-gray-300 rounded-lg"
+                aria-label="Badge fill color"
+              />
+              <input
+                type="color"
+                value={draft.badgeStroke}
+                onChange={(e) => updateDraft('badgeStroke', e.target.value)}
+                className="w-full h-9 border border-gray-300 rounded-lg"
+                aria-label="Badge outline color"
+              />
+            </div>
+          </fieldset>
+
+          {formError && (
+            <p className="text-xs text-red-600" role="alert">{formError}</p>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              className="px-3 py-1.5 text-sm rounded-lg bg-blue-600 text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+            >
+              {editingId ? 'Update Theme' : 'Save Theme'}
+            </button>
+            <button
+              onClick={() => setDraft(null)}
+              className="px-3 py-1.5 text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Bookmark, Trash2 } from 'lucide-react';
+import { MAX_GOAL_NAME_LENGTH, MAX_GOALS_PER_USER, type SavedGoal } from '../lib/goals';
+
+interface SavedGoalsEditorProps {
+  goals: SavedGoal[];
+  activeGoalId: string | null;
+  isSynced: boolean;
+  isLoading: boolean;
+  error: string | null;
+  startValue: number;
+  setStartValue: (value: number) => void;
+  onSelectGoal: (id: string | null) => void;
+  onSaveGoal: (name: string, id?: string) => void;
+  onDeleteGoal: (id: string) => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+export const SavedGoalsEditor: React.FC<SavedGoalsEditorProps> = ({
+  goals,
+  activeGoalId,
+  isSynced,
+  isLoading,
+  error,
+  startValue,
+  setStartValue,
+  onSelectGoal,
+  onSaveGoal,
+  onDeleteGoal,
+}) => {
+  const activeGoal = goals.find(goal => goal.id === activeGoalId) ?? null;
+  const [name, setName] = useState(activeGoal?.name ?? '');
+
+  // Show the selected goal's name, or a blank one for a new goal
+  useEffect(() => {
+    setName(activeGoal?.name ?? '');
+  }, [activeGoal?.id, activeGoal?.name]);
+
+  const canSave = name.trim().length > 0;
+  const canAddGoal = goals.length < MAX_GOALS_PER_USER;
+
+  return (
+    <fieldset className="mb-4">
+      <legend className="text-sm font-medium text-gray-700 mb-2 flex items-center gap-2">
+        <Bookmark size={16} className="text-gray-600" aria-hidden="true" />
+        Saved Goals
+      </legend>
+
+      <div className="space-y-3">
+        <select
+          aria-label="Saved goal"
+          value={activeGoalId ?? ''}
+          onChange={(e) => onSelectGoal(e.target.value || null)}
+          disabled={isLoading}
+          className={inputClassName}
+        >
+          <option value="">{isLoading ? 'Loading goals…' : 'New goal'}</option>
+          {goals.map((goal) => (
+            <option key={goal.id} value={goal.id}>
+              {goal.name}
+            </option>
+          ))}
+        </select>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label htmlFor="goal-name" className="block text-xs text-gray-600 mb-1">
+              Name
+            </label>
+            <input
+              id="goal-name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. 10K by summer"
+              className={inputClassName}
+              maxLength={MAX_GOAL_NAME_LENGTH}
+            />
+          </div>
+          <div>
+            <label htmlFor="goal-start" className="block text-xs text-gray-600 mb-1">
+              Start value
+            </label>
+            <input
+              id="goal-start"
+              type="number"
+              value={startValue}
+              onChange={(e) => setStartValue(Number(e.target.value))}
+              className={inputClassName}
+              min="0"
+              step="1"
+            />
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          {activeGoal ? (
+            <>
+              <button
+                onClick={() => onSaveGoal(name, activeGoal.id)}
+                disabled={!canSave}
+                className="flex-1 bg-blue-600 text-white px-3 py-2 rounded-lg text-sm font-medium hover:bg-blue-700 disabled:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                Save changes
+              </button>
+              <button
+                onClick={() => onSaveGoal(name)}
+                disabled={!canSave || !canAddGoal}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 disabled:text-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                Save as new
+              </button>
+              <button
+                onClick={() => onDeleteGoal(activeGoal.id)}
+                className="p-2 text-gray-500 hover:text-red-600 focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
+                aria-label={`Delete goal ${activeGoal.name}`}
+              >
+                <Trash2 size={16} aria-hidden="true" />
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => onSaveGoal(name)}
+              disabled={!canSave || !canAddGoal}
+              className="flex-1 bg-blue-600 text-white px-3 py-2 rounded-lg text-sm font-medium hover:bg-blue-700 disabled:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              Save goal
+            </button>
+          )}
+        </div>
+
+        <p className="text-xs text-gray-500">
+          {isSynced ? 'Goals are saved to your account.' : 'Goals are saved in this browser. Sign in to keep them across devices.'}
+          {!canAddGoal && ` You can save up to ${MAX_GOALS_PER_USER} goals.`}
+        </p>
+
+        {error && (
+          <p className="text-xs text-red-600" role="alert">{error}</p>
+        )}
+      </div>
+    </fieldset>
+  );
+};
@@ -0,0 +1,165 @@
+'use client';
+
+import React from 'react';
+import { Type } from 'lucide-react';
+import {
+  RING_FONTS,
+  RING_TEXT_POSITIONS,
+  type RingTextSettings,
+  type WatermarkMode,
+} from '../lib/ringConfig';
+import type { RingTextPosition } from '../lib/ringRenderer';
+
+interface TextOverlayEditorProps {
+  textSettings: RingTextSettings;
+  onTextSettingChange: <K extends keyof RingTextSettings>(field: K, value: RingTextSettings[K]) => void;
+  goalLabel: string;
+  canShowValues: boolean;
+  handleSuggestion?: string;
+  paidFeaturesEnabled: boolean;
+}
+
+const watermarkModes: Record<WatermarkMode, string> = {
+  default: 'Default',
+  none: 'None',
+  custom: 'Custom',
+};
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+export const TextOverlayEditor: React.FC<TextOverlayEditorProps> = ({
+  textSettings,
+  onTextSettingChange,
+  goalLabel,
+  canShowValues,
+  handleSuggestion,
+  paidFeaturesEnabled,
+}) => {
+  return (
+    <fieldset className="mb-4">
+      <legend className="text-sm font-medium text-gray-700 mb-2 flex items-center gap-2">
+        <Type size={16} className="text-gray-600" aria-hidden="true" />
+        Ring Text
+      </legend>
+
+      <div className="space-y-3">
+        {canShowValues && (
+          <div>
+            <label htmlFor="ring-text-label" className="block text-xs text-gray-600 mb-1">
+              Label
+            </label>
+            <input
+              id="ring-text-label"
+              type="text"
+              value={textSettings.label}
+              onChange={(e) => onTextSettingChange('label', e.target.value)}
+              placeholder={goalLabel}
+              className={inputClassName}
+              maxLength={30}
+            />
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="ring-text-handle" className="block text-xs text-gray-600 mb-1">
+            Handle
+          </label>
+          <input
+            id="ring-text-handle"
+            type="text"
+            value={textSettings.handle}
+            onChange={(e) => onTextSettingChange('handle', e.target.value)}
+            placeholder={handleSuggestion ? `@${handleSuggestion}` : '@yourhandle'}
+            className={inputClassName}
+            maxLength={16}
+          />
+        </div>
+
+        {canShowValues && (
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={textSettings.showValues}
+              onChange={(e) => onTextSettingChange('showValues', e.target.checked)}
+            />
+            Show values (e.g. 7,420 / 10,000)
+          </label>
+        )}
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label htmlFor="ring-text-font" className="block text-xs text-gray-600 mb-1">
+              Font
+            </label>
+            <select
+              id="ring-text-font"
+              value={textSettings.font}
+              onChange={(e) => onTextSettingChange('font', e.target.value)}
+              className={inputClassName}
+            >
+              {RING_FONTS.map((font) => (
+                <option key={font} value={font} style={{ fontFamily: font }}>
+                  {font}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="ring-text-position" className="block text-xs text-gray-600 mb-1">
+              Position
+            </label>
+            <select
+              id="ring-text-position"
+              value={textSettings.position}
+              onChange={(e) => onTextSettingChange('position', e.target.value as RingTextPosition)}
+              className={inputClassName}
+            >
+              {(Object.keys(RING_TEXT_POSITIONS) as RingTextPosition[]).map((position) => (
+                <option key={position} value={position}>
+                  {RING_TEXT_POSITIONS[position]}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <span id="ring-watermark-label" className="block text-xs text-gray-600 mb-1">
+            Watermark
+          </span>
+          {paidFeaturesEnabled ? (
+            <div className="grid grid-cols-2 gap-3">
+              <select
+                aria-labelledby="ring-watermark-label"
+                value={textSettings.watermarkMode}
+                onChange={(e) => onTextSettingChange('watermarkMode', e.target.value as WatermarkMode)}
+                className={inputClassName}
+              >
+                {(Object.keys(watermarkModes) as WatermarkMode[]).map((mode) => (
+                  <option key={mode} value={mode}>
+                    {watermarkModes[mode]}
+                  </option>
+                ))}
+              </select>
+              {textSettings.watermarkMode === 'custom' && (
+                <input
+                  type="text"
+                  value={textSettings.watermarkText}
+                  onChange={(e) => onTextSettingChange('watermarkText', e.target.value)}
+                  placeholder="yoursite.com"
+                  className={inputClassName}
+                  aria-label="Custom watermark text"
+                  maxLength={30}
+                />
+              )}
+            </div>
+          ) : (
+            <p className="text-xs text-gray-500">
+              Removing or replacing the watermark is a paid feature.
+            </p>
+          )}
+        </div>
+      </div>
+    </fieldset>
+  );
+};
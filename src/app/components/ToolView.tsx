@@ -5,42 +5,108 @@ import { Target, Users, TrendingUp, Zap, Wifi, WifiOff, Key, BarChart3 } from 'l
 import { useNavigation } from '../hooks/useNavigation';
 import { useApp } from '../contexts/AppContext';
 import { useXApi } from '../hooks/useXApi';
+import { useAuth } from '../hooks/useAuth';
 import { useDebounce } from '../hooks/useDebounce';
-import { scaleImageToMaxSize } from '../utils/imageProcessor';
+import { useRingStyles } from '../hooks/useRingStyles';
+import { useRingRenderer } from '../hooks/useRingRenderer';
+import { useMilestoneCrossing } from '../hooks/useMilestoneCrossing';
+import { useAvatarRefresh } from '../hooks/useAvatarRefresh';
+import { useSavedGoals } from '../hooks/useSavedGoals';
+import { useMetricsHistory } from '../hooks/useMetricsHistory';
+import { scaleImageToMaxSize, loadImage } from '../utils/imageProcessor';
+import { SUPPORTED_FORMATS_TEXT } from '../utils/imageIngestion';
+import { exportRingAnimation, ANIMATION_FORMATS, type AnimationFormat, type AnimationFrame } from '../utils/ringAnimation';
+import {
+  renderGrowthRing,
+  renderActivityRings,
+  renderRingExport,
+  DEFAULT_RING_SIZE,
+  RING_EXPORT_PRESETS,
+  type RingCanvasContext,
+  type RingCropRect,
+  type RingExportCaption,
+  type RingExportPresetKey,
+  type RingRenderJob,
+  type RingTextOverlay,
+} from '../lib/ringRenderer';
+import { BUILT_IN_RING_STYLES } from '../lib/ringStyles';
+import { getDeadlineFromDays } from '../lib/goals';
+import { calculatePacing, getPacingHistory, RATE_WINDOW_DAYS } from '../lib/pacing';
+import {
+  GOAL_TYPES,
+  DEFAULT_ACTIVITY_GOALS,
+  DEFAULT_TEXT_SETTINGS,
+  DEFAULT_MILESTONE_SETTINGS,
+  PAID_FEATURES_ENABLED,
+  PROFILE_IMAGE_UPLOADS_ENABLED,
+  buildActivityRings,
+  buildMilestones,
+  calculateProgress,
+  formatGoalValues,
+  formatHandle,
+  resolveWatermark,
+  type GoalTypeKey,
+  type MilestoneSettings,
+  type RingLayoutMode,
+  type RingTextSettings,
+} from '../lib/ringConfig';
 import { GoalSetupCard } from './GoalSetupCard';
 import { PreviewCard } from './PreviewCard';
+import { AvatarRefreshCard, type AvatarRefreshSettings } from './AvatarRefreshCard';
 
 export const ToolView: React.FC = () => {
   const { navigateToHome, navigateToAnalytics } = useNavigation();
   const { state, setShowXApiConfig, setBearerToken } = useApp();
   const xApi = useXApi();
+  const { isAuthenticated, isLoading: isAuthLoading } = useAuth();
+  const avatarRefresh = useAvatarRefresh(isAuthenticated);
+  const savedGoals = useSavedGoals(isAuthenticated, isAuthLoading);
+  const metricsHistory = useMetricsHistory(isAuthenticated, RATE_WINDOW_DAYS);
   const [bearerTokenInput, setBearerTokenInput] = useState('');
 
   // Tool state
   const [currentFollowers, setCurrentFollowers] = useState(2500);
   const [targetFollowers, setTargetFollowers] = useState(10000);
   const [profileImage, setProfileImage] = useState<string | null>(null);
+  const [avatarCrop, setAvatarCrop] = useState<RingCropRect | null>(null);
+  const [startValue, setStartValue] = useState(2500);
   const [goalType, setGoalType] = useState('followers');
-  const [timeframe, setTimeframe] = useState('3months');
+  const [deadline, setDeadline] = useState<string | null>(() => getDeadlineFromDays(90));
   const [ringStyle, setRingStyle] = useState('classic');
+  const [ringLayout, setRingLayout] = useState<RingLayoutMode>('single');
+  const [activityGoals, setActivityGoals] = useState(DEFAULT_ACTIVITY_GOALS);
+  const [showOverflow, setShowOverflow] = useState(false);
+  const [showExpectedArc, setShowExpectedArc] = useState(false);
+  const [textSettings, setTextSettings] = useState<RingTextSettings>(DEFAULT_TEXT_SETTINGS);
+  const [milestoneSettings, setMilestoneSettings] = useState<MilestoneSettings>(DEFAULT_MILESTONE_SETTINGS);
   const [showCanvas, setShowCanvas] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [isExportingAnimation, setIsExportingAnimation] = useState(false);
+  const [isSharing, setIsSharing] = useState(false);
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [isSettingAvatar, setIsSettingAvatar] = useState(false);
+  const [avatarStatus, setAvatarStatus] = useState<string | null>(null);
   const [canvasError, setCanvasError] = useState<string | null>(null);
   const [imageError, setImageError] = useState<string | null>(null);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const appliedGoalIdRef = useRef<string | null>(null);
 
   const goalTypes = React.useMemo(() => ({
-    followers: { icon: Users, label: 'Followers', color: '#1565C0', format: (val: number) => val.toLocaleString() },
-    engagement: { icon: TrendingUp, label: 'Engagement Rate', color: '#2E7D32', suffix: '%', format: (val: number) => val.toFixed(1) },
-    tweets: { icon: Zap, label: 'Monthly Tweets', color: '#6A1B9A', format: (val: number) => val.toString() }
+    followers: { ...GOAL_TYPES.followers, icon: Users },
+    engagement: { ...GOAL_TYPES.engagement, icon: TrendingUp },
+    tweets: { ...GOAL_TYPES.tweets, icon: Zap }
   }), []);
 
-  const ringStyles = React.useMemo(() => ({
-    classic: { name: 'Classic Ring', gradient: false },
-    gradient: { name: 'Gradient Glow', gradient: true },
-    neon: { name: 'Neon Pulse', gradient: true, glow: true }
-  }), []);
+  const {
+    ringStyles,
+    error: themeError,
+    saveCustomStyle,
+    deleteCustomStyle,
+    exportStyles,
+    importStyles,
+  } = useRingStyles();
+  const { renderToCanvas } = useRingRenderer();
 
   const timeframes = {
     '1month': { label: '1 Month', days: 30 },
@@ -48,196 +114,104 @@ export const ToolView: React.FC = () => {
     '6months': { label: '6 Months', days: 180 }
   };
 
-  const progressPercentage = Math.min((currentFollowers / targetFollowers) * 100, 100);
+  const singleProgressPercentage = calculateProgress(currentFollowers, targetFollowers, showOverflow);
   const currentGoal = goalTypes[goalType as keyof typeof goalTypes];
 
+  // In activity mode the overall progress is the average across rings
+  const activityProgress = buildActivityRings(activityGoals, showOverflow);
+  const progressPercentage = ringLayout === 'activity'
+    ? activityProgress.reduce((sum, ring) => sum + ring.progress, 0) / activityProgress.length
+    : singleProgressPercentage;
+
   // Debounced values to prevent excessive canvas redraws
   const debouncedCurrentFollowers = useDebounce(currentFollowers, 300);
   const debouncedTargetFollowers = useDebounce(targetFollowers, 300);
   const debouncedProgressPercentage = useMemo(() =>
-    Math.min((debouncedCurrentFollowers / debouncedTargetFollowers) * 100, 100),
-    [debouncedCurrentFollowers, debouncedTargetFollowers]
+    calculateProgress(debouncedCurrentFollowers, debouncedTargetFollowers, showOverflow),
+    [debouncedCurrentFollowers, debouncedTargetFollowers, showOverflow]
+  );
+  const debouncedActivityGoals = useDebounce(activityGoals, 300);
+  const debouncedAvatarCrop = useDebounce(avatarCrop, 100);
+  const debouncedTextSettings = useDebounce(textSettings, 300);
+  const debouncedMilestoneSettings = useDebounce(milestoneSettings, 300);
+
+  const milestones = useMemo(
+    () => buildMilestones(debouncedMilestoneSettings, currentGoal, debouncedTargetFollowers),
+    [debouncedMilestoneSettings, currentGoal, debouncedTargetFollowers]
+  );
+
+  // Pacing runs from the saved goal's creation date when one is selected
+  const activeGoalStartDate = savedGoals.activeGoal?.createdAt.split('T')[0] ?? null;
+  const pacing = useMemo(() => calculatePacing({
+    startValue,
+    current: debouncedCurrentFollowers,
+    target: debouncedTargetFollowers,
+    startDate: activeGoalStartDate,
+    deadline,
+    history: getPacingHistory(metricsHistory.snapshots, goalType as GoalTypeKey),
+  }), [startValue, debouncedCurrentFollowers, debouncedTargetFollowers, activeGoalStartDate, deadline, metricsHistory.snapshots, goalType]);
+  const expectedProgress = showExpectedArc && pacing.expectedValue !== null
+    ? calculateProgress(pacing.expectedValue, debouncedTargetFollowers)
+    : undefined;
+
+  // Editing the goal or the milestones re-baselines instead of prompting
+  const { crossedMilestone, dismissCrossedMilestone } = useMilestoneCrossing(
+    ringLayout === 'single' ? milestones : [],
+    debouncedProgressPercentage,
+    `${ringLayout}:${goalType}:${debouncedTargetFollowers}:${JSON.stringify(debouncedMilestoneSettings)}`
   );
 
+  const updateTextSetting = useCallback(<K extends keyof RingTextSettings>(field: K, value: RingTextSettings[K]) => {
+    setTextSettings(prev => ({ ...prev, [field]: value }));
+  }, []);
+
+  const updateMilestoneSetting = useCallback(<K extends keyof MilestoneSettings>(field: K, value: MilestoneSettings[K]) => {
+    setMilestoneSettings(prev => ({ ...prev, [field]: value }));
+  }, []);
+
+  const textOverlay = useMemo((): RingTextOverlay => ({
+    label: debouncedTextSettings.label.trim() || undefined,
+    valueText: debouncedTextSettings.showValues
+      ? formatGoalValues(currentGoal, debouncedCurrentFollowers, debouncedTargetFollowers)
+      : undefined,
+    handle: formatHandle(debouncedTextSettings.handle) || undefined,
+    font: debouncedTextSettings.font,
+    position: debouncedTextSettings.position,
+    watermark: resolveWatermark(debouncedTextSettings),
+  }), [debouncedTextSettings, currentGoal, debouncedCurrentFollowers, debouncedTargetFollowers]);
+
   const generateRingOverlay = useCallback(async () => {
     if (!profileImage) return;
 
+    const canvas = canvasRef.current;
+    if (!canvas) {
+      setCanvasError('Canvas element not found. Please try refreshing the page.');
+      return;
+    }
+
     setIsGenerating(true);
     setCanvasError(null);
 
-    requestAnimationFrame(() => {
-      try {
-        const canvas = canvasRef.current;
-        if (!canvas) {
-          setCanvasError('Canvas element not found. Please try refreshing the page.');
-          setIsGenerating(false);
-          return;
-        }
-
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-          setCanvasError('Canvas not supported in this browser. Please try a modern browser.');
-          setIsGenerating(false);
-          return;
-        }
-
-        const size = 400;
-
-        try {
-          canvas.width = size;
-          canvas.height = size;
-        } catch {
-          setCanvasError('Failed to set canvas size. Canvas may be too large.');
-          setIsGenerating(false);
-          return;
-        }
-
-        const img = new Image();
-        const imageTimeout = setTimeout(() => {
-          setCanvasError('Image loading timed out. Please try a different image.');
-          setIsGenerating(false);
-        }, 10000);
-
-        img.onload = () => {
-          clearTimeout(imageTimeout);
-
-          try {
-            if (img.width === 0 || img.height === 0) {
-              setCanvasError('Invalid image loaded. Please try a different image.');
-              setIsGenerating(false);
-              return;
-            }
-
-            ctx.save();
-            ctx.beginPath();
-            ctx.arc(size / 2, size / 2, size / 2 - 25, 0, 2 * Math.PI);
-            ctx.clip();
-
-            try {
-              ctx.drawImage(img, 0, 0, size, size);
-            } catch {
-              setCanvasError('Failed to draw image on canvas. The image may be corrupted.');
-              setIsGenerating(false);
-              return;
-            }
-
-            ctx.restore();
-
-            const centerX = size / 2;
-            const centerY = size / 2;
-            const radius = size / 2 - 20;
-            const lineWidth = 10;
-
-            // Background ring
-            ctx.beginPath();
-            ctx.arc(centerX, centerY, radius, 0, 2 * Math.PI);
-            ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
-            ctx.lineWidth = lineWidth;
-            ctx.stroke();
-
-            // Progress ring
-            const startAngle = -Math.PI / 2;
-            const endAngle = startAngle + (debouncedProgressPercentage / 100) * 2 * Math.PI;
-
-            ctx.beginPath();
-            ctx.arc(centerX, centerY, radius, startAngle, endAngle);
-
-            if (ringStyles[ringStyle as keyof typeof ringStyles].gradient) {
-              const gradient = ctx.createLinearGradient(0, 0, size, size);
-              gradient.addColorStop(0, currentGoal.color);
-              gradient.addColorStop(1, currentGoal.color + '80');
-              ctx.strokeStyle = gradient;
-            } else {
-              ctx.strokeStyle = currentGoal.color;
-            }
+    try {
+      const img = await loadImage(profileImage);
+      const style = ringStyles[ringStyle] ?? BUILT_IN_RING_STYLES.classic;
+      const crop = debouncedAvatarCrop ?? undefined;
 
-            ctx.lineWidth = lineWidth;
-            ctx.lineCap = 'round';
+      const job: RingRenderJob = ringLayout === 'activity'
+        ? { layout: 'activity', rings: buildActivityRings(debouncedActivityGoals, showOverflow), style, crop, text: textOverlay, overflow: showOverflow, size: DEFAULT_RING_SIZE }
+        : { layout: 'single', progress: debouncedProgressPercentage, goal: currentGoal, style, crop, text: textOverlay, milestones, overflow: showOverflow, expectedProgress, size: DEFAULT_RING_SIZE };
 
-            const currentRingStyle = ringStyles[ringStyle as keyof typeof ringStyles];
-            if ('glow' in currentRingStyle && currentRingStyle.glow) {
-              ctx.shadowColor = currentGoal.color;
-              ctx.shadowBlur = 15;
-            }
+      // A newer render took over; it will clear the generating state
+      const painted = await renderToCanvas(canvas, img, profileImage, job);
+      if (!painted) return;
 
-            ctx.stroke();
-            ctx.shadowBlur = 0;
-
-            // Add text elements
-            ctx.font = 'bold 28px Arial';
-            ctx.textAlign = 'center';
-            ctx.textBaseline = 'middle';
-
-            ctx.strokeStyle = '#000000';
-            ctx.lineWidth = 6;
-            ctx.strokeText(`${Math.round(debouncedProgressPercentage)}%`, centerX, centerY + 10);
-
-            ctx.fillStyle = '#FFFFFF';
-            ctx.fillText(`${Math.round(debouncedProgressPercentage)}%`, centerX, centerY + 10);
-
-            ctx.font = 'bold 14px Arial';
-
-            ctx.strokeStyle = '#000000';
-            ctx.lineWidth = 3;
-            ctx.strokeText(currentGoal.label.toUpperCase(), centerX, centerY + 40);
-
-            ctx.fillStyle = '#FFFFFF';
-            ctx.fillText(currentGoal.label.toUpperCase(), centerX, centerY + 40);
-
-            // Achievement badge if goal reached
-            if (debouncedProgressPercentage >= 100) {
-              const badgeSize = 70;
-              const badgeX = centerX + radius - badgeSize/2;
-              const badgeY = centerY - badgeSize/2;
-
-              ctx.beginPath();
-              ctx.arc(badgeX, badgeY, badgeSize/2, 0, 2 * Math.PI);
-              ctx.fillStyle = '#FFD700';
-              ctx.fill();
-              ctx.strokeStyle = '#FFA500';
-              ctx.lineWidth = 3;
-              ctx.stroke();
-
-              ctx.fillStyle = '#FF6B35';
-              ctx.font = 'bold 28px Arial';
-              ctx.textAlign = 'center';
-              ctx.textBaseline = 'middle';
-              ctx.fillText('🏆', badgeX, badgeY);
-            }
-
-            // Watermark
-            ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
-            ctx.font = '10px Arial';
-            ctx.textAlign = 'right';
-            ctx.fillText('growthrings.app', size - 10, size - 10);
-
-            setShowCanvas(true);
-            setIsGenerating(false);
-          } catch (error) {
-            setCanvasError(`Canvas rendering failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-            setIsGenerating(false);
-          }
-        };
-
-        img.onerror = () => {
-          clearTimeout(imageTimeout);
-          setCanvasError('Failed to load image. The image may be corrupted or in an unsupported format.');
-          setIsGenerating(false);
-        };
-
-        try {
-          img.src = profileImage;
-        } catch {
-          clearTimeout(imageTimeout);
-          setCanvasError('Failed to set image source. Please try uploading the image again.');
-          setIsGenerating(false);
-        }
-      } catch (error) {
-        setCanvasError(`Canvas setup failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        setIsGenerating(false);
-      }
-    });
-  }, [profileImage, ringStyle, currentGoal, debouncedProgressPercentage, ringStyles]);
+      setShowCanvas(true);
+      setIsGenerating(false);
+    } catch (error) {
+      setCanvasError(`Canvas rendering failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setIsGenerating(false);
+    }
+  }, [profileImage, ringStyle, ringLayout, currentGoal, debouncedProgressPercentage, debouncedActivityGoals, debouncedAvatarCrop, textOverlay, milestones, showOverflow, expectedProgress, ringStyles, renderToCanvas]);
 
   const handleImageUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     setImageError(null);
@@ -251,8 +225,9 @@ export const ToolView: React.FC = () => {
         return;
       }
 
-      if (!file.type.startsWith('image/')) {
-        setImageError('Invalid file type. Please select an image file (JPG, PNG, GIF, etc.).');
+      // HEIC photos often arrive without a MIME type, so only reject known non-images
+      if (file.type && !file.type.startsWith('image/')) {
+        setImageError(`Invalid file type. Please select an image file (${SUPPORTED_FORMATS_TEXT}).`);
         return;
       }
 
@@ -270,12 +245,14 @@ export const ToolView: React.FC = () => {
         setIsGenerating(true);
         setShowCanvas(false);
 
-        const scaledImage = await scaleImageToMaxSize(file, 400);
+        // Keep extra resolution so zoomed-in crops stay sharp
+        const scaledImage = await scaleImageToMaxSize(file, 1200);
 
         if (!scaledImage || scaledImage === 'data:,') {
           throw new Error('Failed to process image - result was empty');
         }
 
+        setAvatarCrop(null);
         setProfileImage(scaledImage);
         setImageError(null);
       } catch (processingError) {
@@ -302,61 +279,269 @@ export const ToolView: React.FC = () => {
     }
   };
 
-  const downloadImage = async () => {
+  const getExportFilename = (extension: string, preset?: RingExportPresetKey) => {
+    const timestamp = new Date().toISOString().split('T')[0];
+    const ringName = ringLayout === 'activity' ? 'activity' : goalType;
+    const presetName = preset ? `-${preset}` : '';
+    return `growth-ring-${ringName}-${Math.round(progressPercentage)}%${presetName}-${timestamp}.${extension}`;
+  };
+
+  // Draw the current ring at DEFAULT_RING_SIZE, optionally mid-animation
+  const drawRingFrame = (
+    ctx: RingCanvasContext,
+    img: HTMLImageElement,
+    frame: AnimationFrame = { sweep: 1, glowScale: 1 }
+  ) => {
+    const style = ringStyles[ringStyle] ?? BUILT_IN_RING_STYLES.classic;
+
+    if (ringLayout === 'activity') {
+      renderActivityRings(ctx, {
+        image: img,
+        rings: buildActivityRings(debouncedActivityGoals, showOverflow).map(ring => ({ ...ring, progress: ring.progress * frame.sweep })),
+        style,
+        crop: avatarCrop ?? undefined,
+        text: textOverlay,
+        overflow: showOverflow,
+        size: DEFAULT_RING_SIZE,
+        glowScale: frame.glowScale,
+      });
+    } else {
+      renderGrowthRing(ctx, {
+        image: img,
+        progress: debouncedProgressPercentage * frame.sweep,
+        goal: currentGoal,
+        style,
+        crop: avatarCrop ?? undefined,
+        text: textOverlay,
+        milestones,
+        overflow: showOverflow,
+        expectedProgress,
+        size: DEFAULT_RING_SIZE,
+        glowScale: frame.glowScale,
+      });
+    }
+  };
+
+  const getExportCaption = (): RingExportCaption => {
+    const style = ringStyles[ringStyle] ?? BUILT_IN_RING_STYLES.classic;
+
+    if (ringLayout === 'activity') {
+      return {
+        title: `${Math.round(progressPercentage)}% of my goals`,
+        subtitle: buildActivityRings(debouncedActivityGoals, showOverflow)
+          .map(ring => `${Math.round(ring.progress)}% ${ring.goal.label}`)
+          .join(' · '),
+        color: currentGoal.color,
+        font: textOverlay.font ?? style.font,
+      };
+    }
+
+    const suffix = 'suffix' in currentGoal ? currentGoal.suffix : '';
+    return {
+      title: `${Math.round(progressPercentage)}% to ${currentGoal.format(targetFollowers)}${suffix}`,
+      subtitle: `${currentGoal.format(currentFollowers)}${suffix} ${currentGoal.label.toLowerCase()} and counting`,
+      color: currentGoal.color,
+      font: textOverlay.font ?? style.font,
+    };
+  };
+
+  // Render the ring for an export preset into a fresh canvas
+  const renderExportCanvas = async (presetKey: RingExportPresetKey): Promise<HTMLCanvasElement> => {
+    if (!profileImage) {
+      throw new Error('No image loaded. Please upload your profile picture.');
+    }
+
+    const img = await loadImage(profileImage);
+    const preset = RING_EXPORT_PRESETS[presetKey];
+
+    const canvas = document.createElement('canvas');
+    canvas.width = preset.width;
+    canvas.height = preset.height;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Canvas context not available.');
+    }
+
+    renderRingExport(ctx, presetKey, ringCtx => drawRingFrame(ringCtx, img), getExportCaption());
+    return canvas;
+  };
+
+  const downloadImage = async (presetKey: RingExportPresetKey) => {
+    if (!profileImage || !showCanvas) {
+      setCanvasError('No image to download. Please generate your growth ring first.');
+      return;
+    }
+
     try {
-      const canvas = canvasRef.current;
-      if (!canvas) {
-        setCanvasError('Canvas not found. Please generate the image first.');
-        return;
-      }
+      const canvas = await renderExportCanvas(presetKey);
 
-      if (!showCanvas) {
-        setCanvasError('No image to download. Please generate your growth ring first.');
+      const dataUrl = canvas.toDataURL('image/png', 1.0);
+      if (!dataUrl || dataUrl === 'data:,' || dataUrl.length < 100) {
+        setCanvasError('Failed to export image. The canvas may be empty or corrupted.');
         return;
       }
 
-      await new Promise(resolve => requestAnimationFrame(resolve));
+      const link = document.createElement('a');
+      link.download = getExportFilename('png', presetKey);
+      link.href = dataUrl;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
 
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        setCanvasError('Canvas context not available.');
-        return;
+      setCanvasError(null);
+    } catch (error) {
+      setCanvasError(`Failed to export image: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('Download error:', error);
+    }
+  };
+
+  const downloadAnimation = async (options: { format: AnimationFormat; durationMs: number; fps: number }) => {
+    if (!profileImage || !showCanvas) {
+      setCanvasError('No image to download. Please generate your growth ring first.');
+      return;
+    }
+
+    setIsExportingAnimation(true);
+    setCanvasError(null);
+
+    try {
+      const img = await loadImage(profileImage);
+      const blob = await exportRingAnimation(
+        (ctx, frame) => drawRingFrame(ctx, img, frame),
+        { ...options, size: DEFAULT_RING_SIZE }
+      );
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.download = getExportFilename(ANIMATION_FORMATS[options.format].extension);
+      link.href = url;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      setCanvasError(`Failed to export animation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('Animation export error:', error);
+    } finally {
+      setIsExportingAnimation(false);
+    }
+  };
+
+  // Upload the avatar-sized ring as the signed-in user's X profile picture
+  const setAsAvatar = async () => {
+    if (!profileImage || !showCanvas) {
+      setCanvasError('No ring to upload. Please generate your growth ring first.');
+      return;
+    }
+
+    setIsSettingAvatar(true);
+    setAvatarStatus(null);
+    setCanvasError(null);
+
+    try {
+      const canvas = await renderExportCanvas('x-avatar');
+
+      // X caps profile images at 700KB; photos can push a PNG past that
+      let image = canvas.toDataURL('image/png');
+      if (image.length * 0.75 > 700 * 1024) {
+        image = canvas.toDataURL('image/jpeg', 0.92);
       }
 
-      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      const hasContent = imageData.data.some(pixel => pixel !== 0);
+      const response = await fetch('/api/x/avatar', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ image }),
+      });
 
-      if (!hasContent) {
-        setCanvasError('Canvas appears to be empty. Please regenerate your growth ring.');
-        return;
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.message || `Request failed with status ${response.status}`);
       }
 
-      const link = document.createElement('a');
-      const timestamp = new Date().toISOString().split('T')[0];
-      const filename = `growth-ring-${goalType}-${Math.round(progressPercentage)}%-${timestamp}.png`;
+      setAvatarStatus('Your X profile picture was updated. It can take a few minutes to show everywhere.');
+    } catch (error) {
+      setCanvasError(`Failed to set profile picture: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('Set avatar error:', error);
+    } finally {
+      setIsSettingAvatar(false);
+    }
+  };
 
-      try {
-        const dataUrl = canvas.toDataURL('image/png', 1.0);
+  // Schedule server-side avatar updates with the current followers ring
+  const saveAvatarRefresh = (settings: AvatarRefreshSettings) => {
+    if (!profileImage) return;
 
-        if (!dataUrl || dataUrl === 'data:,' || dataUrl.length < 100) {
-          setCanvasError('Failed to export image. The canvas may be empty or corrupted.');
-          return;
-        }
+    avatarRefresh.saveSchedule({
+      ...settings,
+      target: targetFollowers,
+      style: ringStyles[ringStyle] ?? BUILT_IN_RING_STYLES.classic,
+      overflow: showOverflow,
+      crop: avatarCrop ?? undefined,
+      avatarData: profileImage,
+    });
+  };
+
+  const renderTweetImage = async () => {
+    const canvas = await renderExportCanvas('og-image');
+    return canvas.toDataURL('image/png');
+  };
+
+  const postTweet = async (text: string, image: string | null) => {
+    const response = await fetch('/api/x/tweet', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ text, image }),
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.message || `Request failed with status ${response.status}`);
+    }
+
+    return { id: data.data.id as string };
+  };
+
+  // Save the current ring on the server and copy its permalink
+  const createShareLink = async () => {
+    if (!profileImage || !showCanvas) {
+      setCanvasError('No ring to share. Please generate your growth ring first.');
+      return;
+    }
 
-        link.download = filename;
-        link.href = dataUrl;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
+    setIsSharing(true);
+    setCanvasError(null);
 
-        setCanvasError(null);
-      } catch (error) {
-        setCanvasError(`Failed to export image: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        console.error('Download error:', error);
+    try {
+      const response = await fetch('/api/share', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          current: currentFollowers,
+          target: targetFollowers,
+          goalType,
+          style: ringStyles[ringStyle] ?? BUILT_IN_RING_STYLES.classic,
+          overflow: showOverflow,
+          crop: avatarCrop ?? undefined,
+          avatarData: profileImage,
+        }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.message || `Request failed with status ${response.status}`);
       }
+
+      const url = new URL(data.url, window.location.origin).toString();
+      setShareUrl(url);
+      await navigator.clipboard?.writeText(url).catch(() => undefined);
     } catch (error) {
-      setCanvasError(`Download failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      console.error('Download setup error:', error);
+      setCanvasError(`Failed to create share link: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('Share link error:', error);
+    } finally {
+      setIsSharing(false);
     }
   };
 
@@ -399,10 +584,42 @@ export const ToolView: React.FC = () => {
     };
   }, [state.showXApiConfig, setShowXApiConfig]);
 
+  // Load the selected saved goal into the editor once per selection, so later edits aren't overwritten
+  const { activeGoal } = savedGoals;
+  useEffect(() => {
+    if (!activeGoal || appliedGoalIdRef.current === activeGoal.id) return;
+    appliedGoalIdRef.current = activeGoal.id;
+
+    setGoalType(activeGoal.goalType);
+    setStartValue(activeGoal.startValue);
+    setTargetFollowers(activeGoal.target);
+    setDeadline(activeGoal.deadline);
+    setRingStyle(ringStyles[activeGoal.ringStyle] ? activeGoal.ringStyle : 'classic');
+  }, [activeGoal, ringStyles]);
+
+  const handleSelectGoal = (id: string | null) => {
+    appliedGoalIdRef.current = null;
+    savedGoals.selectGoal(id);
+  };
+
+  const handleSaveGoal = async (name: string, id?: string) => {
+    const saved = await savedGoals.saveGoal({
+      name,
+      goalType: goalType as GoalTypeKey,
+      startValue,
+      target: targetFollowers,
+      deadline,
+      ringStyle,
+    }, id);
+
+    // The editor already shows what was saved
+    if (saved) appliedGoalIdRef.current = saved.id;
+  };
+
   // Clear errors when user changes settings
   useEffect(() => {
     setCanvasError(null);
-  }, [goalType, ringStyle]);
+  }, [goalType, ringStyle, ringLayout]);
 
   // Trigger canvas redraw when necessary
   useEffect(() => {
@@ -415,7 +632,14 @@ export const ToolView: React.FC = () => {
     if (profileImage && showCanvas) {
       generateRingOverlay();
     }
-  }, [debouncedProgressPercentage, goalType, ringStyle, profileImage, showCanvas, generateRingOverlay]);
+  }, [debouncedProgressPercentage, debouncedActivityGoals, goalType, ringStyle, ringLayout, profileImage, showCanvas, generateRingOverlay]);
+
+  const getMilestoneShareText = (label: string) => {
+    const milestoneText = label.endsWith('%')
+      ? `${label} of the way to ${currentGoal.format(targetFollowers)} ${currentGoal.label.toLowerCase()}`
+      : `${label} ${currentGoal.label.toLowerCase()}`;
+    return `Just hit ${milestoneText}! 🎉 Tracking my growth with Growth Rings`;
+  };
 
   const getMotivationalMessage = () => {
     if (progressPercentage >= 100) return "🎉 Goal smashed! Time to level up!";
@@ -475,6 +699,17 @@ export const ToolView: React.FC = () => {
           {/* Configuration */}
           <div className="lg:col-span-1 space-y-6">
             <GoalSetupCard
+              ringLayout={ringLayout}
+              setRingLayout={setRingLayout}
+              activityGoals={activityGoals}
+              showOverflow={showOverflow}
+              setShowOverflow={setShowOverflow}
+              onActivityGoalChange={(type, field, value) => {
+                setActivityGoals(prev => ({
+                  ...prev,
+                  [type]: { ...prev[type as GoalTypeKey], [field]: value },
+                }));
+              }}
               goalType={goalType}
               goalTypes={goalTypes}
               setGoalType={setGoalType}
@@ -482,25 +717,67 @@ export const ToolView: React.FC = () => {
               setCurrentFollowers={setCurrentFollowers}
               targetFollowers={targetFollowers}
               setTargetFollowers={setTargetFollowers}
-              timeframe={timeframe}
-              setTimeframe={setTimeframe}
+              deadline={deadline}
+              setDeadline={setDeadline}
               ringStyle={ringStyle}
               setRingStyle={setRingStyle}
               timeframes={timeframes}
               ringStyles={ringStyles}
+              themeError={themeError}
+              onSaveTheme={(style, id) => setRingStyle(saveCustomStyle(style, id))}
+              onDeleteTheme={(id) => {
+                deleteCustomStyle(id);
+                setRingStyle('classic');
+              }}
+              onExportThemes={exportStyles}
+              onImportThemes={importStyles}
+              textSettings={textSettings}
+              onTextSettingChange={updateTextSetting}
+              paidFeaturesEnabled={PAID_FEATURES_ENABLED}
+              milestoneSettings={milestoneSettings}
+              onMilestoneSettingChange={updateMilestoneSetting}
+              milestones={milestones}
+              savedGoals={savedGoals.goals}
+              activeGoalId={savedGoals.activeGoalId}
+              goalsSynced={savedGoals.isSynced}
+              goalsLoading={savedGoals.isLoading}
+              goalsError={savedGoals.error}
+              startValue={startValue}
+              setStartValue={setStartValue}
+              onSelectGoal={handleSelectGoal}
+              onSaveGoal={handleSaveGoal}
+              onDeleteGoal={savedGoals.deleteGoal}
               profileImage={profileImage}
               isGenerating={isGenerating}
               imageError={imageError}
               fileInputRef={fileInputRef}
               onFileInputClick={() => fileInputRef.current?.click()}
               onImageUpload={handleImageUpload}
+              avatarCrop={avatarCrop}
+              onAvatarCropChange={setAvatarCrop}
               xApiIsConfigured={xApi.isConfigured}
               xApiUserData={xApi.userData}
               xApiIsLoading={xApi.isLoading}
               xApiError={xApi.error}
               xApiLastUpdated={xApi.lastUpdated}
+              xApiRateLimit={xApi.rateLimit}
               onSyncWithXApi={syncWithXApi}
             />
+
+            {isAuthenticated && (
+              <AvatarRefreshCard
+                schedule={avatarRefresh.schedule}
+                isLoading={avatarRefresh.isLoading}
+                isSaving={avatarRefresh.isSaving}
+                isRunning={avatarRefresh.isRunning}
+                error={avatarRefresh.error}
+                canSave={Boolean(profileImage) && ringLayout === 'single' && goalType === 'followers'}
+                uploadsEnabled={PROFILE_IMAGE_UPLOADS_ENABLED}
+                onSave={saveAvatarRefresh}
+                onRunNow={avatarRefresh.runNow}
+                onRemove={avatarRefresh.removeSchedule}
+              />
+            )}
           </div>
 
           {/* Preview */}
@@ -517,7 +794,38 @@ export const ToolView: React.FC = () => {
               currentGoalLabel={currentGoal.label}
               currentGoalColor={currentGoal.color}
               motivationalMessage={getMotivationalMessage()}
+              pacing={ringLayout === 'single' ? pacing : null}
+              deadline={deadline}
+              valueSuffix={'suffix' in currentGoal ? currentGoal.suffix : ''}
+              showExpectedArc={showExpectedArc}
+              onShowExpectedArcChange={setShowExpectedArc}
+              milestonePrompt={crossedMilestone && {
+                label: crossedMilestone.label,
+                symbol: crossedMilestone.badgeArt?.symbol ?? '🎉',
+                shareText: getMilestoneShareText(crossedMilestone.label),
+              }}
+              onDismissMilestonePrompt={dismissCrossedMilestone}
               onDownloadImage={downloadImage}
+              onDownloadAnimation={downloadAnimation}
+              isExportingAnimation={isExportingAnimation}
+              canShareLink={ringLayout === 'single'}
+              onCreateShareLink={createShareLink}
+              isSharing={isSharing}
+              shareUrl={shareUrl}
+              canSetAvatar={isAuthenticated && PROFILE_IMAGE_UPLOADS_ENABLED}
+              onSetAsAvatar={setAsAvatar}
+              isSettingAvatar={isSettingAvatar}
+              avatarStatus={avatarStatus}
+              onClearAvatarStatus={() => setAvatarStatus(null)}
+              tweetTemplateValues={isAuthenticated && ringLayout === 'single' ? {
+                percent: progressPercentage,
+                current: `${currentGoal.format(currentFollowers)}${'suffix' in currentGoal ? currentGoal.suffix : ''}`,
+                target: `${currentGoal.format(targetFollowers)}${'suffix' in currentGoal ? currentGoal.suffix : ''}`,
+                goal: currentGoal.label.toLowerCase(),
+                handle: formatHandle(textSettings.handle) || undefined,
+              } : null}
+              onRenderTweetImage={renderTweetImage}
+              onPostTweet={postTweet}
               onClearCanvasError={() => setCanvasError(null)}
               onRetryGenerate={() => {
                 setCanvasError(null);
@@ -0,0 +1,187 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Send, ArrowLeft, Eye } from 'lucide-react';
+import {
+  TWEET_TEMPLATES,
+  MAX_TWEET_LENGTH,
+  countTweetCharacters,
+  fillTweetTemplate,
+  type TweetTemplateKey,
+  type TweetTemplateValues,
+} from '../lib/tweetTemplates';
+
+interface TweetComposerProps {
+  templateValues: TweetTemplateValues;
+  onRenderImage: () => Promise<string>;
+  onPostTweet: (text: string, image: string | null) => Promise<{ id: string }>;
+}
+
+const inputClassName = 'w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+export const TweetComposer: React.FC<TweetComposerProps> = ({
+  templateValues,
+  onRenderImage,
+  onPostTweet,
+}) => {
+  const [templateKey, setTemplateKey] = useState<TweetTemplateKey>('progress');
+  const [text, setText] = useState(() => fillTweetTemplate(TWEET_TEMPLATES.progress.text, templateValues));
+  const [attachImage, setAttachImage] = useState(true);
+  const [previewImage, setPreviewImage] = useState<string | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isPosting, setIsPosting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [postedId, setPostedId] = useState<string | null>(null);
+
+  const length = countTweetCharacters(text);
+  const remaining = MAX_TWEET_LENGTH - length;
+  const canContinue = text.trim().length > 0 && remaining >= 0;
+
+  const applyTemplate = (key: TweetTemplateKey) => {
+    setTemplateKey(key);
+    setText(fillTweetTemplate(TWEET_TEMPLATES[key].text, templateValues));
+    setPostedId(null);
+  };
+
+  const showPreview = async () => {
+    setError(null);
+    setPostedId(null);
+
+    try {
+      setPreviewImage(attachImage ? await onRenderImage() : null);
+      setIsPreviewing(true);
+    } catch (previewError) {
+      setError(`Failed to render ring: ${previewError instanceof Error ? previewError.message : 'Unknown error'}`);
+    }
+  };
+
+  const post = async () => {
+    setIsPosting(true);
+    setError(null);
+
+    try {
+      const tweet = await onPostTweet(text.trim(), previewImage);
+      setPostedId(tweet.id);
+      setIsPreviewing(false);
+    } catch (postError) {
+      setError(postError instanceof Error ? postError.message : 'Unknown error');
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 max-w-md mx-auto mt-4 text-left">
+      <p className="text-sm font-medium text-gray-900 mb-3 flex items-center gap-2">
+        <Send size={16} className="text-gray-600" aria-hidden="true" />
+        Post to X
+      </p>
+
+      {error && (
+        <p className="text-xs text-red-600 mb-3" role="alert">{error}</p>
+      )}
+
+      {postedId && (
+        <p className="text-xs text-green-700 mb-3" role="status">
+          Posted!{' '}
+          <a
+            href={`https://x.com/i/web/status/${postedId}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="underline"
+          >
+            View your tweet
+          </a>
+        </p>
+      )}
+
+      {isPreviewing ? (
+        <>
+          <div className="bg-white border border-gray-200 rounded-xl p-3 mb-3">
+            <p className="text-sm text-gray-900 whitespace-pre-wrap break-words mb-2">{text.trim()}</p>
+            {previewImage && (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={previewImage} alt="Ring image attached to the tweet" className="w-full rounded-lg border border-gray-200" />
+            )}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setIsPreviewing(false)}
+              disabled={isPosting}
+              className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 transition-colors flex items-center justify-center gap-2 text-sm"
+            >
+              <ArrowLeft size={14} aria-hidden="true" />
+              Edit
+            </button>
+            <button
+              onClick={post}
+              disabled={isPosting}
+              className="flex-1 px-4 py-2 bg-gray-900 hover:bg-black disabled:bg-gray-300 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors flex items-center justify-center gap-2 text-sm"
+            >
+              <Send size={14} aria-hidden="true" />
+              {isPosting ? 'Posting...' : 'Post'}
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="mb-2">
+            <label htmlFor="tweet-template" className="block text-xs text-gray-600 mb-1">
+              Template
+            </label>
+            <select
+              id="tweet-template"
+              value={templateKey}
+              onChange={(e) => applyTemplate(e.target.value as TweetTemplateKey)}
+              className={inputClassName}
+            >
+              {(Object.keys(TWEET_TEMPLATES) as TweetTemplateKey[]).map((key) => (
+                <option key={key} value={key}>
+                  {TWEET_TEMPLATES[key].label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <label htmlFor="tweet-text" className="sr-only">
+            Tweet text
+          </label>
+          <textarea
+            id="tweet-text"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            rows={4}
+            className={`${inputClassName} resize-y`}
+            aria-describedby="tweet-counter"
+          />
+          <div className="flex items-center justify-between mt-1 mb-3">
+            <label className="flex items-center gap-2 text-xs text-gray-700">
+              <input
+                type="checkbox"
+                checked={attachImage}
+                onChange={(e) => setAttachImage(e.target.checked)}
+              />
+              Attach ring image
+            </label>
+            <span
+              id="tweet-counter"
+              className={`text-xs ${remaining < 0 ? 'text-red-600 font-medium' : remaining <= 20 ? 'text-yellow-700' : 'text-gray-500'}`}
+              aria-live="polite"
+            >
+              {remaining} characters left
+            </span>
+          </div>
+
+          <button
+            onClick={showPreview}
+            disabled={!canContinue}
+            className="w-full px-4 py-2 bg-gray-900 hover:bg-black disabled:bg-gray-300 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors flex items-center justify-center gap-2"
+          >
+            <Eye size={16} aria-hidden="true" />
+            Preview
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
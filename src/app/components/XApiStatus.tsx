@@ -1,7 +1,8 @@
 'use client';
 
 import React from 'react';
-import { Wifi, AlertCircle } from 'lucide-react';
+import { Wifi, AlertCircle, Gauge } from 'lucide-react';
+import type { RateLimitInfo } from '../lib/xRateLimit';
 
 interface XApiStatusProps {
   isConfigured: boolean;
@@ -11,12 +12,14 @@ interface XApiStatusProps {
     followersCount: number;
     engagementRate: number;
   } | null;
+  rateLimit?: RateLimitInfo | null;
 }
 
 export const XApiStatus: React.FC<XApiStatusProps> = ({
   isConfigured,
   error,
   userData,
+  rateLimit,
 }) => {
   if (!isConfigured) {
     return null;
@@ -60,6 +63,17 @@ export const XApiStatus: React.FC<XApiStatusProps> = ({
           </span>
         </div>
       )}
+
+      {/* Request Budget */}
+      {rateLimit && (
+        <p className={`mb-4 text-xs flex items-center gap-2 ${rateLimit.remaining === 0 ? 'text-red-600' : 'text-gray-500'}`}>
+          <Gauge size={14} aria-hidden="true" />
+          <span>
+            {rateLimit.remaining} of {rateLimit.limit} X API requests left • resets at{' '}
+            <time dateTime={rateLimit.reset.toISOString()}>{rateLimit.reset.toLocaleTimeString()}</time>
+          </span>
+        </p>
+      )}
     </>
   );
 };
\ No newline at end of file
@@ -6,6 +6,15 @@ export { PreviewCard } from './PreviewCard';
 export { GoalTypeSelector } from './GoalTypeSelector';
 export { XApiStatus } from './XApiStatus';
 export { ImageUploader } from './ImageUploader';
+export { AvatarCropper } from './AvatarCropper';
+export { ActivityGoalsEditor } from './ActivityGoalsEditor';
+export { RingThemeManager } from './RingThemeManager';
+export { TextOverlayEditor } from './TextOverlayEditor';
+export { MilestoneEditor } from './MilestoneEditor';
+export { TweetComposer } from './TweetComposer';
+export { AvatarRefreshCard } from './AvatarRefreshCard';
+export { SavedGoalsEditor } from './SavedGoalsEditor';
+export { PacingSummary } from './PacingSummary';
 export { SignInButton, CompactSignInButton, HeroSignInButton } from './SignInButton';
 export { LogoutButton, CompactLogoutButton, IconLogoutButton, LogoutMenuItem } from './LogoutButton';
 export { ConvertKitForm } from './ConvertKitForm';
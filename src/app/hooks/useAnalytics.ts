@@ -31,8 +31,10 @@ interface AnalyticsData {
     followersCount: number;
     followingCount: number;
     tweetCount: number;
-    engagementRate: number;
+    engagementRate: number | null;
   }>;
+  hasEnoughHistory: boolean;
+  minimumHistoryDays: number;
   growthTrend: number;
   topTweet: {
     id: string;
@@ -56,6 +58,8 @@ export const useAnalytics = (bearerToken?: string) => {
       user: null,
       tweets: [],
       historicalData: [],
+      hasEnoughHistory: false,
+      minimumHistoryDays: 0,
       growthTrend: 0,
       topTweet: null,
       averageEngagement: 0
@@ -86,7 +90,7 @@ export const useAnalytics = (bearerToken?: string) => {
       const apiService = createXApiService(bearerToken);
 
       // Fetch all analytics data in parallel
-      const [detailedAnalytics, historicalData] = await Promise.all([
+      const [detailedAnalytics, history] = await Promise.all([
         apiService.getDetailedAnalytics(),
         apiService.getHistoricalData(30)
       ]);
@@ -105,7 +109,9 @@ export const useAnalytics = (bearerToken?: string) => {
           verified: detailedAnalytics.user.verified
         },
         tweets: detailedAnalytics.tweets,
-        historicalData,
+        historicalData: history.history,
+        hasEnoughHistory: history.hasEnoughHistory,
+        minimumHistoryDays: history.minimumDays,
         growthTrend: detailedAnalytics.growthTrend,
         topTweet: detailedAnalytics.topTweet ? {
           id: detailedAnalytics.topTweet.id,
@@ -145,6 +151,8 @@ export const useAnalytics = (bearerToken?: string) => {
         user: null,
         tweets: [],
         historicalData: [],
+        hasEnoughHistory: false,
+        minimumHistoryDays: 0,
         growthTrend: 0,
         topTweet: null,
         averageEngagement: 0
@@ -166,7 +174,7 @@ export const useAnalytics = (bearerToken?: string) => {
   }, [bearerToken, fetchAnalytics, clearData]);
 
   const getGrowthStats = useCallback(() => {
-    if (!state.data.historicalData.length || !state.data.user) {
+    if (!state.data.hasEnoughHistory || !state.data.user) {
       return {
         dailyGrowth: 0,
         weeklyGrowth: 0,
@@ -177,21 +185,27 @@ export const useAnalytics = (bearerToken?: string) => {
 
     const data = state.data.historicalData;
     const latest = data[data.length - 1];
-    const weekAgo = data[Math.max(0, data.length - 7)];
-    const monthAgo = data[0];
 
-    const dailyGrowth = data.length > 1
-      ? latest.followersCount - data[data.length - 2].followersCount
-      : 0;
+    // Snapshots can skip days, so look them up by date rather than position
+    const daysAgo = (days: number) => {
+      const date = new Date(`${latest.date}T00:00:00Z`);
+      date.setUTCDate(date.getUTCDate() - days);
+      const cutoff = date.toISOString().split('T')[0];
+      return [...data].reverse().find(d => d.date <= cutoff) ?? data[0];
+    };
 
+    const weekAgo = daysAgo(7);
+    const monthAgo = data[0];
+
+    const dailyGrowth = latest.followersCount - data[data.length - 2].followersCount;
     const weeklyGrowth = latest.followersCount - weekAgo.followersCount;
     const monthlyGrowth = latest.followersCount - monthAgo.followersCount;
 
     // Calculate growth velocity
     let growthVelocity: 'declining' | 'steady' | 'accelerating' = 'steady';
-    if (data.length >= 7) {
+    const previousWeek = daysAgo(14);
+    if (previousWeek !== weekAgo && previousWeek.date <= weekAgo.date) {
       const recentWeekGrowth = weeklyGrowth;
-      const previousWeek = data[Math.max(0, data.length - 14)];
       const previousWeekGrowth = weekAgo.followersCount - previousWeek.followersCount;
 
       if (recentWeekGrowth > previousWeekGrowth * 1.1) {
@@ -210,7 +224,12 @@ export const useAnalytics = (bearerToken?: string) => {
   }, [state.data]);
 
   const getEngagementTrends = useCallback(() => {
-    if (!state.data.historicalData.length) {
+    // Days where recent tweets couldn't be read have no engagement rate
+    const data = state.data.historicalData
+      .map(d => d.engagementRate)
+      .filter((rate): rate is number => rate !== null);
+
+    if (!state.data.hasEnoughHistory || !data.length) {
       return {
         currentEngagement: 0,
         trend: 'stable',
@@ -218,13 +237,12 @@ export const useAnalytics = (bearerToken?: string) => {
       };
     }
 
-    const data = state.data.historicalData;
     const recent = data.slice(-7);
     const previous = data.slice(-14, -7);
 
-    const recentAvg = recent.reduce((sum, d) => sum + d.engagementRate, 0) / recent.length;
+    const recentAvg = recent.reduce((sum, rate) => sum + rate, 0) / recent.length;
     const previousAvg = previous.length > 0
-      ? previous.reduce((sum, d) => sum + d.engagementRate, 0) / previous.length
+      ? previous.reduce((sum, rate) => sum + rate, 0) / previous.length
       : recentAvg;
 
     let trend: 'improving' | 'stable' | 'declining' = 'stable';
@@ -237,7 +255,7 @@ export const useAnalytics = (bearerToken?: string) => {
     return {
       currentEngagement: Math.round(recentAvg * 10) / 10,
       trend,
-      averageEngagement: Math.round((data.reduce((sum, d) => sum + d.engagementRate, 0) / data.length) * 10) / 10
+      averageEngagement: Math.round((data.reduce((sum, rate) => sum + rate, 0) / data.length) * 10) / 10
     };
   }, [state.data]);
 
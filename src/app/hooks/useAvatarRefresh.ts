@@ -0,0 +1,141 @@
+/**
+ * Avatar Refresh Hook
+ *
+ * Loads and updates the signed-in user's scheduled avatar refresh through
+ * /api/avatar-refresh.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { PublicAvatarRefreshSchedule } from '../lib/avatarRefresh';
+
+/**
+ * Settings and ring options sent when saving a schedule
+ */
+export interface AvatarRefreshRequest {
+  enabled: boolean;
+  dryRun: boolean;
+  intervalHours: number;
+  step: number;
+  target: number;
+  style: unknown;
+  overflow: boolean;
+  crop?: unknown;
+  avatarData: string;
+}
+
+interface AvatarRefreshState {
+  schedule: PublicAvatarRefreshSchedule | null;
+  isLoading: boolean;
+  isSaving: boolean;
+  isRunning: boolean;
+  error: string | null;
+}
+
+interface UseAvatarRefreshReturn extends AvatarRefreshState {
+  saveSchedule: (request: AvatarRefreshRequest) => Promise<void>;
+  runNow: () => Promise<void>;
+  removeSchedule: () => Promise<void>;
+}
+
+const requestSchedule = async (method: string, body?: AvatarRefreshRequest): Promise<PublicAvatarRefreshSchedule | null> => {
+  const response = await fetch('/api/avatar-refresh', {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    credentials: 'include',
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.message || `Request failed with status ${response.status}`);
+  }
+
+  return data.data ?? null;
+};
+
+export function useAvatarRefresh(isAuthenticated: boolean): UseAvatarRefreshReturn {
+  const [state, setState] = useState<AvatarRefreshState>({
+    schedule: null,
+    isLoading: isAuthenticated,
+    isSaving: false,
+    isRunning: false,
+    error: null,
+  });
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    let cancelled = false;
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+    requestSchedule('GET')
+      .then(schedule => {
+        if (!cancelled) setState(prev => ({ ...prev, schedule, isLoading: false }));
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('[useAvatarRefresh] Error:', error);
+        setState(prev => ({
+          ...prev,
+          isLoading: false,
+          error: error instanceof Error ? error.message : 'Failed to load avatar refresh settings',
+        }));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthenticated]);
+
+  const saveSchedule = useCallback(async (request: AvatarRefreshRequest) => {
+    setState(prev => ({ ...prev, isSaving: true, error: null }));
+
+    try {
+      const schedule = await requestSchedule('PUT', request);
+      setState(prev => ({ ...prev, schedule, isSaving: false }));
+    } catch (error) {
+      setState(prev => ({
+        ...prev,
+        isSaving: false,
+        error: `Failed to save: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      }));
+    }
+  }, []);
+
+  const runNow = useCallback(async () => {
+    setState(prev => ({ ...prev, isRunning: true, error: null }));
+
+    try {
+      const schedule = await requestSchedule('POST');
+      setState(prev => ({ ...prev, schedule, isRunning: false }));
+    } catch (error) {
+      setState(prev => ({
+        ...prev,
+        isRunning: false,
+        error: `Failed to run: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      }));
+    }
+  }, []);
+
+  const removeSchedule = useCallback(async () => {
+    setState(prev => ({ ...prev, isSaving: true, error: null }));
+
+    try {
+      await requestSchedule('DELETE');
+      setState(prev => ({ ...prev, schedule: null, isSaving: false }));
+    } catch (error) {
+      setState(prev => ({
+        ...prev,
+        isSaving: false,
+        error: `Failed to remove: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      }));
+    }
+  }, []);
+
+  return {
+    ...state,
+    saveSchedule,
+    runNow,
+    removeSchedule,
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * Metrics History Hook
+ *
+ * Loads the signed-in user's recorded daily metrics from /api/x/history.
+ * Anonymous users have no history.
+ */
+
+import { useState, useEffect } from 'react';
+import type { MetricsSnapshot } from '../lib/metricsHistoryStore';
+
+interface MetricsHistoryState {
+  snapshots: MetricsSnapshot[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+export function useMetricsHistory(isAuthenticated: boolean, days: number): MetricsHistoryState {
+  const [state, setState] = useState<MetricsHistoryState>({
+    snapshots: [],
+    isLoading: isAuthenticated,
+    error: null,
+  });
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setState({ snapshots: [], isLoading: false, error: null });
+      return;
+    }
+
+    let cancelled = false;
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+    fetch(`/api/x/history?days=${days}`, { credentials: 'include' })
+      .then(async response => {
+        const result = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new Error(result.message || `Request failed with status ${response.status}`);
+        }
+        if (!cancelled) setState({ snapshots: result.data.snapshots, isLoading: false, error: null });
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('[useMetricsHistory] Error:', error);
+        setState({
+          snapshots: [],
+          isLoading: false,
+          error: `Failed to load history: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthenticated, days]);
+
+  return state;
+}
@@ -0,0 +1,43 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { RingMilestone } from '../lib/ringRenderer';
+
+interface UseMilestoneCrossingReturn {
+  crossedMilestone: RingMilestone | null;
+  dismissCrossedMilestone: () => void;
+}
+
+/**
+ * Reports the highest milestone newly crossed as progress moves up. A change
+ * of resetKey (goal, target or milestone settings) re-baselines without
+ * reporting, so editing the goal itself never counts as a crossing.
+ */
+export const useMilestoneCrossing = (
+  milestones: RingMilestone[],
+  progress: number,
+  resetKey: string
+): UseMilestoneCrossingReturn => {
+  const baselineRef = useRef<{ key: string; reached: number } | null>(null);
+  const [crossedMilestone, setCrossedMilestone] = useState<RingMilestone | null>(null);
+
+  useEffect(() => {
+    const reached = milestones
+      .filter(milestone => progress >= milestone.progress)
+      .sort((a, b) => a.progress - b.progress);
+    const baseline = baselineRef.current;
+    baselineRef.current = { key: resetKey, reached: reached.length };
+
+    if (!baseline || baseline.key !== resetKey) {
+      setCrossedMilestone(null);
+    } else if (reached.length > baseline.reached) {
+      setCrossedMilestone(reached[reached.length - 1]);
+    } else if (reached.length < baseline.reached) {
+      setCrossedMilestone(null);
+    }
+  }, [milestones, progress, resetKey]);
+
+  const dismissCrossedMilestone = useCallback(() => {
+    setCrossedMilestone(null);
+  }, []);
+
+  return { crossedMilestone, dismissCrossedMilestone };
+};
@@ -0,0 +1,156 @@
+import { useRef, useEffect, useCallback } from 'react';
+import { renderRingJob, DEFAULT_RING_SIZE, type RingRenderJob } from '../lib/ringRenderer';
+import type { RingWorkerResponse } from '../workers/ringRender.worker';
+
+type RenderResult = RingWorkerResponse | { type: 'unavailable'; id: number };
+
+interface UseRingRendererReturn {
+  renderToCanvas: (
+    canvas: HTMLCanvasElement,
+    image: HTMLImageElement,
+    imageKey: string,
+    job: RingRenderJob
+  ) => Promise<boolean>;
+}
+
+const supportsWorkerRendering = (): boolean => {
+  return (
+    typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof createImageBitmap === 'function'
+  );
+};
+
+// Goal definitions carry icons and format functions, which can't be posted to a worker
+const toPlainJob = (job: RingRenderJob): RingRenderJob => {
+  if (job.layout === 'activity') {
+    return {
+      ...job,
+      rings: job.rings.map(ring => ({ ...ring, goal: { label: ring.goal.label, color: ring.goal.color } })),
+    };
+  }
+
+  return { ...job, goal: { label: job.goal.label, color: job.goal.color } };
+};
+
+/**
+ * Renders rings in a Web Worker when OffscreenCanvas is available, falling back
+ * to the main thread. renderToCanvas resolves false when a newer render
+ * superseded it, so only the latest request is ever painted.
+ */
+export const useRingRenderer = (): UseRingRendererReturn => {
+  const workerRef = useRef<Worker | null>(null);
+  const latestIdRef = useRef(0);
+  const imageKeyRef = useRef<string | null>(null);
+  const pendingRef = useRef(new Map<number, (result: RenderResult) => void>());
+
+  useEffect(() => {
+    if (!supportsWorkerRendering()) return;
+
+    const pending = pendingRef.current;
+    let worker: Worker;
+
+    try {
+      worker = new Worker(new URL('../workers/ringRender.worker.ts', import.meta.url), { type: 'module' });
+    } catch (error) {
+      console.warn('[Ring] Worker unavailable, rendering on the main thread:', error);
+      return;
+    }
+
+    worker.onmessage = (event: MessageEvent<RingWorkerResponse>) => {
+      const resolve = pending.get(event.data.id);
+      pending.delete(event.data.id);
+
+      if (resolve) {
+        resolve(event.data);
+      } else if (event.data.type === 'rendered') {
+        event.data.bitmap.close();
+      }
+    };
+
+    // A worker that fails to load or crashes hands everything back to the main thread
+    worker.onerror = (event) => {
+      console.warn('[Ring] Worker failed, rendering on the main thread:', event.message);
+      worker.terminate();
+      workerRef.current = null;
+      imageKeyRef.current = null;
+      pending.forEach((resolve, id) => resolve({ type: 'unavailable', id }));
+      pending.clear();
+    };
+
+    workerRef.current = worker;
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      imageKeyRef.current = null;
+      pending.forEach((resolve, id) => resolve({ type: 'cancelled', id }));
+      pending.clear();
+    };
+  }, []);
+
+  const renderToCanvas = useCallback(async (
+    canvas: HTMLCanvasElement,
+    image: HTMLImageElement,
+    imageKey: string,
+    job: RingRenderJob
+  ): Promise<boolean> => {
+    const id = ++latestIdRef.current;
+    const size = job.size ?? DEFAULT_RING_SIZE;
+    const worker = workerRef.current;
+
+    const paint = (draw: (ctx: CanvasRenderingContext2D) => void) => {
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        throw new Error('Canvas not supported in this browser. Please try a modern browser.');
+      }
+
+      canvas.width = size;
+      canvas.height = size;
+      draw(ctx);
+    };
+
+    if (worker) {
+      if (imageKeyRef.current !== imageKey) {
+        const bitmap = await createImageBitmap(image);
+        worker.postMessage({ type: 'image', bitmap }, [bitmap]);
+        imageKeyRef.current = imageKey;
+      }
+
+      const result = await new Promise<RenderResult>(resolve => {
+        pendingRef.current.set(id, resolve);
+        worker.postMessage({ type: 'render', id, job: toPlainJob(job) });
+      });
+
+      if (result.type === 'error') {
+        throw new Error(result.message);
+      }
+
+      if (result.type === 'rendered') {
+        if (id !== latestIdRef.current) {
+          result.bitmap.close();
+          return false;
+        }
+
+        paint(ctx => ctx.drawImage(result.bitmap, 0, 0));
+        result.bitmap.close();
+        return true;
+      }
+
+      if (result.type === 'cancelled') {
+        return false;
+      }
+    }
+
+    // Main-thread fallback, still skipping renders that were superseded while waiting
+    await new Promise(resolve => requestAnimationFrame(resolve));
+    if (id !== latestIdRef.current) {
+      return false;
+    }
+
+    paint(ctx => renderRingJob(ctx, image, job));
+    return true;
+  }, []);
+
+  return { renderToCanvas };
+};
@@ -0,0 +1,114 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import {
+  BUILT_IN_RING_STYLES,
+  createCustomStyleId,
+  exportRingStyles,
+  importRingStyles,
+  importValidRingStyles,
+  isCustomStyleId,
+  type RingStyleDefinition,
+} from '../lib/ringStyles';
+
+const STORAGE_KEY = 'growthRingsCustomStyles';
+
+interface UseRingStylesReturn {
+  ringStyles: Record<string, RingStyleDefinition>;
+  customStyles: Record<string, RingStyleDefinition>;
+  error: string | null;
+  saveCustomStyle: (style: RingStyleDefinition, id?: string) => string;
+  deleteCustomStyle: (id: string) => void;
+  exportStyles: () => string;
+  importStyles: (json: string) => number;
+}
+
+const loadCustomStyles = (): Record<string, RingStyleDefinition> => {
+  if (typeof window === 'undefined') return {};
+
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return {};
+
+  try {
+    // One outdated or broken theme shouldn't cost the user the rest
+    const { styles, invalidIds } = importValidRingStyles(saved);
+    if (invalidIds.length > 0) {
+      console.warn(`Skipped saved ring styles that no longer validate: ${invalidIds.join(', ')}`);
+    }
+    return styles;
+  } catch {
+    console.warn('Failed to parse saved ring styles');
+    return {};
+  }
+};
+
+export const useRingStyles = (): UseRingStylesReturn => {
+  const [customStyles, setCustomStyles] = useState<Record<string, RingStyleDefinition>>(loadCustomStyles);
+  const [error, setError] = useState<string | null>(null);
+  const loadedStyles = useRef(customStyles);
+
+  // Save custom styles to localStorage whenever they change. The styles as
+  // loaded aren't written back, so stored themes that couldn't be read are
+  // left alone until the user edits their themes.
+  useEffect(() => {
+    if (typeof window !== 'undefined' && customStyles !== loadedStyles.current) {
+      localStorage.setItem(STORAGE_KEY, exportRingStyles(customStyles));
+    }
+  }, [customStyles]);
+
+  const ringStyles = useMemo(() => ({
+    ...BUILT_IN_RING_STYLES,
+    ...customStyles,
+  }), [customStyles]);
+
+  // Pass an existing custom ID to overwrite that theme, otherwise a new ID is created
+  const saveCustomStyle = useCallback((style: RingStyleDefinition, id?: string) => {
+    const styleId = id && isCustomStyleId(id) && customStyles[id]
+      ? id
+      : createCustomStyleId(style.name, Object.keys(customStyles));
+
+    setCustomStyles(prev => ({ ...prev, [styleId]: style }));
+    setError(null);
+    return styleId;
+  }, [customStyles]);
+
+  const deleteCustomStyle = useCallback((id: string) => {
+    setCustomStyles(prev => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  }, []);
+
+  const exportStyles = useCallback(() => exportRingStyles(customStyles), [customStyles]);
+
+  // Imported themes always become custom themes, so they can't shadow built-ins
+  const importStyles = useCallback((json: string) => {
+    let imported: Record<string, RingStyleDefinition>;
+    try {
+      imported = importRingStyles(json);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import themes');
+      return 0;
+    }
+
+    const styles = Object.values(imported);
+    setCustomStyles(prev => {
+      const next = { ...prev };
+      styles.forEach(style => {
+        next[createCustomStyleId(style.name, Object.keys(next))] = style;
+      });
+      return next;
+    });
+    setError(null);
+    return styles.length;
+  }, []);
+
+  return {
+    ringStyles,
+    customStyles,
+    error,
+    saveCustomStyle,
+    deleteCustomStyle,
+    exportStyles,
+    importStyles,
+  };
+};
@@ -0,0 +1,229 @@
+/**
+ * Saved Goals Hook
+ *
+ * Lists and edits the user's named goals. Signed-in users' goals live on the
+ * server; anonymous users' goals live in localStorage and are uploaded the
+ * first time the user signs in (any the server refuses stay in localStorage
+ * and are retried on the next load). The selected goal is remembered per
+ * browser.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { createSavedGoal, validateGoalInput, type GoalInput, type SavedGoal } from '../lib/goals';
+
+const GOALS_STORAGE_KEY = 'growthRingsGoals';
+const ACTIVE_GOAL_STORAGE_KEY = 'growthRingsActiveGoal';
+
+interface SavedGoalsState {
+  goals: SavedGoal[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+interface UseSavedGoalsReturn extends SavedGoalsState {
+  activeGoalId: string | null;
+  activeGoal: SavedGoal | null;
+  isSynced: boolean;
+  selectGoal: (id: string | null) => void;
+  saveGoal: (input: GoalInput, id?: string) => Promise<SavedGoal | null>;
+  deleteGoal: (id: string) => Promise<void>;
+}
+
+const loadLocalGoals = (): SavedGoal[] => {
+  if (typeof window === 'undefined') return [];
+
+  const saved = localStorage.getItem(GOALS_STORAGE_KEY);
+  if (!saved) return [];
+
+  try {
+    const parsed = JSON.parse(saved);
+    // Drop anything that no longer validates rather than failing the whole list
+    return Array.isArray(parsed)
+      ? parsed.filter(goal => typeof goal?.id === 'string' && typeof validateGoalInput(goal) !== 'string')
+      : [];
+  } catch {
+    console.warn('Failed to parse saved goals');
+    return [];
+  }
+};
+
+const requestGoals = async <T>(url: string, method: string, body?: GoalInput): Promise<T> => {
+  const response = await fetch(url, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    credentials: 'include',
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.message || `Request failed with status ${response.status}`);
+  }
+
+  return data.data;
+};
+
+export function useSavedGoals(isAuthenticated: boolean, isAuthLoading: boolean): UseSavedGoalsReturn {
+  const [state, setState] = useState<SavedGoalsState>({
+    goals: [],
+    isLoading: true,
+    error: null,
+  });
+  const [activeGoalId, setActiveGoalId] = useState<string | null>(() => {
+    return typeof window === 'undefined' ? null : localStorage.getItem(ACTIVE_GOAL_STORAGE_KEY);
+  });
+
+  // Load from the server when signed in, otherwise from this browser
+  useEffect(() => {
+    if (isAuthLoading) return;
+
+    if (!isAuthenticated) {
+      setState({ goals: loadLocalGoals(), isLoading: false, error: null });
+      return;
+    }
+
+    let cancelled = false;
+
+    // Move goals saved before signing in to the account. Each goal is
+    // uploaded on its own; ones the server refuses (e.g. the account is at
+    // its goal limit) stay in this browser and are returned.
+    const uploadLocalGoals = async (localGoals: SavedGoal[]): Promise<SavedGoal[]> => {
+      const failed: SavedGoal[] = [];
+
+      for (const [index, goal] of localGoals.entries()) {
+        try {
+          await requestGoals<SavedGoal>('/api/goals', 'POST', goal);
+        } catch (error) {
+          console.warn(`[useSavedGoals] Could not upload goal "${goal.name}":`, error);
+          failed.push(goal);
+        }
+        // Forget each goal once uploaded so a failure part way doesn't duplicate it later
+        localStorage.setItem(GOALS_STORAGE_KEY, JSON.stringify([...failed, ...localGoals.slice(index + 1)]));
+      }
+
+      if (failed.length === 0) {
+        localStorage.removeItem(GOALS_STORAGE_KEY);
+      }
+      return failed;
+    };
+
+    const loadServerGoals = async () => {
+      try {
+        const localGoals = loadLocalGoals();
+        const failed = await uploadLocalGoals(localGoals);
+
+        const goals = await requestGoals<SavedGoal[]>('/api/goals', 'GET');
+        if (cancelled) return;
+
+        // Uploaded goals get new IDs; keep the same goal selected
+        const active = localGoals.find(goal => goal.id === localStorage.getItem(ACTIVE_GOAL_STORAGE_KEY));
+        if (active && !failed.includes(active)) {
+          const uploaded = [...goals].reverse().find(goal => goal.name === active.name);
+          setActiveGoalId(uploaded?.id ?? null);
+        }
+
+        const notice = failed.length > 0
+          ? `Couldn't add these goals from this browser to your account, so they're still saved here: ${failed.map(goal => goal.name).join(', ')}`
+          : null;
+        setState({ goals, isLoading: false, error: notice });
+      } catch (error) {
+        if (cancelled) return;
+        console.error('[useSavedGoals] Error:', error);
+        setState(prev => ({
+          ...prev,
+          isLoading: false,
+          error: `Failed to load goals: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        }));
+      }
+    };
+
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+    loadServerGoals();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthenticated, isAuthLoading]);
+
+  // Anonymous goals are written back to localStorage whenever they change
+  useEffect(() => {
+    if (!isAuthLoading && !isAuthenticated && !state.isLoading) {
+      localStorage.setItem(GOALS_STORAGE_KEY, JSON.stringify(state.goals));
+    }
+  }, [state.goals, state.isLoading, isAuthenticated, isAuthLoading]);
+
+  useEffect(() => {
+    if (activeGoalId) {
+      localStorage.setItem(ACTIVE_GOAL_STORAGE_KEY, activeGoalId);
+    } else {
+      localStorage.removeItem(ACTIVE_GOAL_STORAGE_KEY);
+    }
+  }, [activeGoalId]);
+
+  const selectGoal = useCallback((id: string | null) => {
+    setActiveGoalId(id);
+  }, []);
+
+  // Pass an existing ID to update that goal, otherwise a new goal is created
+  const saveGoal = useCallback(async (input: GoalInput, id?: string) => {
+    setState(prev => ({ ...prev, error: null }));
+
+    try {
+      let goal: SavedGoal;
+
+      if (isAuthenticated) {
+        goal = id
+          ? await requestGoals<SavedGoal>(`/api/goals/${encodeURIComponent(id)}`, 'PUT', input)
+          : await requestGoals<SavedGoal>('/api/goals', 'POST', input);
+      } else {
+        const existing = id ? state.goals.find(saved => saved.id === id) : undefined;
+        goal = existing
+          ? { ...existing, ...input, updatedAt: new Date().toISOString() }
+          : createSavedGoal(input);
+      }
+
+      setState(prev => ({
+        ...prev,
+        goals: prev.goals.some(saved => saved.id === goal.id)
+          ? prev.goals.map(saved => saved.id === goal.id ? goal : saved)
+          : [...prev.goals, goal],
+      }));
+      setActiveGoalId(goal.id);
+      return goal;
+    } catch (error) {
+      setState(prev => ({
+        ...prev,
+        error: `Failed to save goal: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      }));
+      return null;
+    }
+  }, [isAuthenticated, state.goals]);
+
+  const deleteGoal = useCallback(async (id: string) => {
+    setState(prev => ({ ...prev, error: null }));
+
+    try {
+      if (isAuthenticated) {
+        await requestGoals(`/api/goals/${encodeURIComponent(id)}`, 'DELETE');
+      }
+
+      setState(prev => ({ ...prev, goals: prev.goals.filter(goal => goal.id !== id) }));
+      setActiveGoalId(prev => prev === id ? null : prev);
+    } catch (error) {
+      setState(prev => ({
+        ...prev,
+        error: `Failed to delete goal: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      }));
+    }
+  }, [isAuthenticated]);
+
+  return {
+    ...state,
+    activeGoalId,
+    activeGoal: state.goals.find(goal => goal.id === activeGoalId) ?? null,
+    isSynced: isAuthenticated,
+    selectGoal,
+    saveGoal,
+    deleteGoal,
+  };
+}
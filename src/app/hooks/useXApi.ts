@@ -1,5 +1,7 @@
 import { useState, useCallback } from 'react';
 import { createXApiService, isValidBearerToken } from '../services/xapi';
+import type { RateLimitInfo } from '../lib/xRateLimit';
+import { XAuthError, XRateLimitError } from '../lib/xErrors';
 
 interface XApiState {
   isLoading: boolean;
@@ -15,6 +17,7 @@ interface XApiState {
     profileImageUrl?: string;
   } | null;
   lastUpdated: Date | null;
+  rateLimit: RateLimitInfo | null;
 }
 
 interface UseXApiReturn extends XApiState {
@@ -24,6 +27,19 @@ interface UseXApiReturn extends XApiState {
   isConfigured: boolean;
 }
 
+// The bearer token is pasted in by hand, so point auth failures back at it
+const getErrorMessage = (error: unknown): string => {
+  if (error instanceof XAuthError) {
+    return 'Invalid or expired bearer token. Please check your X API credentials.';
+  }
+  if (error instanceof XRateLimitError) {
+    return error.resetAt
+      ? `Rate limit exceeded. Requests resume at ${error.resetAt.toLocaleTimeString()}.`
+      : 'Rate limit exceeded. Please wait before making another request.';
+  }
+  return error instanceof Error ? error.message : 'Failed to fetch X data';
+};
+
 export const useXApi = (): UseXApiReturn => {
   const [bearerToken, setBearerTokenState] = useState<string>('');
   const [state, setState] = useState<XApiState>({
@@ -31,6 +47,7 @@ export const useXApi = (): UseXApiReturn => {
     error: null,
     userData: null,
     lastUpdated: null,
+    rateLimit: null,
   });
 
   const setBearerToken = useCallback((token: string) => {
@@ -44,6 +61,7 @@ export const useXApi = (): UseXApiReturn => {
       error: null,
       userData: null,
       lastUpdated: null,
+      rateLimit: null,
     });
   }, []);
 
@@ -58,8 +76,9 @@ export const useXApi = (): UseXApiReturn => {
 
     setState(prev => ({ ...prev, isLoading: true, error: null }));
 
+    const apiService = createXApiService(bearerToken);
+
     try {
-      const apiService = createXApiService(bearerToken);
 
       const [userMetrics, recentTweets] = await Promise.all([
         apiService.getUserMetrics(),
@@ -85,12 +104,14 @@ export const useXApi = (): UseXApiReturn => {
           profileImageUrl: userMetrics.profileImageUrl,
         },
         lastUpdated: new Date(),
+        rateLimit: apiService.getRateLimit(),
       });
     } catch (error) {
       setState(prev => ({
         ...prev,
         isLoading: false,
-        error: error instanceof Error ? error.message : 'Failed to fetch X data',
+        error: getErrorMessage(error),
+        rateLimit: apiService.getRateLimit() ?? prev.rateLimit,
       }));
     }
   }, [bearerToken]);
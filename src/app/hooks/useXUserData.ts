@@ -4,8 +4,9 @@
  * Fetches and manages X (Twitter) user data with automatic refresh.
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import type { XUser, XTweet } from '../lib/xapi';
+import { fromXErrorBody, XAuthError, XRateLimitError } from '../lib/xErrors';
 
 interface UseXUserDataOptions {
   includeTweets?: boolean;
@@ -43,6 +44,9 @@ export function useXUserData(options: UseXUserDataOptions = {}): UseXUserDataRet
     lastUpdated: null,
   });
 
+  // Auto-refresh skips requests until this time (ms) after a rate limit or auth failure
+  const pausedUntilRef = useRef(0);
+
   const fetchUserData = useCallback(async () => {
     try {
       setState(prev => ({ ...prev, isLoading: true, error: null }));
@@ -55,11 +59,12 @@ export function useXUserData(options: UseXUserDataOptions = {}): UseXUserDataRet
       const response = await fetch(url.toString());
 
       if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || `Failed to fetch user data: ${response.status}`);
+        const body = await response.json().catch(() => null);
+        throw fromXErrorBody(body, response.status) ?? new Error(body?.message || `Failed to fetch user data: ${response.status}`);
       }
 
       const result = await response.json();
+      pausedUntilRef.current = 0;
 
       setState({
         user: result.data.user,
@@ -72,10 +77,19 @@ export function useXUserData(options: UseXUserDataOptions = {}): UseXUserDataRet
     } catch (error) {
       console.error('[useXUserData] Error:', error);
 
+      let message = error instanceof Error ? error.message : 'Failed to fetch user data';
+      if (error instanceof XRateLimitError && error.resetAt) {
+        pausedUntilRef.current = error.resetAt.getTime();
+        message = `Rate limit reached. Updates resume at ${error.resetAt.toLocaleTimeString()}.`;
+      } else if (error instanceof XAuthError) {
+        // Polling can't succeed until the user signs in again
+        pausedUntilRef.current = Infinity;
+      }
+
       setState(prev => ({
         ...prev,
         isLoading: false,
-        error: error instanceof Error ? error.message : 'Failed to fetch user data',
+        error: message,
       }));
     }
   }, [includeTweets]);
@@ -96,6 +110,7 @@ export function useXUserData(options: UseXUserDataOptions = {}): UseXUserDataRet
     if (!refreshInterval) return;
 
     const interval = setInterval(() => {
+      if (Date.now() < pausedUntilRef.current) return;
       fetchUserData();
     }, refreshInterval);
 
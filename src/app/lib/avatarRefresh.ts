@@ -0,0 +1,142 @@
+/**
+ * Scheduled Avatar Refresh
+ *
+ * Fetches a user's live follower count, re-renders their ring and uploads it
+ * as their X profile picture once the percentage has moved by the schedule's
+ * step. Each run also records the user's daily metrics snapshot. Triggered
+ * per user from /api/avatar-refresh or for every due schedule from
+ * /api/jobs/avatar-refresh. Uploads share updateProfileImage's limitation:
+ * the real X API needs OAuth 1.0a for them, so every run is a dry run
+ * unless NEXT_PUBLIC_PROFILE_IMAGE_UPLOADS is "true".
+ */
+
+import { fetchCurrentUser, updateProfileImage } from './xapi';
+import { calculateProgress, PROFILE_IMAGE_UPLOADS_ENABLED } from './ringConfig';
+import { renderRingPng } from './serverRing';
+import { recordMetricsSnapshot, toMetricsSnapshot } from './metricsHistoryStore';
+import { getFreshAccessToken } from './userTokenStore';
+import {
+  listAvatarRefreshSchedules,
+  saveAvatarRefreshSchedule,
+  MAX_REFRESH_RUNS,
+  type AvatarRefreshRun,
+  type AvatarRefreshSchedule,
+} from './avatarRefreshStore';
+
+/**
+ * A schedule with its avatar data removed, for the browser
+ */
+export type PublicAvatarRefreshSchedule = Omit<AvatarRefreshSchedule, 'ring'> & {
+  ring: Omit<AvatarRefreshSchedule['ring'], 'avatar'>;
+};
+
+/**
+ * Strip avatar data before sending a schedule to the client
+ */
+export function toPublicSchedule(schedule: AvatarRefreshSchedule): PublicAvatarRefreshSchedule {
+  const { userId, username, enabled, dryRun, intervalHours, step, ring, lastPercent, lastRunAt, nextRunAt, runs } = schedule;
+  const { target, goalType, style, overflow, crop } = ring;
+
+  return {
+    userId,
+    username,
+    enabled,
+    dryRun,
+    intervalHours,
+    step,
+    ring: { target, goalType, style, overflow, crop },
+    lastPercent,
+    lastRunAt,
+    nextRunAt,
+    runs,
+  };
+}
+
+/**
+ * Run one refresh for a schedule, append the outcome to its log and save it
+ */
+export async function runAvatarRefresh(
+  schedule: AvatarRefreshSchedule,
+  now: Date = new Date()
+): Promise<AvatarRefreshSchedule> {
+  let run: AvatarRefreshRun;
+  const dryRun = schedule.dryRun || !PROFILE_IMAGE_UPLOADS_ENABLED;
+
+  try {
+    const accessToken = await getFreshAccessToken(schedule.userId, now);
+    const user = await fetchCurrentUser(accessToken);
+    const followers = user.public_metrics?.followers_count;
+
+    if (followers === undefined) {
+      throw new Error('X did not return follower metrics');
+    }
+
+    // Scheduled runs double as the user's daily metrics snapshot
+    const snapshot = toMetricsSnapshot(user, null, now);
+    if (snapshot) {
+      await recordMetricsSnapshot(user.id, snapshot);
+    }
+
+    const percent = calculateProgress(followers, schedule.ring.target, schedule.ring.overflow);
+    const moved = schedule.lastPercent === null ? Infinity : Math.abs(percent - schedule.lastPercent);
+
+    if (moved < schedule.step) {
+      run = {
+        at: now.toISOString(),
+        action: 'skipped',
+        message: `Moved ${moved.toFixed(1)} points, waiting for ${schedule.step}`,
+        followers,
+        percent,
+      };
+    } else {
+      const png = await renderRingPng({ ...schedule.ring, current: followers }, 'x-avatar');
+
+      if (!dryRun) {
+        await updateProfileImage(accessToken, png);
+      }
+
+      // Dry runs track the percentage too, so they log what a real schedule would do
+      schedule.lastPercent = percent;
+      run = {
+        at: now.toISOString(),
+        action: dryRun ? 'dry-run' : 'updated',
+        message: `${dryRun ? 'Would update' : 'Updated'} avatar to ${Math.round(percent)}%`,
+        followers,
+        percent,
+      };
+    }
+
+    schedule.username = user.username;
+  } catch (error) {
+    console.error(`[Avatar Refresh] Run failed for ${schedule.userId}:`, error);
+    run = {
+      at: now.toISOString(),
+      action: 'error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+
+  schedule.runs = [run, ...schedule.runs].slice(0, MAX_REFRESH_RUNS);
+  schedule.lastRunAt = now.toISOString();
+  schedule.nextRunAt = new Date(now.getTime() + schedule.intervalHours * 60 * 60 * 1000).toISOString();
+  await saveAvatarRefreshSchedule(schedule);
+
+  return schedule;
+}
+
+/**
+ * Run every enabled schedule that is due, one at a time
+ */
+export async function runDueAvatarRefreshes(now: Date = new Date()): Promise<AvatarRefreshRun[]> {
+  const due = (await listAvatarRefreshSchedules()).filter(
+    schedule => schedule.enabled && new Date(schedule.nextRunAt).getTime() <= now.getTime()
+  );
+
+  const runs: AvatarRefreshRun[] = [];
+  for (const schedule of due) {
+    const updated = await runAvatarRefresh(schedule, now);
+    runs.push(updated.runs[0]);
+  }
+
+  return runs;
+}
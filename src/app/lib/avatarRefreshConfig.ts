@@ -0,0 +1,26 @@
+/**
+ * Avatar Refresh Settings
+ *
+ * Limits for scheduled avatar refresh settings, shared by the settings card
+ * and the API that validates them.
+ */
+
+/**
+ * Allowed refresh intervals
+ */
+export const REFRESH_INTERVAL_HOURS = [1, 6, 12, 24] as const;
+
+export type RefreshIntervalHours = typeof REFRESH_INTERVAL_HOURS[number];
+
+/**
+ * Bounds for how many percentage points the ring must move before re-uploading
+ */
+export const MIN_REFRESH_STEP = 1;
+export const MAX_REFRESH_STEP = 50;
+
+/**
+ * Check whether a value is an allowed refresh interval
+ */
+export function isRefreshInterval(value: unknown): value is RefreshIntervalHours {
+  return REFRESH_INTERVAL_HOURS.includes(value as RefreshIntervalHours);
+}
@@ -0,0 +1,71 @@
+/**
+ * Avatar Refresh Schedule Store
+ *
+ * Persists each user's automatic avatar refresh schedule and its run log
+ * in the configured server storage. The job acts with the user's tokens
+ * from the user token store.
+ */
+
+import type { ServerRingOptions } from './serverRing';
+import { getStorage } from './storage';
+
+/**
+ * Outcome of one refresh run
+ */
+export interface AvatarRefreshRun {
+  at: string;
+  action: 'updated' | 'dry-run' | 'skipped' | 'error';
+  message: string;
+  followers?: number;
+  percent?: number;
+}
+
+/**
+ * A user's refresh schedule
+ */
+export interface AvatarRefreshSchedule {
+  userId: string;
+  username?: string;
+  enabled: boolean;
+  dryRun: boolean; // render and log, but never upload
+  intervalHours: number;
+  step: number; // percentage points the ring must move before re-uploading
+  ring: Omit<ServerRingOptions, 'current'>;
+  lastPercent: number | null;
+  lastRunAt: string | null;
+  nextRunAt: string;
+  runs: AvatarRefreshRun[]; // newest first
+}
+
+/**
+ * Runs kept in each schedule's log
+ */
+export const MAX_REFRESH_RUNS = 50;
+
+/**
+ * Load a user's schedule, or null when they haven't set one up
+ */
+export async function getAvatarRefreshSchedule(userId: string): Promise<AvatarRefreshSchedule | null> {
+  return getStorage().getAvatarRefreshSchedule(userId);
+}
+
+/**
+ * Create or replace a user's schedule
+ */
+export async function saveAvatarRefreshSchedule(schedule: AvatarRefreshSchedule): Promise<void> {
+  await getStorage().saveAvatarRefreshSchedule(schedule);
+}
+
+/**
+ * Remove a user's schedule and its run log
+ */
+export async function deleteAvatarRefreshSchedule(userId: string): Promise<void> {
+  await getStorage().deleteAvatarRefreshSchedule(userId);
+}
+
+/**
+ * All stored schedules
+ */
+export async function listAvatarRefreshSchedules(): Promise<AvatarRefreshSchedule[]> {
+  return getStorage().listAvatarRefreshSchedules();
+}
@@ -0,0 +1,90 @@
+/**
+ * Client Rate Limits
+ *
+ * Fixed-window request limits per client IP for public endpoints, kept in
+ * process memory. Each endpoint counts in its own bucket.
+ */
+
+/**
+ * Requests a client IP may make per window
+ */
+export interface ClientRateLimit {
+  MAX_REQUESTS: number;
+  WINDOW_MS: number;
+}
+
+// Drop finished windows once a bucket tracks this many IPs
+const RATE_LIMIT_PRUNE_SIZE = 1000;
+
+// Kept on globalThis so dev-server reloads keep counting
+const globalLimits = globalThis as typeof globalThis & {
+  growthRingsRateLimitWindows?: Map<string, Map<string, { count: number; resetAt: number }>>;
+};
+
+/**
+ * Count a request from an IP against a bucket. Returns when its window
+ * resets if the IP is over the limit, otherwise null.
+ */
+export function checkClientRateLimit(
+  bucket: string,
+  ip: string,
+  limit: ClientRateLimit,
+  now: number = Date.now()
+): Date | null {
+  globalLimits.growthRingsRateLimitWindows ??= new Map();
+  const buckets = globalLimits.growthRingsRateLimitWindows;
+
+  let windows = buckets.get(bucket);
+  if (!windows) {
+    windows = new Map();
+    buckets.set(bucket, windows);
+  }
+
+  if (windows.size >= RATE_LIMIT_PRUNE_SIZE) {
+    windows.forEach((window, key) => {
+      if (window.resetAt <= now) windows.delete(key);
+    });
+  }
+
+  let window = windows.get(ip);
+  if (!window || window.resetAt <= now) {
+    window = { count: 0, resetAt: now + limit.WINDOW_MS };
+    windows.set(ip, window);
+  }
+
+  window.count++;
+  return window.count > limit.MAX_REQUESTS ? new Date(window.resetAt) : null;
+}
+
+/**
+ * Seconds until a limit resets, for the Retry-After header
+ */
+export function getRetryAfterSeconds(resetAt: Date, now: number = Date.now()): number {
+  return Math.max(1, Math.ceil((resetAt.getTime() - now) / 1000));
+}
+
+/**
+ * Proxies in front of the app that append to X-Forwarded-For. Defaults to
+ * one (the hosting platform's load balancer).
+ */
+const getTrustedProxyHops = (): number => {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS ?? 1);
+  return Number.isInteger(hops) && hops >= 0 ? hops : 1;
+};
+
+/**
+ * Client IP as reported by the proxy in front of the app. Clients can put
+ * anything at the start of X-Forwarded-For, so this takes the address the
+ * outermost trusted proxy appended, counting TRUSTED_PROXY_HOPS from the
+ * right. With no trusted proxies X-Real-IP is used instead.
+ */
+export function getClientIp(headers: Headers): string {
+  const hops = getTrustedProxyHops();
+  const forwarded = headers.get('x-forwarded-for')
+    ?.split(',')
+    .map(address => address.trim())
+    .filter(Boolean) ?? [];
+
+  const trusted = hops > 0 && forwarded.length > 0 ? forwarded[Math.max(0, forwarded.length - hops)] : undefined;
+  return trusted || headers.get('x-real-ip')?.trim() || 'unknown';
+}
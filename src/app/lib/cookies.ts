@@ -6,6 +6,7 @@
  */
 
 import { cookies } from 'next/headers';
+import { deleteSession, getValidSession } from './sessionStore';
 
 const COOKIE_OPTIONS = {
   httpOnly: true,
@@ -86,6 +87,15 @@ export async function getRefreshTokenCookie(): Promise<string | null> {
   return token?.value || null;
 }
 
+/**
+ * Get access token expiry (epoch ms) from cookie
+ */
+export async function getTokenExpiryCookie(): Promise<number | null> {
+  const cookieStore = await cookies();
+  const expiry = cookieStore.get(COOKIE_NAMES.TOKEN_EXPIRY);
+  return expiry ? parseInt(expiry.value, 10) : null;
+}
+
 /**
  * Store OAuth state and verifier
  */
@@ -132,6 +142,11 @@ export async function clearOAuthCookies(): Promise<void> {
   cookieStore.delete(COOKIE_NAMES.OAUTH_VERIFIER);
 }
 
+/**
+ * User ID stored when the X user couldn't be looked up at sign-in
+ */
+export const PENDING_USER_ID = 'user_pending';
+
 /**
  * Set user session cookie
  */
@@ -152,11 +167,48 @@ export async function getUserIdCookie(): Promise<string | null> {
 }
 
 /**
- * Clear all authentication cookies
+ * Get session ID from cookie
+ */
+export async function getSessionIdCookie(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const sessionId = cookieStore.get(COOKIE_NAMES.SESSION_ID);
+  return sessionId?.value || null;
+}
+
+/**
+ * Get the signed-in X user's ID from the stored session named by the
+ * session cookie. Returns null when there is no valid session or the
+ * user_id cookie disagrees with it.
+ */
+export async function getSessionUserId(): Promise<string | null> {
+  const sessionId = await getSessionIdCookie();
+  if (!sessionId) return null;
+
+  const session = await getValidSession(sessionId);
+  if (!session) return null;
+
+  const userId = await getUserIdCookie();
+  if (userId !== session.userId) {
+    console.warn('[Auth] user_id cookie does not match the session, rejecting');
+    return null;
+  }
+
+  return session.userId;
+}
+
+/**
+ * Clear all authentication cookies and end the stored session
  */
 export async function clearAuthCookies(): Promise<void> {
   const cookieStore = await cookies();
 
+  const sessionId = cookieStore.get(COOKIE_NAMES.SESSION_ID)?.value;
+  if (sessionId) {
+    await deleteSession(sessionId).catch(error => {
+      console.error('[Auth] Failed to delete session:', error);
+    });
+  }
+
   cookieStore.delete(COOKIE_NAMES.ACCESS_TOKEN);
   cookieStore.delete(COOKIE_NAMES.REFRESH_TOKEN);
   cookieStore.delete(COOKIE_NAMES.TOKEN_EXPIRY);
@@ -25,6 +25,12 @@ interface EnvironmentVariables {
   // Optional: Analytics
   NEXT_PUBLIC_GA_MEASUREMENT_ID?: string;
 
+  // Optional: Paid tier features (watermark removal/replacement)
+  NEXT_PUBLIC_PAID_FEATURES?: string;
+
+  // Optional: X profile image uploads (need OAuth 1.0a, off by default)
+  NEXT_PUBLIC_PROFILE_IMAGE_UPLOADS?: string;
+
   // Node Environment
   NODE_ENV?: string;
 }
@@ -131,6 +137,12 @@ export const env: EnvironmentVariables = {
   // Optional: Analytics
   NEXT_PUBLIC_GA_MEASUREMENT_ID: process.env.NEXT_PUBLIC_GA_MEASUREMENT_ID,
 
+  // Optional: Paid tier features
+  NEXT_PUBLIC_PAID_FEATURES: process.env.NEXT_PUBLIC_PAID_FEATURES,
+
+  // Optional: X profile image uploads
+  NEXT_PUBLIC_PROFILE_IMAGE_UPLOADS: process.env.NEXT_PUBLIC_PROFILE_IMAGE_UPLOADS,
+
   // Node Environment
   NODE_ENV: process.env.NODE_ENV,
 };
@@ -141,6 +153,8 @@ export const env: EnvironmentVariables = {
  */
 export const clientEnv = {
   GA_MEASUREMENT_ID: process.env.NEXT_PUBLIC_GA_MEASUREMENT_ID,
+  PAID_FEATURES: process.env.NEXT_PUBLIC_PAID_FEATURES,
+  PROFILE_IMAGE_UPLOADS: process.env.NEXT_PUBLIC_PROFILE_IMAGE_UPLOADS,
   NODE_ENV: process.env.NODE_ENV,
 };
 
@@ -0,0 +1,103 @@
+/**
+ * Saved Goals
+ *
+ * Named goals a user can switch between. Signed-in users' goals are stored
+ * on the server through /api/goals; anonymous users' goals stay in
+ * localStorage. Validation here is shared by both.
+ */
+
+import { isGoalType, type GoalTypeKey } from './ringConfig';
+
+/**
+ * Editable fields of a goal
+ */
+export interface GoalInput {
+  name: string;
+  goalType: GoalTypeKey;
+  startValue: number;
+  target: number;
+  deadline: string | null; // YYYY-MM-DD
+  ringStyle: string;
+}
+
+/**
+ * A saved goal
+ */
+export interface SavedGoal extends GoalInput {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const MAX_GOALS_PER_USER = 20;
+export const MAX_GOAL_NAME_LENGTH = 40;
+
+const DEADLINE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Check that a value is a complete, valid goal. Returns an error message
+ * instead when a field is invalid.
+ */
+export function validateGoalInput(value: unknown): GoalInput | string {
+  if (!value || typeof value !== 'object') {
+    return 'Goal must be an object';
+  }
+
+  const { name, goalType, startValue, target, deadline, ringStyle } = value as Record<string, unknown>;
+
+  if (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_GOAL_NAME_LENGTH) {
+    return `name must be 1-${MAX_GOAL_NAME_LENGTH} characters`;
+  }
+
+  if (typeof goalType !== 'string' || !isGoalType(goalType)) {
+    return 'goalType must be one of: followers, engagement, tweets';
+  }
+
+  if (typeof startValue !== 'number' || !Number.isFinite(startValue) || startValue < 0) {
+    return 'startValue must be a non-negative number';
+  }
+
+  if (typeof target !== 'number' || !Number.isFinite(target) || target <= 0) {
+    return 'target must be a positive number';
+  }
+
+  if (deadline !== null && (typeof deadline !== 'string' || !DEADLINE_PATTERN.test(deadline) || isNaN(Date.parse(deadline)))) {
+    return 'deadline must be a YYYY-MM-DD date or null';
+  }
+
+  if (typeof ringStyle !== 'string' || !ringStyle) {
+    return 'ringStyle must be a style ID';
+  }
+
+  return { name: name.trim(), goalType, startValue, target, deadline, ringStyle };
+}
+
+/**
+ * Date a timeframe of `days` ends on, as a UTC YYYY-MM-DD. Days are added
+ * in UTC too, so a DST change in between can't shift the date.
+ */
+export function getDeadlineFromDays(days: number, from: Date = new Date()): string {
+  const deadline = new Date(from);
+  deadline.setUTCDate(deadline.getUTCDate() + days);
+  return deadline.toISOString().split('T')[0];
+}
+
+/**
+ * Build a goal with a fresh ID
+ */
+export function createSavedGoal(input: GoalInput, now: Date = new Date()): SavedGoal {
+  return {
+    ...input,
+    id: crypto.randomUUID(),
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Drop server-only fields from a stored goal
+ */
+export function toSavedGoal(goal: SavedGoal & { userId: string }): SavedGoal {
+  const { id, name, goalType, startValue, target, deadline, ringStyle, createdAt, updatedAt } = goal;
+  return { id, name, goalType, startValue, target, deadline, ringStyle, createdAt, updatedAt };
+}
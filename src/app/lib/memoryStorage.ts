@@ -0,0 +1,144 @@
+/**
+ * In-Memory Storage
+ *
+ * Storage implementation backed by Maps. Nothing survives a restart, which
+ * makes it suited to tests and throwaway instances.
+ */
+
+import type { Storage, StoredGoal, StoredSession, StoredUser, StoredUserTokens } from './storage';
+import type { MetricsSnapshot } from './metricsHistoryStore';
+import type { SharedRing } from './ringShareStore';
+import type { AvatarRefreshSchedule } from './avatarRefreshStore';
+
+/**
+ * Create an empty in-memory storage
+ */
+export function createMemoryStorage(): Storage {
+  const users = new Map<string, StoredUser>();
+  const sessions = new Map<string, StoredSession>();
+  const userTokens = new Map<string, StoredUserTokens>();
+  const goals = new Map<string, StoredGoal>(); // keyed by goal ID
+  const snapshots = new Map<string, Map<string, MetricsSnapshot>>(); // user ID -> date -> snapshot
+  const sharedRings = new Map<string, SharedRing>();
+  const schedules = new Map<string, AvatarRefreshSchedule>();
+
+  // Copy in and out so callers can't mutate stored records
+  const copy = <T>(value: T): T => structuredClone(value);
+
+  return {
+    async getUser(id) {
+      const user = users.get(id);
+      return user ? copy(user) : null;
+    },
+
+    async upsertUser(id, username) {
+      const now = new Date().toISOString();
+      const existing = users.get(id);
+      const user: StoredUser = {
+        id,
+        username: username ?? existing?.username,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      };
+      users.set(id, user);
+      return copy(user);
+    },
+
+    async createSession(session) {
+      sessions.set(session.id, copy(session));
+    },
+
+    async getSession(id) {
+      const session = sessions.get(id);
+      return session ? copy(session) : null;
+    },
+
+    async deleteSession(id) {
+      sessions.delete(id);
+    },
+
+    async getUserTokens(userId) {
+      const tokens = userTokens.get(userId);
+      return tokens ? copy(tokens) : null;
+    },
+
+    async saveUserTokens(tokens) {
+      userTokens.set(tokens.userId, copy(tokens));
+    },
+
+    async deleteUserTokens(userId) {
+      userTokens.delete(userId);
+    },
+
+    async listGoals(userId) {
+      return [...goals.values()]
+        .filter(goal => goal.userId === userId)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        .map(copy);
+    },
+
+    async getGoal(userId, id) {
+      const goal = goals.get(id);
+      return goal && goal.userId === userId ? copy(goal) : null;
+    },
+
+    async saveGoal(goal) {
+      const existing = goals.get(goal.id);
+      if (existing && existing.userId !== goal.userId) {
+        throw new Error('Goal belongs to another user');
+      }
+      goals.set(goal.id, copy(goal));
+    },
+
+    async deleteGoal(userId, id) {
+      if (goals.get(id)?.userId !== userId) return false;
+      return goals.delete(id);
+    },
+
+    async putSnapshot(userId, snapshot) {
+      const byDate = snapshots.get(userId) ?? new Map<string, MetricsSnapshot>();
+      byDate.set(snapshot.date, copy(snapshot));
+      snapshots.set(userId, byDate);
+    },
+
+    async getSnapshot(userId, date) {
+      const snapshot = snapshots.get(userId)?.get(date);
+      return snapshot ? copy(snapshot) : null;
+    },
+
+    async listSnapshots(userId, sinceDate) {
+      return [...(snapshots.get(userId)?.values() ?? [])]
+        .filter(snapshot => snapshot.date >= sinceDate)
+        .sort((a, b) => a.date.localeCompare(b.date))
+        .map(copy);
+    },
+
+    async createSharedRing(ring) {
+      if (sharedRings.has(ring.id)) return false;
+      sharedRings.set(ring.id, copy(ring));
+      return true;
+    },
+
+    async getSharedRing(id) {
+      const ring = sharedRings.get(id);
+      return ring ? copy(ring) : null;
+    },
+
+    async getAvatarRefreshSchedule(userId) {
+      const schedule = schedules.get(userId);
+      return schedule ? copy(schedule) : null;
+    },
+
+    async saveAvatarRefreshSchedule(schedule) {
+      schedules.set(schedule.userId, copy(schedule));
+    },
+
+    async deleteAvatarRefreshSchedule(userId) {
+      schedules.delete(userId);
+    },
+
+    async listAvatarRefreshSchedules() {
+      return [...schedules.values()].map(copy);
+    },
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * Metrics History Store
+ *
+ * Keeps one snapshot of each user's public metrics per day so analytics can
+ * chart real growth. X only reports current counts, so history starts the
+ * first day a snapshot is recorded. Snapshots live in the configured server
+ * storage.
+ */
+
+import type { XUser } from './xapi';
+import { getStorage } from './storage';
+
+/**
+ * A user's public metrics on one day
+ */
+export interface MetricsSnapshot {
+  date: string; // YYYY-MM-DD (UTC)
+  recordedAt: string;
+  followersCount: number;
+  followingCount: number;
+  tweetCount: number;
+  listedCount: number;
+  engagementRate: number | null; // null when recent tweets couldn't be read
+}
+
+/**
+ * History returned to analytics
+ */
+export interface MetricsHistory {
+  snapshots: MetricsSnapshot[]; // oldest first
+  hasEnoughHistory: boolean;
+  minimumDays: number;
+}
+
+/**
+ * Days of snapshots needed before trends mean anything
+ */
+export const MIN_HISTORY_DAYS = 2;
+
+/**
+ * Build today's snapshot from a user returned by the X API
+ */
+export function toMetricsSnapshot(
+  user: XUser,
+  engagementRate: number | null = null,
+  now: Date = new Date()
+): MetricsSnapshot | null {
+  const metrics = user.public_metrics;
+  if (!metrics) return null;
+
+  return {
+    date: now.toISOString().split('T')[0],
+    recordedAt: now.toISOString(),
+    followersCount: metrics.followers_count,
+    followingCount: metrics.following_count,
+    tweetCount: metrics.tweet_count,
+    listedCount: metrics.listed_count,
+    engagementRate,
+  };
+}
+
+/**
+ * Store a snapshot, replacing any earlier one from the same day
+ */
+export async function recordMetricsSnapshot(userId: string, snapshot: MetricsSnapshot): Promise<void> {
+  const storage = getStorage();
+  const earlier = await storage.getSnapshot(userId, snapshot.date);
+
+  // Keep an engagement rate recorded earlier in the day if this snapshot has none
+  await storage.putSnapshot(userId, snapshot.engagementRate === null && earlier
+    ? { ...snapshot, engagementRate: earlier.engagementRate }
+    : snapshot);
+}
+
+/**
+ * Snapshots from the last `days` days, oldest first
+ */
+export async function getMetricsHistory(userId: string, days: number = 30, now: Date = new Date()): Promise<MetricsHistory> {
+  const since = new Date(now);
+  since.setUTCDate(since.getUTCDate() - (days - 1));
+
+  const snapshots = await getStorage().listSnapshots(userId, since.toISOString().split('T')[0]);
+
+  return {
+    snapshots,
+    hasEnoughHistory: snapshots.length >= MIN_HISTORY_DAYS,
+    minimumDays: MIN_HISTORY_DAYS,
+  };
+}
@@ -16,8 +16,10 @@ export const OAUTH_CONFIG = {
   revocationEndpoint: 'https://api.x.com/2/oauth2/revoke',
   scopes: [
     'tweet.read',
+    'tweet.write', // For posting progress tweets
     'users.read',
     'follows.read',
+    'media.write', // For ring images in tweets (profile image updates need OAuth 1.0a)
     'offline.access', // For refresh tokens
   ],
 } as const;
@@ -0,0 +1,156 @@
+/**
+ * Goal Pacing
+ *
+ * Works out whether a goal is on pace for its deadline: the daily gain still
+ * needed, the daily gain actually being made (from metrics history, or from
+ * the start value since the goal was created), the date the goal will be
+ * reached at that rate, and where progress should be by today.
+ */
+
+import type { MetricsSnapshot } from './metricsHistoryStore';
+import type { GoalTypeKey } from './ringConfig';
+
+/**
+ * How the current rate compares to the rate the deadline needs
+ */
+export type PacingStatus = 'ahead' | 'on-track' | 'behind' | 'complete';
+
+/**
+ * A goal value on one day
+ */
+export interface PacingPoint {
+  date: string; // YYYY-MM-DD
+  value: number;
+}
+
+/**
+ * Everything pacing is calculated from
+ */
+export interface GoalPacingInput {
+  startValue: number;
+  current: number;
+  target: number;
+  startDate: string | null; // YYYY-MM-DD the goal started, when known
+  deadline: string | null; // YYYY-MM-DD
+  history: PacingPoint[]; // oldest first
+}
+
+/**
+ * Pacing for a goal. Fields are null when there isn't enough to go on.
+ */
+export interface GoalPacing {
+  daysLeft: number | null;
+  requiredPerDay: number | null;
+  currentPerDay: number | null;
+  projectedDate: string | null;
+  expectedValue: number | null; // where the goal should be today on a straight line to the deadline
+  status: PacingStatus | null;
+}
+
+/**
+ * How far the current rate can stray from the required rate and still count
+ * as on track
+ */
+export const PACE_TOLERANCE = 0.1;
+
+/**
+ * Only the most recent history is used for the current rate
+ */
+export const RATE_WINDOW_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Projections further out than this are reported as never
+const MAX_PROJECTION_DAYS = 365 * 10;
+
+const toDay = (date: string): number => Date.parse(`${date}T00:00:00Z`) / DAY_MS;
+
+const formatDay = (day: number): string => new Date(day * DAY_MS).toISOString().split('T')[0];
+
+/**
+ * Pull one goal type's values out of metrics snapshots
+ */
+export function getPacingHistory(snapshots: MetricsSnapshot[], goalType: GoalTypeKey): PacingPoint[] {
+  // Monthly tweets is a rate, which the running tweet count in snapshots doesn't track
+  if (goalType === 'tweets') return [];
+
+  return snapshots.flatMap(snapshot => {
+    const value = goalType === 'followers' ? snapshot.followersCount : snapshot.engagementRate;
+    return value === null ? [] : [{ date: snapshot.date, value }];
+  });
+}
+
+/**
+ * Average daily gain over the recent history, falling back to the gain since
+ * the goal started
+ */
+function getCurrentRate(input: GoalPacingInput, today: number): number | null {
+  const recent = input.history.filter(point => toDay(point.date) > today - RATE_WINDOW_DAYS);
+
+  if (recent.length >= 2) {
+    const first = recent[0];
+    const last = recent[recent.length - 1];
+    const days = toDay(last.date) - toDay(first.date);
+    if (days > 0) return (last.value - first.value) / days;
+  }
+
+  if (input.startDate) {
+    const days = today - toDay(input.startDate);
+    if (days >= 1) return (input.current - input.startValue) / days;
+  }
+
+  return null;
+}
+
+/**
+ * Compare a rate of progress to the rate that's needed
+ */
+function getStatus(actual: number, needed: number): PacingStatus {
+  if (needed <= 0) return actual > 0 ? 'ahead' : 'on-track';
+
+  const ratio = actual / needed;
+  if (ratio >= 1 + PACE_TOLERANCE) return 'ahead';
+  if (ratio >= 1 - PACE_TOLERANCE) return 'on-track';
+  return 'behind';
+}
+
+/**
+ * Calculate pacing for a goal as of `now`
+ */
+export function calculatePacing(input: GoalPacingInput, now: Date = new Date()): GoalPacing {
+  const { startValue, current, target, startDate, deadline } = input;
+  const today = toDay(now.toISOString().split('T')[0]);
+  const remaining = target - current;
+
+  const daysLeft = deadline ? toDay(deadline) - today : null;
+  const currentPerDay = getCurrentRate(input, today);
+
+  if (remaining <= 0) {
+    return { daysLeft, requiredPerDay: 0, currentPerDay, projectedDate: null, expectedValue: null, status: 'complete' };
+  }
+
+  const requiredPerDay = daysLeft !== null && daysLeft > 0 ? remaining / daysLeft : null;
+
+  const projectionDays = currentPerDay !== null && currentPerDay > 0 ? Math.ceil(remaining / currentPerDay) : null;
+  const projectedDate = projectionDays !== null && projectionDays <= MAX_PROJECTION_DAYS
+    ? formatDay(today + projectionDays)
+    : null;
+
+  let expectedValue: number | null = null;
+  if (startDate && deadline) {
+    const totalDays = toDay(deadline) - toDay(startDate);
+    const elapsed = Math.min(Math.max(today - toDay(startDate), 0), totalDays);
+    expectedValue = totalDays > 0 ? startValue + (target - startValue) * (elapsed / totalDays) : target;
+  }
+
+  let status: PacingStatus | null = null;
+  if (daysLeft !== null && daysLeft <= 0) {
+    status = 'behind';
+  } else if (requiredPerDay !== null && currentPerDay !== null) {
+    status = getStatus(currentPerDay, requiredPerDay);
+  } else if (expectedValue !== null) {
+    status = getStatus(current - startValue, expectedValue - startValue);
+  }
+
+  return { daysLeft, requiredPerDay, currentPerDay, projectedDate, expectedValue, status };
+}
@@ -0,0 +1,270 @@
+/**
+ * Growth Ring Configuration
+ *
+ * Goal type definitions, ring layouts, milestones and text overlay settings
+ * shared by the tool UI and the server-side ring renderer. Ring styles live in
+ * ringStyles.ts.
+ */
+
+import {
+  DEFAULT_WATERMARK,
+  type ActivityRing,
+  type RingBadgeArt,
+  type RingGoal,
+  type RingMilestone,
+  type RingTextPosition,
+} from './ringRenderer';
+
+/**
+ * Goal type definition (icons are attached by the UI)
+ */
+export interface GoalTypeDefinition extends RingGoal {
+  suffix?: string;
+  format: (val: number) => string;
+}
+
+/**
+ * Goal types
+ */
+export const GOAL_TYPES = {
+  followers: { label: 'Followers', color: '#1565C0', format: (val: number) => val.toLocaleString() },
+  engagement: { label: 'Engagement Rate', color: '#2E7D32', suffix: '%', format: (val: number) => val.toFixed(1) },
+  tweets: { label: 'Monthly Tweets', color: '#6A1B9A', format: (val: number) => val.toString() },
+} satisfies Record<string, GoalTypeDefinition>;
+
+export type GoalTypeKey = keyof typeof GOAL_TYPES;
+
+/**
+ * Check if a value is a known goal type
+ */
+export function isGoalType(value: string): value is GoalTypeKey {
+  return Object.prototype.hasOwnProperty.call(GOAL_TYPES, value);
+}
+
+/**
+ * Ring layout: one goal, or every goal as nested activity rings
+ */
+export type RingLayoutMode = 'single' | 'activity';
+
+/**
+ * Current/target values for one activity ring
+ */
+export interface GoalValues {
+  current: number;
+  target: number;
+}
+
+/**
+ * Starting values for the activity rings layout
+ */
+export const DEFAULT_ACTIVITY_GOALS: Record<GoalTypeKey, GoalValues> = {
+  followers: { current: 2500, target: 10000 },
+  engagement: { current: 2.5, target: 5 },
+  tweets: { current: 40, target: 100 },
+};
+
+/**
+ * Progress toward a target in percent, capped at 100 unless overflow laps
+ * are shown
+ */
+export function calculateProgress(current: number, target: number, overflow = false): number {
+  if (!(target > 0)) return 0;
+  const progress = (current / target) * 100;
+  return overflow ? progress : Math.min(progress, 100);
+}
+
+/**
+ * Build activity rings (outermost first) from per-goal values
+ */
+export function buildActivityRings(goals: Record<GoalTypeKey, GoalValues>, overflow = false): ActivityRing[] {
+  return (Object.keys(GOAL_TYPES) as GoalTypeKey[]).map(key => ({
+    goal: GOAL_TYPES[key],
+    progress: calculateProgress(goals[key].current, goals[key].target, overflow),
+  }));
+}
+
+/**
+ * Web-safe fonts offered for ring text
+ */
+export const RING_FONTS = ['Arial', 'Helvetica', 'Verdana', 'Trebuchet MS', 'Georgia', 'Courier New', 'Impact'];
+
+/**
+ * Text position labels
+ */
+export const RING_TEXT_POSITIONS: Record<RingTextPosition, string> = {
+  top: 'Top',
+  center: 'Center',
+  bottom: 'Bottom',
+};
+
+/**
+ * Paid tier flag; unlocks watermark removal and replacement.
+ * Read directly (not via lib/env) so client bundles can inline it.
+ */
+export const PAID_FEATURES_ENABLED = process.env.NEXT_PUBLIC_PAID_FEATURES === 'true';
+
+/**
+ * Profile image upload flag; shows "Set as my avatar" and allows scheduled
+ * refreshes that upload. Off by default: X only accepts profile image
+ * updates signed with OAuth 1.0a, which sign-in doesn't use yet.
+ */
+export const PROFILE_IMAGE_UPLOADS_ENABLED = process.env.NEXT_PUBLIC_PROFILE_IMAGE_UPLOADS === 'true';
+
+/**
+ * How the watermark is handled. Only 'default' is available unless paid
+ * features are enabled.
+ */
+export type WatermarkMode = 'default' | 'none' | 'custom';
+
+/**
+ * Text overlay settings edited in the tool
+ */
+export interface RingTextSettings {
+  label: string; // empty = goal label
+  showValues: boolean;
+  handle: string;
+  font: string;
+  position: RingTextPosition;
+  watermarkMode: WatermarkMode;
+  watermarkText: string;
+}
+
+/**
+ * Starting text overlay settings
+ */
+export const DEFAULT_TEXT_SETTINGS: RingTextSettings = {
+  label: '',
+  showValues: false,
+  handle: '',
+  font: 'Arial',
+  position: 'center',
+  watermarkMode: 'default',
+  watermarkText: '',
+};
+
+/**
+ * Normalize a user-entered handle to "@name", or '' when empty
+ */
+export function formatHandle(handle: string): string {
+  const name = handle.trim().replace(/^@+/, '');
+  return name ? `@${name}` : '';
+}
+
+/**
+ * Absolute progress text, e.g. "7,420 / 10,000"
+ */
+export function formatGoalValues(goal: GoalTypeDefinition, current: number, target: number): string {
+  return `${goal.format(current)} / ${goal.format(target)}${goal.suffix ?? ''}`;
+}
+
+/**
+ * Watermark text to draw, or null to hide it. Falls back to the default
+ * watermark when paid features are disabled.
+ */
+export function resolveWatermark(settings: RingTextSettings, paidFeaturesEnabled = PAID_FEATURES_ENABLED): string | null {
+  if (!paidFeaturesEnabled) return DEFAULT_WATERMARK;
+
+  switch (settings.watermarkMode) {
+    case 'none':
+      return null;
+    case 'custom':
+      return settings.watermarkText.trim() || DEFAULT_WATERMARK;
+    case 'default':
+      return DEFAULT_WATERMARK;
+  }
+}
+
+/**
+ * Milestones as percentages of the target, or as absolute goal values
+ * (e.g. 1K/5K/10K followers)
+ */
+export type MilestoneMode = 'none' | 'percent' | 'values';
+
+/**
+ * Milestone settings edited in the tool; lists are kept as typed text
+ */
+export interface MilestoneSettings {
+  mode: MilestoneMode;
+  percentList: string;
+  valueList: string;
+}
+
+/**
+ * Starting milestone settings
+ */
+export const DEFAULT_MILESTONE_SETTINGS: MilestoneSettings = {
+  mode: 'percent',
+  percentList: '25, 50, 75, 100',
+  valueList: '1000, 5000, 10000',
+};
+
+/**
+ * Milestone mode labels
+ */
+export const MILESTONE_MODES: Record<MilestoneMode, string> = {
+  none: 'None',
+  percent: 'Percent of target',
+  values: 'Round numbers',
+};
+
+/**
+ * Badge art tiers, lowest first; the last milestone always gets the top tier
+ */
+export const MILESTONE_BADGE_TIERS: RingBadgeArt[] = [
+  { symbol: '🥉', fill: '#CD7F32', stroke: '#8B4513' },
+  { symbol: '🥈', fill: '#C0C0C0', stroke: '#708090' },
+  { symbol: '🥇', fill: '#FFD700', stroke: '#FFA500' },
+  { symbol: '💎', fill: '#7FDBFF', stroke: '#0074D9' },
+];
+
+/**
+ * Parse a list like "1000, 5K, 2.5k" into sorted unique positive numbers
+ */
+export function parseMilestoneList(text: string): number[] {
+  const multipliers: Record<string, number> = { '': 1, k: 1_000, m: 1_000_000 };
+
+  const values = text
+    .split(/[\s,;]+/)
+    .map(part => part.trim().toLowerCase().replace(/%$/, ''))
+    .map(part => /^(\d+(?:\.\d+)?)([km]?)$/.exec(part))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map(match => parseFloat(match[1]) * multipliers[match[2]])
+    .filter(value => value > 0);
+
+  return [...new Set(values)].sort((a, b) => a - b);
+}
+
+/**
+ * Short milestone label, e.g. "5K" or "1.5M"
+ */
+export function formatMilestoneValue(goal: GoalTypeDefinition, value: number): string {
+  if (value >= 1000) {
+    return new Intl.NumberFormat('en', { notation: 'compact', maximumFractionDigits: 1 }).format(value);
+  }
+  return `${goal.format(value)}${goal.suffix ?? ''}`;
+}
+
+/**
+ * Build ring milestones for a goal. Value milestones above the target are
+ * dropped since they can't be placed on the ring.
+ */
+export function buildMilestones(settings: MilestoneSettings, goal: GoalTypeDefinition, target: number): RingMilestone[] {
+  let milestones: Omit<RingMilestone, 'badgeArt'>[] = [];
+
+  if (settings.mode === 'percent') {
+    milestones = parseMilestoneList(settings.percentList)
+      .filter(percent => percent <= 100)
+      .map(percent => ({ progress: percent, label: `${percent}%` }));
+  } else if (settings.mode === 'values' && target > 0) {
+    milestones = parseMilestoneList(settings.valueList)
+      .filter(value => value <= target)
+      .map(value => ({ progress: (value / target) * 100, label: formatMilestoneValue(goal, value) }));
+  }
+
+  const tiers = MILESTONE_BADGE_TIERS.length;
+
+  return milestones.map((milestone, index) => {
+    const fromTop = milestones.length - 1 - index;
+    return { ...milestone, badgeArt: MILESTONE_BADGE_TIERS[Math.max(tiers - 1 - fromTop, 0)] };
+  });
+}
@@ -0,0 +1,912 @@
+/**
+ * Growth Ring Renderer
+ *
+ * Draws the growth ring overlay (avatar, progress arc, labels, badge and
+ * watermark) onto any 2D canvas context. Has no dependency on React or the
+ * DOM so it can be shared by the tool UI and server-side rendering.
+ *
+ * Rings are designed at DEFAULT_RING_SIZE; export presets scale and place
+ * that design on larger canvases (banners, high-res avatars).
+ */
+
+/**
+ * Default canvas size in pixels
+ */
+export const DEFAULT_RING_SIZE = 400;
+
+/**
+ * Subset of the 2D context API used by the renderer
+ */
+export type RingCanvasContext = Pick<
+  CanvasRenderingContext2D,
+  | 'save'
+  | 'restore'
+  | 'beginPath'
+  | 'arc'
+  | 'moveTo'
+  | 'lineTo'
+  | 'clip'
+  | 'drawImage'
+  | 'fillRect'
+  | 'translate'
+  | 'scale'
+  | 'stroke'
+  | 'fill'
+  | 'strokeText'
+  | 'fillText'
+  | 'measureText'
+  | 'createLinearGradient'
+  | 'strokeStyle'
+  | 'fillStyle'
+  | 'lineWidth'
+  | 'lineCap'
+  | 'setLineDash'
+  | 'shadowColor'
+  | 'shadowBlur'
+  | 'font'
+  | 'textAlign'
+  | 'textBaseline'
+>;
+
+/**
+ * Any already-decoded image the context can draw
+ */
+export type RingImageSource = CanvasImageSource & { width: number; height: number };
+
+/**
+ * Square region of the source image shown inside the ring, in image pixels
+ */
+export interface RingCropRect {
+  x: number;
+  y: number;
+  size: number;
+}
+
+/**
+ * Goal appearance used for the progress arc and label
+ */
+export interface RingGoal {
+  label: string;
+  color: string;
+}
+
+/**
+ * Gradient stop along the progress arc
+ */
+export interface RingGradientStop {
+  offset: number; // 0-1
+  color?: string; // defaults to the goal color
+  opacity?: number; // 0-1, applied to hex colors
+}
+
+/**
+ * Badge drawn once a goal is reached
+ */
+export interface RingBadgeArt {
+  symbol: string;
+  fill: string;
+  stroke: string;
+}
+
+/**
+ * Ring style definition
+ */
+export interface RingStyle {
+  strokeWidth: number;
+  dashPattern?: number[];
+  gradientStops?: RingGradientStop[]; // solid goal color when omitted
+  glow?: { blur: number; color?: string }; // color defaults to the goal color
+  capStyle: 'butt' | 'round' | 'square';
+  trackColor: string;
+  font: string; // font family
+  badgeArt: RingBadgeArt;
+}
+
+/**
+ * Milestone marker on the progress track
+ */
+export interface RingMilestone {
+  progress: number; // 0-100 position on the ring
+  label: string; // e.g. "50%" or "5K"
+  badgeArt?: RingBadgeArt; // shown once this is the highest milestone reached
+}
+
+/**
+ * Where the text block sits inside the ring
+ */
+export type RingTextPosition = 'center' | 'top' | 'bottom';
+
+/**
+ * User text drawn over the avatar. Every field is optional; the defaults
+ * reproduce the plain percentage + goal label look.
+ */
+export interface RingTextOverlay {
+  label?: string; // replaces the goal label, empty string hides it
+  valueText?: string; // absolute values, e.g. "7,420 / 10,000"
+  handle?: string; // e.g. "@growthrings"
+  font?: string; // font family, defaults to the style's font
+  position?: RingTextPosition;
+  watermark?: string | null; // null hides the watermark
+}
+
+/**
+ * Watermark drawn unless the overlay replaces or removes it
+ */
+export const DEFAULT_WATERMARK = 'growthrings.app';
+
+/**
+ * Render options
+ */
+export interface RingRenderOptions {
+  image: RingImageSource;
+  progress: number; // 0-100
+  goal: RingGoal;
+  style: RingStyle;
+  crop?: RingCropRect; // centered square crop when omitted
+  text?: RingTextOverlay;
+  milestones?: RingMilestone[];
+  overflow?: boolean; // draw progress past 100% as extra laps
+  expectedProgress?: number; // 0-100 where the goal should be by now, drawn as a thin inner arc
+  size?: number;
+  glowScale?: number; // multiplier for glow styles, used to animate a pulse
+}
+
+/**
+ * One ring in the activity rings layout
+ */
+export interface ActivityRing {
+  goal: RingGoal;
+  progress: number; // 0-100
+}
+
+/**
+ * Activity rings render options
+ */
+export interface ActivityRingsRenderOptions {
+  image: RingImageSource;
+  rings: ActivityRing[]; // outermost first
+  style: RingStyle;
+  crop?: RingCropRect;
+  text?: RingTextOverlay; // label and valueText are ignored, each ring has its own
+  overflow?: boolean;
+  size?: number;
+  glowScale?: number;
+}
+
+/**
+ * Export canvas size
+ */
+export interface RingExportPreset {
+  label: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Text shown next to the ring on banner presets
+ */
+export interface RingExportCaption {
+  title: string;
+  subtitle?: string;
+  color: string; // accent color for the banner background
+  font: string; // font family
+}
+
+/**
+ * Draws a ring at DEFAULT_RING_SIZE; the export transform handles scaling
+ */
+export type DrawRing = (ctx: RingCanvasContext) => void;
+
+/**
+ * Platform export presets
+ */
+export const RING_EXPORT_PRESETS = {
+  'x-avatar': { label: 'X Avatar (400×400)', width: 400, height: 400 },
+  'x-avatar-hd': { label: 'X Avatar HD (800×800)', width: 800, height: 800 },
+  'x-header': { label: 'X Header (1500×500)', width: 1500, height: 500 },
+  'og-image': { label: 'Open Graph (1200×630)', width: 1200, height: 630 },
+  square: { label: 'Square (1080×1080)', width: 1080, height: 1080 },
+} satisfies Record<string, RingExportPreset>;
+
+export type RingExportPresetKey = keyof typeof RING_EXPORT_PRESETS;
+
+/**
+ * Where the ring and caption go on a preset canvas
+ */
+interface PresetLayout {
+  ringX: number;
+  ringY: number;
+  ringSize: number;
+  caption?: {
+    x: number;
+    y: number;
+    maxWidth: number;
+    align: 'left' | 'right';
+    titleSize: number;
+    subtitleSize: number;
+  };
+}
+
+/**
+ * Serializable description of a single or activity ring render, so a
+ * render can be posted to a worker and replayed there
+ */
+export type RingRenderJob =
+  | ({ layout: 'single' } & Omit<RingRenderOptions, 'image'>)
+  | ({ layout: 'activity' } & Omit<ActivityRingsRenderOptions, 'image'>);
+
+/**
+ * Space between nested activity rings
+ */
+const ACTIVITY_RING_GAP = 4;
+
+/**
+ * Overflow rendering: highest progress drawn, and how much each extra lap is
+ * brightened toward white
+ */
+export const MAX_OVERFLOW_PROGRESS = 999;
+const LAP_BRIGHTEN_STEP = 0.35;
+const MAX_LAP_BRIGHTEN = 0.7;
+
+/**
+ * Expected progress arc: width, gap inside the progress track, and color
+ */
+const EXPECTED_ARC_WIDTH = 3;
+const EXPECTED_ARC_GAP = 5;
+const EXPECTED_ARC_COLOR = 'rgba(255, 255, 255, 0.85)';
+
+/**
+ * Ring geometry derived from the canvas size
+ */
+interface RingLayout {
+  size: number;
+  centerX: number;
+  centerY: number;
+  radius: number;
+  lineWidth: number;
+}
+
+/**
+ * Clamp progress to the range 0 to `max`: 100 normally, higher when
+ * progress past the goal is drawn as extra laps. Non-finite values become 0.
+ */
+export function clampProgress(progress: number, max = 100): number {
+  if (!Number.isFinite(progress)) return 0;
+  return Math.min(Math.max(progress, 0), max);
+}
+
+/**
+ * Render the full growth ring onto a 2D context.
+ *
+ * The context is expected to belong to a canvas of `size` x `size` pixels.
+ * Throws if the image is empty or cannot be drawn.
+ */
+export function renderGrowthRing(ctx: RingCanvasContext, options: RingRenderOptions): void {
+  const { image, goal, style, text = {}, glowScale = 1 } = options;
+  const size = options.size ?? DEFAULT_RING_SIZE;
+  const progress = clampProgress(options.progress, options.overflow ? MAX_OVERFLOW_PROGRESS : 100);
+  const milestones = [...(options.milestones ?? [])].sort((a, b) => a.progress - b.progress);
+  const reached = milestones.filter(milestone => progress >= milestone.progress);
+  const badgeArt = reached.length > 0 ? reached[reached.length - 1].badgeArt : undefined;
+
+  assertImageLoaded(image);
+
+  const layout = createLayout(size, style);
+
+  drawAvatar(ctx, image, layout, options.crop);
+  drawTrack(ctx, layout, style);
+  drawProgressArc(ctx, layout, progress, goal, style, glowScale);
+  if (options.expectedProgress !== undefined) {
+    drawExpectedArc(ctx, layout, clampProgress(options.expectedProgress));
+  }
+  drawMilestoneTicks(ctx, layout, progress, milestones, style);
+  drawLabels(ctx, layout, progress, goal, style, text, getNextMilestone(progress, milestones));
+
+  if (badgeArt || progress >= 100) {
+    drawAchievementBadge(ctx, layout, style, badgeArt);
+  }
+
+  drawWatermark(ctx, layout, style, text);
+}
+
+/**
+ * Render concentric "activity rings", one per goal, with a compact legend.
+ *
+ * The first ring is drawn outermost; the avatar shrinks to fit inside the
+ * innermost ring. Throws if the image is empty or cannot be drawn.
+ */
+export function renderActivityRings(ctx: RingCanvasContext, options: ActivityRingsRenderOptions): void {
+  const { image, style, text = {}, glowScale = 1 } = options;
+  const size = options.size ?? DEFAULT_RING_SIZE;
+  const maxProgress = options.overflow ? MAX_OVERFLOW_PROGRESS : 100;
+  const rings = options.rings.map(ring => ({ ...ring, progress: clampProgress(ring.progress, maxProgress) }));
+
+  assertImageLoaded(image);
+
+  if (rings.length === 0) {
+    throw new Error('At least one ring is required.');
+  }
+
+  const outer = createLayout(size, style);
+  const layouts = rings.map((_, index) => ({
+    ...outer,
+    radius: outer.radius - index * (outer.lineWidth + ACTIVITY_RING_GAP),
+  }));
+
+  drawAvatar(ctx, image, layouts[layouts.length - 1], options.crop);
+
+  rings.forEach((ring, index) => {
+    drawTrack(ctx, layouts[index], style);
+    drawProgressArc(ctx, layouts[index], ring.progress, ring.goal, style, glowScale);
+  });
+
+  drawLegend(ctx, outer, rings, style, text);
+
+  if (rings.every(ring => ring.progress >= 100)) {
+    drawAchievementBadge(ctx, outer, style);
+  }
+
+  drawWatermark(ctx, outer, style, text);
+}
+
+/**
+ * Render a ring job with the matching layout
+ */
+export function renderRingJob(ctx: RingCanvasContext, image: RingImageSource, job: RingRenderJob): void {
+  if (job.layout === 'activity') {
+    renderActivityRings(ctx, { ...job, image });
+  } else {
+    renderGrowthRing(ctx, { ...job, image });
+  }
+}
+
+/**
+ * Next unreached milestone and how far along the way to it the progress is
+ * (0-1, measured from the previous milestone), or null once all are reached
+ */
+export function getNextMilestone(
+  progress: number,
+  milestones: RingMilestone[]
+): { milestone: RingMilestone; fraction: number } | null {
+  const sorted = [...milestones].sort((a, b) => a.progress - b.progress);
+  const index = sorted.findIndex(milestone => progress < milestone.progress);
+  if (index === -1) return null;
+
+  const start = index > 0 ? sorted[index - 1].progress : 0;
+  const span = sorted[index].progress - start;
+
+  return {
+    milestone: sorted[index],
+    fraction: span > 0 ? Math.min(Math.max((progress - start) / span, 0), 1) : 0,
+  };
+}
+
+/**
+ * Check if a value is an export preset key
+ */
+export function isRingExportPreset(value: string): value is RingExportPresetKey {
+  return Object.prototype.hasOwnProperty.call(RING_EXPORT_PRESETS, value);
+}
+
+/**
+ * Render a ring onto a preset-sized canvas.
+ *
+ * Avatar presets scale the ring to fill the canvas. Banner presets (X header,
+ * Open Graph) paint a background, place the ring and draw the caption beside it.
+ */
+export function renderRingExport(
+  ctx: RingCanvasContext,
+  presetKey: RingExportPresetKey,
+  drawRing: DrawRing,
+  caption: RingExportCaption
+): void {
+  const preset = RING_EXPORT_PRESETS[presetKey];
+  const layout = getPresetLayout(presetKey);
+
+  if (layout.caption) {
+    drawBannerBackground(ctx, preset, caption.color);
+  }
+
+  ctx.save();
+  ctx.translate(layout.ringX, layout.ringY);
+  ctx.scale(layout.ringSize / DEFAULT_RING_SIZE, layout.ringSize / DEFAULT_RING_SIZE);
+  try {
+    drawRing(ctx);
+  } finally {
+    ctx.restore();
+  }
+
+  if (layout.caption) {
+    drawCaption(ctx, layout.caption, caption);
+  }
+}
+
+/**
+ * Layout rules for each preset
+ */
+function getPresetLayout(presetKey: RingExportPresetKey): PresetLayout {
+  const { width, height } = RING_EXPORT_PRESETS[presetKey];
+
+  switch (presetKey) {
+    case 'x-avatar':
+    case 'x-avatar-hd':
+    case 'square':
+      return { ringX: 0, ringY: 0, ringSize: Math.min(width, height) };
+
+    case 'x-header':
+      // X overlaps the profile photo on the bottom-left of the header, so
+      // the ring sits on the right with the caption to its left
+      return {
+        ringX: width - 440,
+        ringY: 60,
+        ringSize: 380,
+        caption: { x: width - 500, y: height / 2 - 30, maxWidth: 700, align: 'right', titleSize: 76, subtitleSize: 32 },
+      };
+
+    case 'og-image':
+      return {
+        ringX: 60,
+        ringY: (height - 510) / 2,
+        ringSize: 510,
+        caption: { x: 630, y: height / 2, maxWidth: width - 690, align: 'left', titleSize: 80, subtitleSize: 34 },
+      };
+  }
+}
+
+/**
+ * Dark banner with a wash of the accent color
+ */
+function drawBannerBackground(ctx: RingCanvasContext, preset: RingExportPreset, color: string): void {
+  ctx.fillStyle = '#0F172A';
+  ctx.fillRect(0, 0, preset.width, preset.height);
+
+  const wash = ctx.createLinearGradient(0, 0, preset.width, preset.height);
+  wash.addColorStop(0, withOpacity(color, 0.55));
+  wash.addColorStop(1, withOpacity(color, 0.1));
+  ctx.fillStyle = wash;
+  ctx.fillRect(0, 0, preset.width, preset.height);
+}
+
+/**
+ * Largest font size up to `maxSize` that fits the text in `maxWidth`
+ */
+function fitFont(ctx: RingCanvasContext, text: string, weight: string, maxSize: number, maxWidth: number, font: string): void {
+  let fontSize = maxSize;
+  ctx.font = `${weight} ${fontSize}px ${font}`;
+
+  while (fontSize > 12 && ctx.measureText(text).width > maxWidth) {
+    fontSize -= 2;
+    ctx.font = `${weight} ${fontSize}px ${font}`;
+  }
+}
+
+/**
+ * Title and subtitle beside the ring on banner presets
+ */
+function drawCaption(ctx: RingCanvasContext, layout: NonNullable<PresetLayout['caption']>, caption: RingExportCaption): void {
+  const { x, y, maxWidth, align, titleSize, subtitleSize } = layout;
+
+  ctx.textAlign = align;
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = '#FFFFFF';
+
+  fitFont(ctx, caption.title, 'bold', titleSize, maxWidth, caption.font);
+  ctx.fillText(caption.title, x, caption.subtitle ? y - subtitleSize : y);
+
+  if (caption.subtitle) {
+    fitFont(ctx, caption.subtitle, 'normal', subtitleSize, maxWidth, caption.font);
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.75)';
+    ctx.fillText(caption.subtitle, x, y + titleSize / 2);
+  }
+}
+
+/**
+ * Reject images that failed to decode
+ */
+function assertImageLoaded(image: RingImageSource): void {
+  if (image.width === 0 || image.height === 0) {
+    throw new Error('Invalid image loaded. Please try a different image.');
+  }
+}
+
+/**
+ * Outer ring geometry for a canvas size
+ */
+function createLayout(size: number, style: RingStyle): RingLayout {
+  return {
+    size,
+    centerX: size / 2,
+    centerY: size / 2,
+    radius: size / 2 - 20,
+    lineWidth: style.strokeWidth,
+  };
+}
+
+/**
+ * Apply an opacity to a #RRGGBB color; other color formats are returned as-is
+ */
+function withOpacity(color: string, opacity: number | undefined): string {
+  if (opacity === undefined || !/^#[0-9a-f]{6}$/i.test(color)) return color;
+
+  const alpha = Math.round(Math.min(Math.max(opacity, 0), 1) * 255);
+  return color + alpha.toString(16).padStart(2, '0');
+}
+
+/**
+ * Largest centered square that fits in the image
+ */
+export function getCenteredCrop(imageWidth: number, imageHeight: number): RingCropRect {
+  const size = Math.min(imageWidth, imageHeight);
+  return {
+    x: (imageWidth - size) / 2,
+    y: (imageHeight - size) / 2,
+    size,
+  };
+}
+
+/**
+ * Avatar clipped to a circle inside the ring. The crop square is fitted to
+ * the circle, so the crop preview matches what ends up in the ring.
+ */
+function drawAvatar(
+  ctx: RingCanvasContext,
+  image: RingImageSource,
+  layout: RingLayout,
+  crop: RingCropRect = getCenteredCrop(image.width, image.height)
+): void {
+  const { centerX, centerY, radius, lineWidth } = layout;
+  const avatarRadius = radius - lineWidth / 2;
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.arc(centerX, centerY, avatarRadius, 0, 2 * Math.PI);
+  ctx.clip();
+
+  try {
+    ctx.drawImage(
+      image,
+      crop.x,
+      crop.y,
+      crop.size,
+      crop.size,
+      centerX - avatarRadius,
+      centerY - avatarRadius,
+      avatarRadius * 2,
+      avatarRadius * 2
+    );
+  } catch {
+    throw new Error('Failed to draw image on canvas. The image may be corrupted.');
+  } finally {
+    ctx.restore();
+  }
+}
+
+/**
+ * Background ring
+ */
+function drawTrack(ctx: RingCanvasContext, layout: RingLayout, style: RingStyle): void {
+  const { centerX, centerY, radius, lineWidth } = layout;
+
+  ctx.beginPath();
+  ctx.arc(centerX, centerY, radius, 0, 2 * Math.PI);
+  ctx.strokeStyle = style.trackColor;
+  ctx.lineWidth = lineWidth;
+  ctx.stroke();
+}
+
+/**
+ * Mix a hex color toward white; other color formats are returned unchanged
+ */
+function brighten(color: string, amount: number): string {
+  if (amount <= 0 || !/^#[0-9a-f]{6}$/i.test(color)) return color;
+
+  const channels = [1, 3, 5].map(index => {
+    const value = parseInt(color.slice(index, index + 2), 16);
+    return Math.round(value + (255 - value) * Math.min(amount, 1));
+  });
+
+  return '#' + channels.map(value => value.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Progress arc, with anything past 100% drawn as further laps on top in
+ * brighter shades
+ */
+function drawProgressArc(
+  ctx: RingCanvasContext,
+  layout: RingLayout,
+  progress: number,
+  goal: RingGoal,
+  style: RingStyle,
+  glowScale: number
+): void {
+  const laps = Math.max(Math.ceil(progress / 100), 1);
+
+  for (let lap = 0; lap < laps; lap++) {
+    const shade = Math.min(lap * LAP_BRIGHTEN_STEP, MAX_LAP_BRIGHTEN);
+    drawProgressLap(ctx, layout, Math.min(progress - lap * 100, 100), goal, style, glowScale, shade);
+  }
+}
+
+/**
+ * One lap of the progress arc
+ */
+function drawProgressLap(
+  ctx: RingCanvasContext,
+  layout: RingLayout,
+  progress: number,
+  goal: RingGoal,
+  style: RingStyle,
+  glowScale: number,
+  shade: number
+): void {
+  const { size, centerX, centerY, radius, lineWidth } = layout;
+  const startAngle = -Math.PI / 2;
+  const endAngle = startAngle + (progress / 100) * 2 * Math.PI;
+  const color = brighten(goal.color, shade);
+
+  ctx.beginPath();
+  if (progress >= 100) {
+    // Full circle from 0 - some canvas backends drop a full sweep starting at -PI/2
+    ctx.arc(centerX, centerY, radius, 0, 2 * Math.PI);
+  } else {
+    ctx.arc(centerX, centerY, radius, startAngle, endAngle);
+  }
+
+  if (style.gradientStops && style.gradientStops.length > 0) {
+    const gradient = ctx.createLinearGradient(0, 0, size, size);
+    style.gradientStops.forEach(stop => {
+      gradient.addColorStop(stop.offset, withOpacity(brighten(stop.color ?? goal.color, shade), stop.opacity));
+    });
+    ctx.strokeStyle = gradient;
+  } else {
+    ctx.strokeStyle = color;
+  }
+
+  ctx.lineWidth = lineWidth;
+  ctx.lineCap = style.capStyle;
+  ctx.setLineDash(style.dashPattern ?? []);
+
+  if (style.glow) {
+    ctx.shadowColor = style.glow.color ?? color;
+    ctx.shadowBlur = style.glow.blur * glowScale;
+  }
+
+  ctx.stroke();
+  ctx.shadowBlur = 0;
+  ctx.setLineDash([]);
+}
+
+/**
+ * Thin arc just inside the track showing where progress should be on the
+ * way to the deadline
+ */
+function drawExpectedArc(ctx: RingCanvasContext, layout: RingLayout, expectedProgress: number): void {
+  if (expectedProgress <= 0) return;
+
+  const { centerX, centerY, radius, lineWidth } = layout;
+  const arcRadius = radius - lineWidth / 2 - EXPECTED_ARC_GAP;
+  const startAngle = -Math.PI / 2;
+
+  ctx.beginPath();
+  if (expectedProgress >= 100) {
+    ctx.arc(centerX, centerY, arcRadius, 0, 2 * Math.PI);
+  } else {
+    ctx.arc(centerX, centerY, arcRadius, startAngle, startAngle + (expectedProgress / 100) * 2 * Math.PI);
+  }
+  ctx.strokeStyle = EXPECTED_ARC_COLOR;
+  ctx.lineWidth = EXPECTED_ARC_WIDTH;
+  ctx.lineCap = 'round';
+  ctx.stroke();
+}
+
+/**
+ * One line of outlined text in a text block
+ */
+interface TextLine {
+  text: string;
+  size: number;
+  outline: number;
+  gapBefore: number; // distance from the previous line's center
+}
+
+/**
+ * Small secondary line (label, values, handle)
+ */
+function smallLine(text: string, gapBefore: number): TextLine {
+  return { text, size: 14, outline: 3, gapBefore };
+}
+
+/**
+ * Center of the first line of a text block spanning `span` pixels
+ */
+function getTextBlockTop(layout: RingLayout, span: number, position: RingTextPosition): number {
+  const { centerY, radius } = layout;
+
+  switch (position) {
+    case 'top':
+      return centerY - radius * 0.55;
+    case 'bottom':
+      return centerY + radius * 0.55 - span;
+    case 'center':
+      // Sits slightly below center, as the original percentage + label did
+      return centerY + 25 - span / 2;
+  }
+}
+
+/**
+ * Draw outlined white text lines, stacked from `top`
+ */
+function drawTextLines(ctx: RingCanvasContext, lines: TextLine[], x: number, top: number, font: string): void {
+  let y = top;
+
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  lines.forEach((line, index) => {
+    if (index > 0) y += line.gapBefore;
+
+    ctx.font = `bold ${line.size}px ${font}`;
+    ctx.strokeStyle = '#000000';
+    ctx.lineWidth = line.outline;
+    ctx.strokeText(line.text, x, y);
+
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillText(line.text, x, y);
+  });
+}
+
+/**
+ * Percentage text, goal label, next milestone and any user text
+ */
+function drawLabels(
+  ctx: RingCanvasContext,
+  layout: RingLayout,
+  progress: number,
+  goal: RingGoal,
+  style: RingStyle,
+  text: RingTextOverlay,
+  next: ReturnType<typeof getNextMilestone>
+): void {
+  const label = text.label ?? goal.label;
+  const lines: TextLine[] = [{ text: `${Math.round(progress)}%`, size: 28, outline: 6, gapBefore: 0 }];
+  const addLine = (value: string) => lines.push(smallLine(value, lines.length === 1 ? 30 : 20));
+
+  if (label) addLine(label.toUpperCase());
+  if (text.valueText) addLine(text.valueText);
+  if (next) addLine(`NEXT: ${next.milestone.label} · ${Math.round(next.fraction * 100)}%`);
+  if (text.handle) addLine(text.handle);
+
+  const span = lines.reduce((total, line, index) => (index > 0 ? total + line.gapBefore : total), 0);
+  const top = getTextBlockTop(layout, span, text.position ?? 'center');
+
+  drawTextLines(ctx, lines, layout.centerX, top, text.font ?? style.font);
+}
+
+/**
+ * Compact legend listing each ring's percentage and label
+ */
+function drawLegend(
+  ctx: RingCanvasContext,
+  layout: RingLayout,
+  rings: ActivityRing[],
+  style: RingStyle,
+  text: RingTextOverlay
+): void {
+  const { centerX } = layout;
+  const font = text.font ?? style.font;
+  const lineHeight = 22;
+  const dotRadius = 5;
+  const dotGap = 8;
+  const lines = rings.map(ring => `${Math.round(ring.progress)}% ${ring.goal.label.toUpperCase()}`);
+  const span = (rings.length - 1) * lineHeight + (text.handle ? lineHeight : 0);
+
+  ctx.font = `bold 14px ${font}`;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+
+  const textWidth = Math.max(...lines.map(line => ctx.measureText(line).width));
+  const left = centerX - (dotRadius * 2 + dotGap + textWidth) / 2;
+  const position = text.position ?? 'center';
+  // Unlike the percentage block, the legend is centered exactly
+  const top = getTextBlockTop(layout, span, position) - (position === 'center' ? 25 : 0);
+
+  rings.forEach((ring, index) => {
+    const y = top + index * lineHeight;
+    const textX = left + dotRadius * 2 + dotGap;
+
+    ctx.beginPath();
+    ctx.arc(left + dotRadius, y, dotRadius, 0, 2 * Math.PI);
+    ctx.fillStyle = ring.goal.color;
+    ctx.fill();
+    ctx.strokeStyle = '#FFFFFF';
+    ctx.lineWidth = 1.5;
+    ctx.stroke();
+
+    ctx.strokeStyle = '#000000';
+    ctx.lineWidth = 3;
+    ctx.strokeText(lines[index], textX, y);
+
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillText(lines[index], textX, y);
+  });
+
+  if (text.handle) {
+    drawTextLines(ctx, [smallLine(text.handle, 0)], centerX, top + rings.length * lineHeight, font);
+  }
+}
+
+/**
+ * Tick marks across the track; reached milestones take their badge color
+ */
+function drawMilestoneTicks(
+  ctx: RingCanvasContext,
+  layout: RingLayout,
+  progress: number,
+  milestones: RingMilestone[],
+  style: RingStyle
+): void {
+  const { centerX, centerY, radius, lineWidth } = layout;
+  const inner = radius - lineWidth / 2 - 3;
+  const outer = radius + lineWidth / 2 + 3;
+
+  milestones.forEach(milestone => {
+    const angle = -Math.PI / 2 + (clampProgress(milestone.progress) / 100) * 2 * Math.PI;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const reached = progress >= milestone.progress;
+
+    ctx.beginPath();
+    ctx.moveTo(centerX + inner * cos, centerY + inner * sin);
+    ctx.lineTo(centerX + outer * cos, centerY + outer * sin);
+    ctx.strokeStyle = reached ? (milestone.badgeArt ?? style.badgeArt).fill : 'rgba(128, 128, 128, 0.8)';
+    ctx.lineWidth = reached ? 4 : 2;
+    ctx.lineCap = 'round';
+    ctx.stroke();
+  });
+}
+
+/**
+ * Badge shown for the highest milestone reached, or the style's trophy once
+ * the goal is reached
+ */
+function drawAchievementBadge(
+  ctx: RingCanvasContext,
+  layout: RingLayout,
+  style: RingStyle,
+  badgeArt: RingBadgeArt = style.badgeArt
+): void {
+  const { centerX, centerY, radius } = layout;
+  const badgeSize = 70;
+  const badgeX = centerX + radius - badgeSize / 2;
+  const badgeY = centerY - badgeSize / 2;
+
+  ctx.beginPath();
+  ctx.arc(badgeX, badgeY, badgeSize / 2, 0, 2 * Math.PI);
+  ctx.fillStyle = badgeArt.fill;
+  ctx.fill();
+  ctx.strokeStyle = badgeArt.stroke;
+  ctx.lineWidth = 3;
+  ctx.stroke();
+
+  ctx.fillStyle = '#FF6B35';
+  ctx.font = `bold 28px ${style.font}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(badgeArt.symbol, badgeX, badgeY);
+}
+
+/**
+ * Watermark in the bottom-right corner
+ */
+function drawWatermark(ctx: RingCanvasContext, layout: RingLayout, style: RingStyle, text: RingTextOverlay): void {
+  const { size } = layout;
+  const watermark = text.watermark === undefined ? DEFAULT_WATERMARK : text.watermark;
+
+  if (!watermark) return;
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+  ctx.font = `10px ${text.font ?? style.font}`;
+  ctx.textAlign = 'right';
+  ctx.fillText(watermark, size - 10, size - 10);
+}
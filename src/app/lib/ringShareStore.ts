@@ -0,0 +1,77 @@
+/**
+ * Shared Ring Store
+ *
+ * Saves ring configurations under short IDs for /r/[id] permalinks, in the
+ * configured server storage. Anyone can create one, so creation is limited
+ * per client IP.
+ */
+
+import { randomBytes } from 'crypto';
+import { checkClientRateLimit, type ClientRateLimit } from './clientRateLimit';
+import type { ServerRingOptions } from './serverRing';
+import { getStorage } from './storage';
+
+/**
+ * A saved ring configuration
+ */
+export interface SharedRing {
+  id: string;
+  createdAt: string;
+  options: ServerRingOptions;
+}
+
+/**
+ * Share links each client IP may create per window
+ */
+export const SHARE_RATE_LIMIT = {
+  MAX_REQUESTS: 20,
+  WINDOW_MS: 60 * 60 * 1000,
+} as const satisfies ClientRateLimit;
+
+/**
+ * Share IDs are 8 URL-safe characters
+ */
+const SHARE_ID_PATTERN = /^[A-Za-z0-9_-]{8}$/;
+
+/**
+ * Check if a value is shaped like a share ID
+ */
+export function isShareId(value: string): boolean {
+  return SHARE_ID_PATTERN.test(value);
+}
+
+/**
+ * Count a share link from an IP. Returns when its window resets if the IP
+ * is over the limit, otherwise null.
+ */
+export function checkShareRateLimit(ip: string, now: number = Date.now()): Date | null {
+  return checkClientRateLimit('share', ip, SHARE_RATE_LIMIT, now);
+}
+
+/**
+ * Save a ring configuration under a new short ID
+ */
+export async function saveSharedRing(options: ServerRingOptions): Promise<SharedRing> {
+  // 48 random bits; retry on the rare collision instead of overwriting
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const ring: SharedRing = {
+      id: randomBytes(6).toString('base64url'),
+      createdAt: new Date().toISOString(),
+      options,
+    };
+
+    if (await getStorage().createSharedRing(ring)) {
+      return ring;
+    }
+  }
+
+  throw new Error('Failed to allocate a share ID. Please try again.');
+}
+
+/**
+ * Load a shared ring, or null when the ID is unknown
+ */
+export async function getSharedRing(id: string): Promise<SharedRing | null> {
+  if (!isShareId(id)) return null;
+  return getStorage().getSharedRing(id);
+}
@@ -0,0 +1,269 @@
+/**
+ * Ring Style Registry
+ *
+ * Built-in ring styles plus validation and JSON import/export for
+ * user-defined themes. Custom themes are persisted by the client
+ * (see hooks/useRingStyles).
+ */
+
+import type { RingStyle } from './ringRenderer';
+
+/**
+ * Named ring style
+ */
+export interface RingStyleDefinition extends RingStyle {
+  name: string;
+}
+
+/**
+ * JSON format for exported themes
+ */
+export interface RingStyleExport {
+  version: 1;
+  styles: Record<string, RingStyleDefinition>;
+}
+
+const DEFAULT_BADGE_ART = { symbol: '🏆', fill: '#FFD700', stroke: '#FFA500' };
+
+/**
+ * Built-in ring styles
+ */
+export const BUILT_IN_RING_STYLES = {
+  classic: {
+    name: 'Classic Ring',
+    strokeWidth: 10,
+    capStyle: 'round',
+    trackColor: 'rgba(255, 255, 255, 0.3)',
+    font: 'Arial',
+    badgeArt: DEFAULT_BADGE_ART,
+  },
+  gradient: {
+    name: 'Gradient Glow',
+    strokeWidth: 10,
+    gradientStops: [{ offset: 0 }, { offset: 1, opacity: 0.5 }],
+    capStyle: 'round',
+    trackColor: 'rgba(255, 255, 255, 0.3)',
+    font: 'Arial',
+    badgeArt: DEFAULT_BADGE_ART,
+  },
+  neon: {
+    name: 'Neon Pulse',
+    strokeWidth: 10,
+    gradientStops: [{ offset: 0 }, { offset: 1, opacity: 0.5 }],
+    glow: { blur: 15 },
+    capStyle: 'round',
+    trackColor: 'rgba(255, 255, 255, 0.3)',
+    font: 'Arial',
+    badgeArt: DEFAULT_BADGE_ART,
+  },
+} satisfies Record<string, RingStyleDefinition>;
+
+export type BuiltInRingStyleKey = keyof typeof BUILT_IN_RING_STYLES;
+
+/**
+ * Prefix for user-defined style IDs, keeps them apart from built-ins
+ */
+export const CUSTOM_STYLE_PREFIX = 'custom-';
+
+/**
+ * Check if a value is a built-in ring style
+ */
+export function isBuiltInRingStyle(value: string): value is BuiltInRingStyleKey {
+  return Object.prototype.hasOwnProperty.call(BUILT_IN_RING_STYLES, value);
+}
+
+/**
+ * Check if a style ID belongs to a custom theme
+ */
+export function isCustomStyleId(id: string): boolean {
+  return id.startsWith(CUSTOM_STYLE_PREFIX);
+}
+
+/**
+ * Create a unique custom style ID from a theme name
+ */
+export function createCustomStyleId(name: string, existingIds: string[]): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'theme';
+  let id = `${CUSTOM_STYLE_PREFIX}${slug}`;
+  let suffix = 2;
+
+  while (existingIds.includes(id)) {
+    id = `${CUSTOM_STYLE_PREFIX}${slug}-${suffix++}`;
+  }
+
+  return id;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isNonEmptyString(value: unknown, maxLength: number): value is string {
+  return typeof value === 'string' && value.trim().length > 0 && value.length <= maxLength;
+}
+
+/**
+ * Validate an untrusted value (e.g. imported JSON) as a ring style.
+ * Throws an Error naming the first invalid field.
+ */
+export function validateRingStyle(input: unknown): RingStyleDefinition {
+  if (!isRecord(input)) {
+    throw new Error('Invalid ring style: expected an object');
+  }
+
+  const {
+    name,
+    strokeWidth,
+    dashPattern,
+    gradientStops,
+    glow,
+    capStyle,
+    trackColor,
+    font,
+    badgeArt,
+  } = input;
+
+  if (!isNonEmptyString(name, 50)) {
+    throw new Error('Invalid ring style: name must be 1-50 characters');
+  }
+
+  if (!isFiniteNumber(strokeWidth) || strokeWidth < 1 || strokeWidth > 40) {
+    throw new Error('Invalid ring style: strokeWidth must be between 1 and 40');
+  }
+
+  if (
+    dashPattern !== undefined &&
+    (!Array.isArray(dashPattern) ||
+      dashPattern.length > 8 ||
+      !dashPattern.every(segment => isFiniteNumber(segment) && segment >= 0 && segment <= 100))
+  ) {
+    throw new Error('Invalid ring style: dashPattern must be up to 8 numbers between 0 and 100');
+  }
+
+  if (gradientStops !== undefined) {
+    if (!Array.isArray(gradientStops) || gradientStops.length > 8) {
+      throw new Error('Invalid ring style: gradientStops must be an array of up to 8 stops');
+    }
+
+    gradientStops.forEach(stop => {
+      if (
+        !isRecord(stop) ||
+        !isFiniteNumber(stop.offset) ||
+        stop.offset < 0 ||
+        stop.offset > 1 ||
+        (stop.color !== undefined && !isNonEmptyString(stop.color, 50)) ||
+        (stop.opacity !== undefined && (!isFiniteNumber(stop.opacity) || stop.opacity < 0 || stop.opacity > 1))
+      ) {
+        throw new Error('Invalid ring style: each gradient stop needs an offset between 0 and 1');
+      }
+    });
+  }
+
+  if (
+    glow !== undefined &&
+    (!isRecord(glow) ||
+      !isFiniteNumber(glow.blur) ||
+      glow.blur < 0 ||
+      glow.blur > 50 ||
+      (glow.color !== undefined && !isNonEmptyString(glow.color, 50)))
+  ) {
+    throw new Error('Invalid ring style: glow.blur must be between 0 and 50');
+  }
+
+  if (capStyle !== 'butt' && capStyle !== 'round' && capStyle !== 'square') {
+    throw new Error('Invalid ring style: capStyle must be butt, round or square');
+  }
+
+  if (!isNonEmptyString(trackColor, 50)) {
+    throw new Error('Invalid ring style: trackColor is required');
+  }
+
+  // Font families end up inside a CSS font shorthand, so keep them simple
+  if (!isNonEmptyString(font, 50) || !/^[\w\s,'"-]+$/.test(font)) {
+    throw new Error('Invalid ring style: font must be a font family name');
+  }
+
+  if (
+    !isRecord(badgeArt) ||
+    !isNonEmptyString(badgeArt.symbol, 8) ||
+    !isNonEmptyString(badgeArt.fill, 50) ||
+    !isNonEmptyString(badgeArt.stroke, 50)
+  ) {
+    throw new Error('Invalid ring style: badgeArt needs a symbol, fill and stroke');
+  }
+
+  return {
+    name: name.trim(),
+    strokeWidth,
+    ...(dashPattern !== undefined && { dashPattern: dashPattern as number[] }),
+    ...(gradientStops !== undefined && { gradientStops: gradientStops as RingStyleDefinition['gradientStops'] }),
+    ...(glow !== undefined && { glow: glow as RingStyleDefinition['glow'] }),
+    capStyle,
+    trackColor,
+    font,
+    badgeArt: { symbol: badgeArt.symbol, fill: badgeArt.fill, stroke: badgeArt.stroke },
+  };
+}
+
+/**
+ * Serialize custom styles to the JSON export format
+ */
+export function exportRingStyles(styles: Record<string, RingStyleDefinition>): string {
+  const data: RingStyleExport = { version: 1, styles };
+  return JSON.stringify(data, null, 2);
+}
+
+// The styles of an exported themes document, not yet validated
+function parseRingStyleExport(json: string): Record<string, unknown> {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Invalid theme file: not valid JSON');
+  }
+
+  if (!isRecord(data) || data.version !== 1 || !isRecord(data.styles)) {
+    throw new Error('Invalid theme file: expected { "version": 1, "styles": { ... } }');
+  }
+
+  return data.styles;
+}
+
+/**
+ * Parse and validate an exported themes JSON document
+ */
+export function importRingStyles(json: string): Record<string, RingStyleDefinition> {
+  const styles: Record<string, RingStyleDefinition> = {};
+  Object.entries(parseRingStyleExport(json)).forEach(([id, style]) => {
+    styles[id] = validateRingStyle(style);
+  });
+
+  return styles;
+}
+
+/**
+ * Parse an exported themes document, keeping the themes that validate and
+ * listing the IDs of those that don't. Throws only when the document
+ * itself is invalid.
+ */
+export function importValidRingStyles(json: string): {
+  styles: Record<string, RingStyleDefinition>;
+  invalidIds: string[];
+} {
+  const styles: Record<string, RingStyleDefinition> = {};
+  const invalidIds: string[] = [];
+
+  Object.entries(parseRingStyleExport(json)).forEach(([id, style]) => {
+    try {
+      styles[id] = validateRingStyle(style);
+    } catch {
+      invalidIds.push(id);
+    }
+  });
+
+  return { styles, invalidIds };
+}
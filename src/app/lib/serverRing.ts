@@ -0,0 +1,316 @@
+/**
+ * Server-side Growth Ring Rendering
+ *
+ * Renders growth ring PNGs in Node.js using @napi-rs/canvas and the
+ * shared ring renderer. Avatars can come from a local file, an allowed
+ * remote host or an inline data URL. Also validates the request
+ * parameters shared by the ring and share endpoints.
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { createCanvas, loadImage, type Image } from '@napi-rs/canvas';
+import {
+  renderGrowthRing,
+  renderRingExport,
+  DEFAULT_RING_SIZE,
+  RING_EXPORT_PRESETS,
+  getCenteredCrop,
+  type RingCanvasContext,
+  type RingCropRect,
+  type RingExportCaption,
+  type RingExportPresetKey,
+  type RingImageSource,
+  type RingStyle,
+} from './ringRenderer';
+import { GOAL_TYPES, calculateProgress, isGoalType, type GoalTypeDefinition, type GoalTypeKey } from './ringConfig';
+import { BUILT_IN_RING_STYLES, isBuiltInRingStyle, validateRingStyle } from './ringStyles';
+
+/**
+ * Maximum avatar size accepted from any source
+ */
+const MAX_AVATAR_BYTES = 10 * 1024 * 1024; // 10MB
+
+/**
+ * Largest side of an uploaded avatar kept for a share link
+ */
+const SHARED_AVATAR_SIZE = 512;
+
+/**
+ * Hosts remote avatars may be fetched from
+ */
+const ALLOWED_AVATAR_HOSTS = ['pbs.twimg.com'];
+
+/**
+ * How long to wait for a remote avatar
+ */
+const AVATAR_FETCH_TIMEOUT_MS = 10_000;
+
+/**
+ * Where to look for the avatar
+ */
+export type AvatarSource =
+  | { type: 'file'; path: string }
+  | { type: 'url'; url: string }
+  | { type: 'data'; dataUrl: string };
+
+/**
+ * Server render options
+ */
+export interface ServerRingOptions {
+  avatar: AvatarSource;
+  current: number;
+  target: number;
+  goalType: GoalTypeKey;
+  style: RingStyle;
+  overflow?: boolean;
+  crop?: RingCropRect;
+}
+
+export interface RingRequestParams {
+  current?: unknown;
+  target?: unknown;
+  goalType?: unknown;
+  ringStyle?: unknown;
+  style?: unknown;
+  overflow?: unknown;
+  crop?: unknown;
+  avatar?: unknown;
+  avatarUrl?: unknown;
+  avatarData?: unknown;
+}
+
+/**
+ * Validate request parameters and build render options. Returns an error
+ * message instead when a parameter is invalid.
+ */
+export function parseRingRequest(params: RingRequestParams): ServerRingOptions | string {
+  const current = Number(params.current);
+  const target = Number(params.target);
+  const goalType = params.goalType ?? 'followers';
+  const ringStyle = params.ringStyle ?? 'classic';
+
+  if (params.current === undefined || !Number.isFinite(current) || current < 0) {
+    return 'current must be a non-negative number';
+  }
+
+  if (params.target === undefined || !Number.isFinite(target) || target <= 0) {
+    return 'target must be a positive number';
+  }
+
+  if (typeof goalType !== 'string' || !isGoalType(goalType)) {
+    return 'goalType must be one of: followers, engagement, tweets';
+  }
+
+  let style: RingStyle;
+  if (params.style !== undefined) {
+    try {
+      style = validateRingStyle(params.style);
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid ring style';
+    }
+  } else if (typeof ringStyle === 'string' && isBuiltInRingStyle(ringStyle)) {
+    style = BUILT_IN_RING_STYLES[ringStyle];
+  } else {
+    return `ringStyle must be one of: ${Object.keys(BUILT_IN_RING_STYLES).join(', ')}`;
+  }
+
+  const sources: AvatarSource[] = [];
+  if (typeof params.avatar === 'string' && params.avatar) {
+    sources.push({ type: 'file', path: params.avatar });
+  }
+  if (typeof params.avatarUrl === 'string' && params.avatarUrl) {
+    sources.push({ type: 'url', url: params.avatarUrl });
+  }
+  if (typeof params.avatarData === 'string' && params.avatarData) {
+    sources.push({ type: 'data', dataUrl: params.avatarData });
+  }
+
+  if (sources.length !== 1) {
+    return 'Provide exactly one avatar source: avatar, avatarUrl or avatarData';
+  }
+
+  const overflow = params.overflow === true || params.overflow === 'true';
+
+  let crop: RingCropRect | undefined;
+  if (params.crop !== undefined) {
+    const { x, y, size } = (params.crop ?? {}) as Record<string, unknown>;
+    if (![x, y, size].every(value => typeof value === 'number' && Number.isFinite(value) && value >= 0) || size === 0) {
+      return 'crop must be an object with non-negative x, y and a positive size';
+    }
+    crop = { x: x as number, y: y as number, size: size as number };
+  }
+
+  return { avatar: sources[0], current, target, goalType, style, overflow, crop };
+}
+
+/**
+ * Directory local avatar files are resolved against
+ */
+export function getAvatarDirectory(): string {
+  return path.resolve(process.env.RING_AVATAR_DIR || path.join(process.cwd(), 'public'));
+}
+
+/**
+ * Read avatar bytes from the given source
+ */
+async function readAvatarBytes(source: AvatarSource): Promise<Buffer> {
+  switch (source.type) {
+    case 'file': {
+      const baseDir = getAvatarDirectory();
+      const resolved = path.resolve(baseDir, source.path);
+
+      if (resolved !== baseDir && !resolved.startsWith(baseDir + path.sep)) {
+        throw new Error('Avatar path must be inside the avatar directory');
+      }
+
+      const bytes = await readFile(resolved).catch(() => {
+        throw new Error(`Avatar file not found: ${source.path}`);
+      });
+
+      if (bytes.length > MAX_AVATAR_BYTES) {
+        throw new Error('Avatar file too large. Maximum size is 10MB.');
+      }
+
+      return bytes;
+    }
+
+    case 'url': {
+      let url: URL;
+      try {
+        url = new URL(source.url);
+      } catch {
+        throw new Error('Invalid avatar URL');
+      }
+
+      if (url.protocol !== 'https:' || !ALLOWED_AVATAR_HOSTS.includes(url.hostname)) {
+        throw new Error(`Avatar host not allowed. Allowed hosts: ${ALLOWED_AVATAR_HOSTS.join(', ')}`);
+      }
+
+      // Redirects could lead off the allowed hosts, so they're refused
+      const response = await fetch(url.toString(), {
+        redirect: 'error',
+        signal: AbortSignal.timeout(AVATAR_FETCH_TIMEOUT_MS),
+      }).catch((error: unknown) => {
+        const timedOut = error instanceof Error && error.name === 'TimeoutError';
+        throw new Error(timedOut ? 'Timed out fetching avatar' : 'Failed to fetch avatar');
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch avatar: ${response.status} ${response.statusText}`);
+      }
+
+      const contentType = response.headers.get('content-type') || '';
+      if (!contentType.startsWith('image/')) {
+        throw new Error('Avatar URL did not return an image');
+      }
+
+      if (Number(response.headers.get('content-length')) > MAX_AVATAR_BYTES) {
+        await response.body?.cancel();
+        throw new Error('Avatar image too large. Maximum size is 10MB.');
+      }
+
+      const bytes = Buffer.from(await response.arrayBuffer());
+      if (bytes.length > MAX_AVATAR_BYTES) {
+        throw new Error('Avatar image too large. Maximum size is 10MB.');
+      }
+
+      return bytes;
+    }
+
+    case 'data': {
+      const match = /^data:image\/[a-z0-9.+-]+;base64,(.+)$/i.exec(source.dataUrl);
+      if (!match) {
+        throw new Error('Invalid avatar data URL. Expected a base64 encoded image.');
+      }
+
+      const bytes = Buffer.from(match[1], 'base64');
+      if (bytes.length > MAX_AVATAR_BYTES) {
+        throw new Error('Avatar image too large. Maximum size is 10MB.');
+      }
+
+      return bytes;
+    }
+  }
+}
+
+/**
+ * Load and decode an avatar image
+ */
+export async function loadAvatar(source: AvatarSource): Promise<Image> {
+  const bytes = await readAvatarBytes(source);
+
+  try {
+    return await loadImage(bytes);
+  } catch {
+    throw new Error('Failed to decode avatar. The image may be corrupted or in an unsupported format.');
+  }
+}
+
+/**
+ * Replace an uploaded avatar with just the square the ring shows, at most
+ * SHARED_AVATAR_SIZE across, so share links don't store the raw upload.
+ * Files and remote URLs are kept as references.
+ */
+export async function shrinkSharedAvatar(options: ServerRingOptions): Promise<ServerRingOptions> {
+  if (options.avatar.type !== 'data') return options;
+
+  const image = await loadAvatar(options.avatar);
+  const crop = options.crop ?? getCenteredCrop(image.width, image.height);
+  const size = Math.max(1, Math.min(SHARED_AVATAR_SIZE, Math.round(crop.size)));
+  const canvas = createCanvas(size, size);
+
+  canvas.getContext('2d').drawImage(image, crop.x, crop.y, crop.size, crop.size, 0, 0, size, size);
+  const bytes = await canvas.encode('webp', 90);
+
+  return {
+    ...options,
+    avatar: { type: 'data', dataUrl: `data:image/webp;base64,${bytes.toString('base64')}` },
+    crop: undefined,
+  };
+}
+
+/**
+ * Caption for banner-shaped exports, e.g. "75% to 10,000"
+ */
+export function getRingCaption(options: ServerRingOptions): RingExportCaption {
+  const goal: GoalTypeDefinition = GOAL_TYPES[options.goalType];
+  const progress = calculateProgress(options.current, options.target, options.overflow);
+  const suffix = goal.suffix ?? '';
+
+  return {
+    title: `${Math.round(progress)}% to ${goal.format(options.target)}${suffix}`,
+    subtitle: `${goal.format(options.current)}${suffix} ${goal.label.toLowerCase()} and counting`,
+    color: goal.color,
+    font: options.style.font,
+  };
+}
+
+/**
+ * Render a growth ring to a PNG buffer, either on its own or laid out for
+ * an export preset
+ */
+export async function renderRingPng(options: ServerRingOptions, presetKey?: RingExportPresetKey): Promise<Buffer> {
+  const image = await loadAvatar(options.avatar);
+  const preset = presetKey ? RING_EXPORT_PRESETS[presetKey] : null;
+  const canvas = createCanvas(preset?.width ?? DEFAULT_RING_SIZE, preset?.height ?? DEFAULT_RING_SIZE);
+  const ctx = canvas.getContext('2d') as unknown as RingCanvasContext;
+
+  const drawRing = (ringCtx: RingCanvasContext) => renderGrowthRing(ringCtx, {
+    image: image as unknown as RingImageSource,
+    progress: calculateProgress(options.current, options.target, options.overflow),
+    goal: GOAL_TYPES[options.goalType],
+    style: options.style,
+    crop: options.crop,
+    overflow: options.overflow,
+    size: DEFAULT_RING_SIZE,
+  });
+
+  if (presetKey) {
+    renderRingExport(ctx, presetKey, drawRing, getRingCaption(options));
+  } else {
+    drawRing(ctx);
+  }
+
+  return canvas.toBuffer('image/png');
+}
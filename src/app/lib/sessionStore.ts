@@ -0,0 +1,66 @@
+/**
+ * Session Store
+ *
+ * Server-side sign-in sessions. The session cookie only carries a random
+ * ID; which X user a request acts for is looked up here, so a client can't
+ * pick another user by editing its cookies.
+ */
+
+import { randomBytes } from 'crypto';
+import { getStorage, type StoredSession } from './storage';
+
+/**
+ * How long a session lasts, matching the session cookie
+ */
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Session IDs are 32 random bytes, base64url encoded
+ */
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+
+/**
+ * Generate a random session ID
+ */
+export function generateSessionId(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * Start a session for a user
+ */
+export async function createSession(userId: string, now: Date = new Date()): Promise<StoredSession> {
+  const session: StoredSession = {
+    id: generateSessionId(),
+    userId,
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + SESSION_TTL_MS).toISOString(),
+  };
+
+  await getStorage().createSession(session);
+  return session;
+}
+
+/**
+ * Load a session that hasn't expired, or null. Expired sessions are removed.
+ */
+export async function getValidSession(id: string, now: Date = new Date()): Promise<StoredSession | null> {
+  if (!SESSION_ID_PATTERN.test(id)) return null;
+
+  const session = await getStorage().getSession(id);
+  if (!session) return null;
+
+  if (new Date(session.expiresAt) <= now) {
+    await getStorage().deleteSession(id);
+    return null;
+  }
+
+  return session;
+}
+
+/**
+ * End a session
+ */
+export async function deleteSession(id: string): Promise<void> {
+  await getStorage().deleteSession(id);
+}
@@ -0,0 +1,238 @@
+/**
+ * SQLite Storage
+ *
+ * Storage implementation on a single SQLite database file. Records are kept
+ * as JSON alongside the columns they're looked up by, so adding a field to
+ * a record doesn't need a migration.
+ */
+
+import { mkdirSync } from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type { Storage, StoredGoal, StoredSession, StoredUser, StoredUserTokens } from './storage';
+import type { MetricsSnapshot } from './metricsHistoryStore';
+import type { SharedRing } from './ringShareStore';
+import type { AvatarRefreshSchedule } from './avatarRefreshStore';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    username TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS sessions (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    expires_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS user_tokens (
+    user_id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS goals (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS goals_user_id ON goals (user_id, created_at);
+
+  CREATE TABLE IF NOT EXISTS metric_snapshots (
+    user_id TEXT NOT NULL,
+    date TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (user_id, date)
+  );
+
+  CREATE TABLE IF NOT EXISTS shared_rings (
+    id TEXT PRIMARY KEY,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS avatar_refresh_schedules (
+    user_id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+`;
+
+interface UserRow {
+  id: string;
+  username: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface DataRow {
+  data: string;
+}
+
+function toUser(row: UserRow): StoredUser {
+  return {
+    id: row.id,
+    username: row.username ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function parseRow<T>(row: DataRow | undefined): T | null {
+  return row ? JSON.parse(row.data) as T : null;
+}
+
+/**
+ * Open (creating if needed) a SQLite database and return storage backed by it
+ */
+export function createSqliteStorage(filename: string): Storage {
+  if (filename !== ':memory:') {
+    mkdirSync(path.dirname(filename), { recursive: true });
+  }
+
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  db.exec(SCHEMA);
+
+  const statements = {
+    getUser: db.prepare<[string], UserRow>('SELECT * FROM users WHERE id = ?'),
+    upsertUser: db.prepare(`
+      INSERT INTO users (id, username, created_at, updated_at) VALUES (@id, @username, @now, @now)
+      ON CONFLICT (id) DO UPDATE SET username = COALESCE(@username, username), updated_at = @now
+    `),
+    createSession: db.prepare('INSERT INTO sessions (id, user_id, expires_at, data) VALUES (@id, @userId, @expiresAt, @data)'),
+    getSession: db.prepare<[string], DataRow>('SELECT data FROM sessions WHERE id = ?'),
+    deleteSession: db.prepare('DELETE FROM sessions WHERE id = ?'),
+    getUserTokens: db.prepare<[string], DataRow>('SELECT data FROM user_tokens WHERE user_id = ?'),
+    saveUserTokens: db.prepare(`
+      INSERT INTO user_tokens (user_id, data) VALUES (@userId, @data)
+      ON CONFLICT (user_id) DO UPDATE SET data = @data
+    `),
+    deleteUserTokens: db.prepare('DELETE FROM user_tokens WHERE user_id = ?'),
+    listGoals: db.prepare<[string], DataRow>('SELECT data FROM goals WHERE user_id = ? ORDER BY created_at'),
+    getGoal: db.prepare<[string, string], DataRow>('SELECT data FROM goals WHERE user_id = ? AND id = ?'),
+    getGoalOwner: db.prepare<[string], { user_id: string }>('SELECT user_id FROM goals WHERE id = ?'),
+    saveGoal: db.prepare(`
+      INSERT INTO goals (id, user_id, created_at, data) VALUES (@id, @userId, @createdAt, @data)
+      ON CONFLICT (id) DO UPDATE SET data = @data
+    `),
+    deleteGoal: db.prepare('DELETE FROM goals WHERE user_id = ? AND id = ?'),
+    putSnapshot: db.prepare(`
+      INSERT INTO metric_snapshots (user_id, date, data) VALUES (@userId, @date, @data)
+      ON CONFLICT (user_id, date) DO UPDATE SET data = @data
+    `),
+    getSnapshot: db.prepare<[string, string], DataRow>('SELECT data FROM metric_snapshots WHERE user_id = ? AND date = ?'),
+    listSnapshots: db.prepare<[string, string], DataRow>(
+      'SELECT data FROM metric_snapshots WHERE user_id = ? AND date >= ? ORDER BY date'
+    ),
+    createSharedRing: db.prepare('INSERT OR IGNORE INTO shared_rings (id, created_at, data) VALUES (@id, @createdAt, @data)'),
+    getSharedRing: db.prepare<[string], DataRow>('SELECT data FROM shared_rings WHERE id = ?'),
+    getSchedule: db.prepare<[string], DataRow>('SELECT data FROM avatar_refresh_schedules WHERE user_id = ?'),
+    saveSchedule: db.prepare(`
+      INSERT INTO avatar_refresh_schedules (user_id, data) VALUES (@userId, @data)
+      ON CONFLICT (user_id) DO UPDATE SET data = @data
+    `),
+    deleteSchedule: db.prepare('DELETE FROM avatar_refresh_schedules WHERE user_id = ?'),
+    listSchedules: db.prepare<[], DataRow>('SELECT data FROM avatar_refresh_schedules'),
+  };
+
+  return {
+    async getUser(id) {
+      const row = statements.getUser.get(id);
+      return row ? toUser(row) : null;
+    },
+
+    async upsertUser(id, username) {
+      statements.upsertUser.run({ id, username: username ?? null, now: new Date().toISOString() });
+      return toUser(statements.getUser.get(id)!);
+    },
+
+    async createSession(session) {
+      statements.createSession.run({
+        id: session.id,
+        userId: session.userId,
+        expiresAt: session.expiresAt,
+        data: JSON.stringify(session),
+      });
+    },
+
+    async getSession(id) {
+      return parseRow<StoredSession>(statements.getSession.get(id));
+    },
+
+    async deleteSession(id) {
+      statements.deleteSession.run(id);
+    },
+
+    async getUserTokens(userId) {
+      return parseRow<StoredUserTokens>(statements.getUserTokens.get(userId));
+    },
+
+    async saveUserTokens(tokens) {
+      statements.saveUserTokens.run({ userId: tokens.userId, data: JSON.stringify(tokens) });
+    },
+
+    async deleteUserTokens(userId) {
+      statements.deleteUserTokens.run(userId);
+    },
+
+    async listGoals(userId) {
+      return statements.listGoals.all(userId).map(row => JSON.parse(row.data) as StoredGoal);
+    },
+
+    async getGoal(userId, id) {
+      return parseRow<StoredGoal>(statements.getGoal.get(userId, id));
+    },
+
+    async saveGoal(goal) {
+      const owner = statements.getGoalOwner.get(goal.id);
+      if (owner && owner.user_id !== goal.userId) {
+        throw new Error('Goal belongs to another user');
+      }
+      statements.saveGoal.run({ id: goal.id, userId: goal.userId, createdAt: goal.createdAt, data: JSON.stringify(goal) });
+    },
+
+    async deleteGoal(userId, id) {
+      return statements.deleteGoal.run(userId, id).changes > 0;
+    },
+
+    async putSnapshot(userId, snapshot) {
+      statements.putSnapshot.run({ userId, date: snapshot.date, data: JSON.stringify(snapshot) });
+    },
+
+    async getSnapshot(userId, date) {
+      return parseRow<MetricsSnapshot>(statements.getSnapshot.get(userId, date));
+    },
+
+    async listSnapshots(userId, sinceDate) {
+      return statements.listSnapshots.all(userId, sinceDate).map(row => JSON.parse(row.data) as MetricsSnapshot);
+    },
+
+    async createSharedRing(ring) {
+      return statements.createSharedRing.run({ id: ring.id, createdAt: ring.createdAt, data: JSON.stringify(ring) }).changes > 0;
+    },
+
+    async getSharedRing(id) {
+      return parseRow<SharedRing>(statements.getSharedRing.get(id));
+    },
+
+    async getAvatarRefreshSchedule(userId) {
+      return parseRow<AvatarRefreshSchedule>(statements.getSchedule.get(userId));
+    },
+
+    async saveAvatarRefreshSchedule(schedule) {
+      statements.saveSchedule.run({ userId: schedule.userId, data: JSON.stringify(schedule) });
+    },
+
+    async deleteAvatarRefreshSchedule(userId) {
+      statements.deleteSchedule.run(userId);
+    },
+
+    async listAvatarRefreshSchedules() {
+      return statements.listSchedules.all().map(row => JSON.parse(row.data) as AvatarRefreshSchedule);
+    },
+  };
+}
@@ -0,0 +1,132 @@
+/**
+ * Server Storage
+ *
+ * One interface for everything the server persists: users, sign-in
+ * sessions, encrypted OAuth tokens, saved goals, daily metrics snapshots,
+ * shared rings and avatar refresh schedules.
+ * STORAGE_DRIVER picks the implementation: "sqlite" (default, a database
+ * file at STORAGE_SQLITE_PATH) or "memory" (lost on restart, for local
+ * development and throwaway instances).
+ */
+
+import path from 'path';
+import type { SavedGoal } from './goals';
+import type { MetricsSnapshot } from './metricsHistoryStore';
+import type { SharedRing } from './ringShareStore';
+import type { AvatarRefreshSchedule } from './avatarRefreshStore';
+import { createMemoryStorage } from './memoryStorage';
+import { createSqliteStorage } from './sqliteStorage';
+
+/**
+ * An X user the server has seen
+ */
+export interface StoredUser {
+  id: string; // X user ID
+  username?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A signed-in browser session. The session cookie holds the ID; the user
+ * it belongs to is only ever read from here.
+ */
+export interface StoredSession {
+  id: string;
+  userId: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+/**
+ * A user's OAuth tokens, encrypted (see tokenCrypto). The one copy both
+ * the browser session and background jobs refresh from.
+ */
+export interface StoredUserTokens {
+  userId: string;
+  accessToken: string;
+  refreshToken: string | null;
+  expiresAt: number; // epoch ms
+  updatedAt: string;
+}
+
+/**
+ * A saved goal and the user it belongs to
+ */
+export interface StoredGoal extends SavedGoal {
+  userId: string;
+}
+
+/**
+ * Persistence used by server features
+ */
+export interface Storage {
+  getUser(id: string): Promise<StoredUser | null>;
+  /** Create the user or update their username */
+  upsertUser(id: string, username?: string): Promise<StoredUser>;
+
+  createSession(session: StoredSession): Promise<void>;
+  getSession(id: string): Promise<StoredSession | null>;
+  deleteSession(id: string): Promise<void>;
+
+  getUserTokens(userId: string): Promise<StoredUserTokens | null>;
+  saveUserTokens(tokens: StoredUserTokens): Promise<void>;
+  deleteUserTokens(userId: string): Promise<void>;
+
+  listGoals(userId: string): Promise<StoredGoal[]>;
+  getGoal(userId: string, id: string): Promise<StoredGoal | null>;
+  saveGoal(goal: StoredGoal): Promise<void>;
+  /** Resolves false when the goal didn't exist */
+  deleteGoal(userId: string, id: string): Promise<boolean>;
+
+  /** Store a snapshot, replacing the user's snapshot for the same date */
+  putSnapshot(userId: string, snapshot: MetricsSnapshot): Promise<void>;
+  getSnapshot(userId: string, date: string): Promise<MetricsSnapshot | null>;
+  /** Snapshots on or after sinceDate, oldest first */
+  listSnapshots(userId: string, sinceDate: string): Promise<MetricsSnapshot[]>;
+
+  /** Resolves false when the ID is already taken */
+  createSharedRing(ring: SharedRing): Promise<boolean>;
+  getSharedRing(id: string): Promise<SharedRing | null>;
+
+  getAvatarRefreshSchedule(userId: string): Promise<AvatarRefreshSchedule | null>;
+  saveAvatarRefreshSchedule(schedule: AvatarRefreshSchedule): Promise<void>;
+  deleteAvatarRefreshSchedule(userId: string): Promise<void>;
+  listAvatarRefreshSchedules(): Promise<AvatarRefreshSchedule[]>;
+}
+
+/**
+ * Available storage drivers
+ */
+export const STORAGE_DRIVERS = ['sqlite', 'memory'] as const;
+
+export type StorageDriver = typeof STORAGE_DRIVERS[number];
+
+/**
+ * Path of the SQLite database file
+ */
+export function getSqlitePath(): string {
+  return path.resolve(process.env.STORAGE_SQLITE_PATH || path.join(process.cwd(), '.data', 'growthrings.db'));
+}
+
+// Kept on globalThis so dev-server reloads reuse one connection
+const globalStorage = globalThis as typeof globalThis & { growthRingsStorage?: Storage };
+
+/**
+ * The configured storage, created on first use
+ */
+export function getStorage(): Storage {
+  if (!globalStorage.growthRingsStorage) {
+    const driver = process.env.STORAGE_DRIVER || 'sqlite';
+
+    if (driver === 'memory') {
+      globalStorage.growthRingsStorage = createMemoryStorage();
+    } else if (driver === 'sqlite') {
+      globalStorage.growthRingsStorage = createSqliteStorage(getSqlitePath());
+    } else {
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}". Use one of: ${STORAGE_DRIVERS.join(', ')}.`);
+    }
+  }
+
+  return globalStorage.growthRingsStorage;
+}
@@ -0,0 +1,51 @@
+/**
+ * Token Encryption
+ *
+ * Encrypts OAuth tokens before they're written to server storage, with
+ * AES-256-GCM under a key derived from TOKEN_ENCRYPTION_KEY (or
+ * NEXTAUTH_SECRET when that isn't set). Changing the secret makes stored
+ * tokens unreadable, so users have to sign in again.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const FORMAT_VERSION = 'v1';
+
+function getKey(): Buffer {
+  const secret = process.env.TOKEN_ENCRYPTION_KEY || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('Set TOKEN_ENCRYPTION_KEY (or NEXTAUTH_SECRET) to store OAuth tokens.');
+  }
+  return createHash('sha256').update(secret).digest();
+}
+
+/**
+ * Encrypt a secret as "v1.<iv>.<tag>.<ciphertext>", base64url parts
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [FORMAT_VERSION, iv, cipher.getAuthTag(), ciphertext]
+    .map(part => (typeof part === 'string' ? part : part.toString('base64url')))
+    .join('.');
+}
+
+/**
+ * Decrypt a value from encryptSecret. Throws when it was encrypted under
+ * another key or has been tampered with.
+ */
+export function decryptSecret(payload: string): string {
+  const [version, iv, tag, ciphertext] = payload.split('.');
+  if (version !== FORMAT_VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error('Unrecognised encrypted token format');
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, getKey(), Buffer.from(iv, 'base64url'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf8');
+}
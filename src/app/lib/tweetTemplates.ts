@@ -0,0 +1,107 @@
+/**
+ * Progress Tweet Templates
+ *
+ * Templates for drafting progress tweets, and the weighted character count
+ * X applies when checking the 280 character limit.
+ */
+
+/**
+ * Tweet template definition
+ */
+export interface TweetTemplate {
+  label: string;
+  text: string; // placeholders: {percent}, {current}, {target}, {goal}, {handle}
+}
+
+/**
+ * Values substituted into a template
+ */
+export interface TweetTemplateValues {
+  percent: number;
+  current: string;
+  target: string;
+  goal: string; // lowercase goal label, e.g. "followers"
+  handle?: string;
+}
+
+/**
+ * Built-in templates
+ */
+export const TWEET_TEMPLATES = {
+  progress: { label: 'Progress', text: '{percent}% of the way to {target} {goal}! 🎯' },
+  milestone: { label: 'Milestone', text: 'Just hit {current} {goal} 🎉 Next stop: {target}.' },
+  thanks: { label: 'Thank you', text: 'Thank you for {current} {goal}! {percent}% of the way to {target} 🙏' },
+  goal: { label: 'Goal reached', text: 'Goal reached: {target} {goal}! 🏆 Thank you all.' },
+} satisfies Record<string, TweetTemplate>;
+
+export type TweetTemplateKey = keyof typeof TWEET_TEMPLATES;
+
+/**
+ * Maximum weighted tweet length
+ */
+export const MAX_TWEET_LENGTH = 280;
+
+/**
+ * Length X counts for any URL, whatever its real length
+ */
+const URL_LENGTH = 23;
+
+/**
+ * Check if a value is a template key
+ */
+export function isTweetTemplate(value: string): value is TweetTemplateKey {
+  return Object.prototype.hasOwnProperty.call(TWEET_TEMPLATES, value);
+}
+
+/**
+ * Fill a template's placeholders; unknown placeholders are left as typed
+ */
+export function fillTweetTemplate(text: string, values: TweetTemplateValues): string {
+  const replacements: Record<string, string> = {
+    percent: Math.round(values.percent).toString(),
+    current: values.current,
+    target: values.target,
+    goal: values.goal,
+    handle: values.handle ?? '',
+  };
+
+  return text
+    .replace(/\{(\w+)\}/g, (placeholder, name: string) => replacements[name] ?? placeholder)
+    .replace(/ {2,}/g, ' ')
+    .trim();
+}
+
+// Marks of an emoji sequence: flags, keycaps and the emoji variation selector
+const EMOJI_MARK_PATTERN = /\p{Regional_Indicator}|\uFE0F|\u20E3/u;
+const PICTOGRAPH_PATTERN = /\p{Extended_Pictographic}/u;
+
+// An emoji sequence, including any skin tone or ZWJ-joined parts. Pictographs
+// in the Latin ranges (e.g. ©) only count when presented as emoji.
+const isEmoji = (grapheme: string): boolean =>
+  EMOJI_MARK_PATTERN.test(grapheme) ||
+  Array.from(grapheme).some(char => (char.codePointAt(0) ?? 0) > 0x10ff && PICTOGRAPH_PATTERN.test(char));
+
+const graphemes = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
+/**
+ * Weighted length as X counts it: URLs count as 23, each emoji sequence
+ * counts as 2 however many code points it's made of, and other characters
+ * outside the Latin ranges (e.g. CJK) count double
+ */
+export function countTweetCharacters(text: string): number {
+  const withoutUrls = text.replace(/https?:\/\/\S+/g, () => '\u0000'.repeat(URL_LENGTH));
+
+  return Array.from(graphemes.segment(withoutUrls.normalize('NFC'))).reduce((total, { segment }) => {
+    if (isEmoji(segment)) return total + 2;
+
+    return Array.from(segment).reduce((segmentTotal, char) => {
+      const code = char.codePointAt(0) ?? 0;
+      const isLight =
+        code <= 0x10ff ||
+        (code >= 0x2000 && code <= 0x200d) ||
+        (code >= 0x2010 && code <= 0x201f) ||
+        (code >= 0x2032 && code <= 0x2037);
+      return segmentTotal + (isLight ? 1 : 2);
+    }, total);
+  }, 0);
+}
@@ -0,0 +1,125 @@
+/**
+ * User Token Store
+ *
+ * Keeps each signed-in user's OAuth tokens, encrypted, in server storage.
+ * X rotates the refresh token every time it's used, so this is the only
+ * copy: the browser's /api/auth/refresh and the avatar refresh job both
+ * refresh through here and save the rotated token back.
+ */
+
+import { refreshAccessToken } from './oauth';
+import { decryptSecret, encryptSecret } from './tokenCrypto';
+import { getStorage } from './storage';
+
+/**
+ * Decrypted tokens for one user
+ */
+export interface UserTokens {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt: number; // epoch ms
+}
+
+/**
+ * Refresh the access token when it expires within this window
+ */
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+// Refreshes in flight per user, so a job run and a browser refresh don't
+// both spend the same single-use refresh token
+const globalTokens = globalThis as typeof globalThis & {
+  growthRingsTokenRefreshes?: Map<string, Promise<UserTokens>>;
+};
+
+/**
+ * Load a user's tokens, or null when none are stored or they can't be
+ * decrypted
+ */
+export async function getUserTokens(userId: string): Promise<UserTokens | null> {
+  const stored = await getStorage().getUserTokens(userId);
+  if (!stored) return null;
+
+  try {
+    return {
+      accessToken: decryptSecret(stored.accessToken),
+      refreshToken: stored.refreshToken ? decryptSecret(stored.refreshToken) : undefined,
+      expiresAt: stored.expiresAt,
+    };
+  } catch (error) {
+    console.error(`[Auth] Stored tokens for ${userId} could not be decrypted:`, error);
+    return null;
+  }
+}
+
+/**
+ * Encrypt and store a user's tokens, replacing any before
+ */
+export async function saveUserTokens(userId: string, tokens: UserTokens): Promise<void> {
+  await getStorage().saveUserTokens({
+    userId,
+    accessToken: encryptSecret(tokens.accessToken),
+    refreshToken: tokens.refreshToken ? encryptSecret(tokens.refreshToken) : null,
+    expiresAt: tokens.expiresAt,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Remove a user's stored tokens
+ */
+export async function deleteUserTokens(userId: string): Promise<void> {
+  await getStorage().deleteUserTokens(userId);
+}
+
+/**
+ * Exchange the stored refresh token for new tokens and store them
+ */
+export async function refreshUserTokens(userId: string, now: Date = new Date()): Promise<UserTokens> {
+  globalTokens.growthRingsTokenRefreshes ??= new Map();
+  const refreshes = globalTokens.growthRingsTokenRefreshes;
+
+  const pending = refreshes.get(userId);
+  if (pending) return pending;
+
+  const refresh = (async () => {
+    const tokens = await getUserTokens(userId);
+    const clientId = process.env.X_CLIENT_ID;
+
+    if (!tokens?.refreshToken || !clientId) {
+      throw new Error('No stored refresh token. Sign in again.');
+    }
+
+    const refreshed = await refreshAccessToken(tokens.refreshToken, clientId, process.env.X_CLIENT_SECRET);
+    const updated: UserTokens = {
+      accessToken: refreshed.access_token,
+      refreshToken: refreshed.refresh_token ?? tokens.refreshToken,
+      expiresAt: now.getTime() + refreshed.expires_in * 1000,
+    };
+
+    await saveUserTokens(userId, updated);
+    return updated;
+  })();
+
+  refreshes.set(userId, refresh);
+  try {
+    return await refresh;
+  } finally {
+    refreshes.delete(userId);
+  }
+}
+
+/**
+ * Return a usable access token for a user, refreshing it when needed
+ */
+export async function getFreshAccessToken(userId: string, now: Date = new Date()): Promise<string> {
+  const tokens = await getUserTokens(userId);
+  if (!tokens) {
+    throw new Error('No stored sign-in. Sign in again to keep the avatar refreshing.');
+  }
+
+  if (tokens.expiresAt - TOKEN_EXPIRY_MARGIN_MS > now.getTime()) {
+    return tokens.accessToken;
+  }
+
+  return (await refreshUserTokens(userId, now)).accessToken;
+}
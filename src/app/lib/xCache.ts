@@ -0,0 +1,378 @@
+/**
+ * X API Response Cache
+ *
+ * Keyed cache in front of the X client so repeated syncs don't spend the
+ * rate limit. Each endpoint has a TTL during which cached data is served
+ * as is, then a stale window during which it is still served while a
+ * background request refreshes it. Past that the caller waits for X, with
+ * a conditional request when the cached response carried an ETag.
+ *
+ * Entries live in memory or as JSON files, chosen with X_CACHE_DRIVER.
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readFile, rename, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import {
+  X_API_ENDPOINTS,
+  USER_FIELDS,
+  requestX,
+  fetchUserTweets,
+  type XAPIResponse,
+  type XResponse,
+  type XTweet,
+  type XUser,
+} from './xapi';
+import { XNetworkError, XRateLimitError } from './xErrors';
+
+/**
+ * How a response was served: fresh from the cache, stale while a refresh
+ * runs, confirmed unchanged by X, or fetched anew
+ */
+export type XCacheStatus = 'HIT' | 'STALE' | 'REVALIDATED' | 'MISS';
+
+/**
+ * A cached response
+ */
+export interface XCacheEntry<T = unknown> {
+  value: T;
+  etag: string | null;
+  storedAt: number; // epoch ms of the last fetch or revalidation
+  expiresAt: number; // epoch ms after which the entry is dropped
+}
+
+/**
+ * Where cache entries are kept
+ */
+export interface XCacheBackend {
+  get<T>(key: string): Promise<XCacheEntry<T> | null>;
+  set<T>(key: string, entry: XCacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * How long an endpoint's responses are served fresh, then stale
+ */
+export interface XCachePolicy {
+  ttlMs: number;
+  staleMs: number;
+}
+
+/**
+ * Cache policy per endpoint. Profiles change slowly; the tweet list only
+ * feeds the engagement rate.
+ */
+export const X_CACHE_POLICIES = {
+  USERS_ME: { ttlMs: 60_000, staleMs: 10 * 60_000 },
+  USER_TWEETS: { ttlMs: 5 * 60_000, staleMs: 60 * 60_000 },
+} satisfies Record<string, XCachePolicy>;
+
+export type XCacheEndpoint = keyof typeof X_CACHE_POLICIES;
+
+/**
+ * How long entries are kept past their stale window, for conditional
+ * requests and for serving while X is rate limited or unreachable
+ */
+export const X_CACHE_RETENTION_MS = 24 * 60 * 60_000;
+
+/**
+ * Cached value with how it was served
+ */
+export interface XCacheResult<T> {
+  value: T;
+  status: XCacheStatus;
+  age: number; // seconds since the value was fetched or revalidated
+}
+
+/**
+ * Response headers reporting cache status
+ */
+export const X_CACHE_HEADERS = {
+  STATUS: 'x-cache-status',
+  AGE: 'age',
+} as const;
+
+export const X_CACHE_DRIVERS = ['memory', 'file'] as const;
+
+export type XCacheDriver = typeof X_CACHE_DRIVERS[number];
+
+// Oldest entries are evicted past this many in memory
+const MEMORY_CACHE_MAX_ENTRIES = 1000;
+
+/**
+ * Create an empty in-memory cache
+ */
+export function createMemoryCacheBackend(maxEntries: number = MEMORY_CACHE_MAX_ENTRIES): XCacheBackend {
+  const entries = new Map<string, XCacheEntry>();
+
+  return {
+    async get<T>(key: string) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return null;
+      }
+      return structuredClone(entry) as XCacheEntry<T>;
+    },
+
+    async set(key, entry) {
+      // Re-inserting moves the key to the end, so the first key is the oldest
+      entries.delete(key);
+      entries.set(key, structuredClone(entry));
+
+      if (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest !== undefined) entries.delete(oldest);
+      }
+    },
+
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+/**
+ * Create a cache that keeps one JSON file per entry in a directory
+ */
+export function createFileCacheBackend(directory: string): XCacheBackend {
+  // Keys hold token hashes and paths; file names only need to be stable
+  const getFilename = (key: string) => path.join(directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+
+  const remove = async (filename: string) => {
+    await unlink(filename).catch(() => undefined);
+  };
+
+  return {
+    async get<T>(key: string) {
+      const filename = getFilename(key);
+      const content = await readFile(filename, 'utf8').catch(() => null);
+      if (content === null) return null;
+
+      let entry: XCacheEntry<T>;
+      try {
+        entry = JSON.parse(content);
+      } catch {
+        await remove(filename);
+        return null;
+      }
+
+      if (entry.expiresAt <= Date.now()) {
+        await remove(filename);
+        return null;
+      }
+      return entry;
+    },
+
+    async set(key, entry) {
+      const filename = getFilename(key);
+      const tempFilename = `${filename}.${process.pid}.tmp`;
+
+      // Write then rename so a concurrent read never sees half a file
+      await mkdir(directory, { recursive: true });
+      await writeFile(tempFilename, JSON.stringify(entry), 'utf8');
+      await rename(tempFilename, filename);
+    },
+
+    async delete(key) {
+      await remove(getFilename(key));
+    },
+  };
+}
+
+/**
+ * Directory of the file cache
+ */
+export function getFileCacheDir(): string {
+  return path.resolve(process.env.X_CACHE_DIR || path.join(process.cwd(), '.data', 'x-cache'));
+}
+
+// Kept on globalThis so dev-server reloads reuse one cache
+const globalCache = globalThis as typeof globalThis & {
+  growthRingsXCache?: XCacheBackend;
+  growthRingsXCacheRefreshes?: Map<string, Promise<unknown>>;
+};
+
+/**
+ * The configured cache backend, created on first use
+ */
+export function getXCache(): XCacheBackend {
+  if (!globalCache.growthRingsXCache) {
+    const driver = process.env.X_CACHE_DRIVER || 'memory';
+
+    if (driver === 'memory') {
+      globalCache.growthRingsXCache = createMemoryCacheBackend();
+    } else if (driver === 'file') {
+      globalCache.growthRingsXCache = createFileCacheBackend(getFileCacheDir());
+    } else {
+      throw new Error(`Unknown X_CACHE_DRIVER "${driver}". Use one of: ${X_CACHE_DRIVERS.join(', ')}.`);
+    }
+  }
+
+  return globalCache.growthRingsXCache;
+}
+
+/**
+ * Replace the cache backend in use, e.g. with a fresh memory cache in tests
+ */
+export function setXCache(backend: XCacheBackend): void {
+  globalCache.growthRingsXCache = backend;
+}
+
+// Requests in flight per key, so concurrent misses and refreshes share one call
+const getRefreshes = (): Map<string, Promise<unknown>> => {
+  globalCache.growthRingsXCacheRefreshes ??= new Map();
+  return globalCache.growthRingsXCacheRefreshes;
+};
+
+/**
+ * Cache key for an endpoint as seen by one access token. The token is
+ * hashed so keys (and file names) never contain it.
+ */
+export function getXCacheKey(endpoint: XCacheEndpoint, accessToken: string, ...parts: string[]): string {
+  const tokenHash = createHash('sha256').update(accessToken).digest('hex').slice(0, 32);
+  return [endpoint, tokenHash, ...parts].join(':');
+}
+
+/**
+ * Fetches an endpoint, conditionally when given the cached ETag
+ */
+export type XCacheLoader<T> = (etag: string | null) => Promise<Pick<XResponse<T>, 'data' | 'etag' | 'notModified'>>;
+
+// Fetch and store, or extend the cached entry when X reports it unchanged
+async function refreshEntry<T>(
+  key: string,
+  policy: XCachePolicy,
+  load: XCacheLoader<T>,
+  cached: XCacheEntry<T> | null
+): Promise<{ entry: XCacheEntry<T>; status: XCacheStatus }> {
+  const refreshes = getRefreshes();
+  const pending = refreshes.get(key) as Promise<{ entry: XCacheEntry<T>; status: XCacheStatus }> | undefined;
+  if (pending) return pending;
+
+  const refresh = (async () => {
+    const response = await load(cached?.etag ?? null);
+    const storedAt = Date.now();
+    const expiresAt = storedAt + policy.ttlMs + policy.staleMs + X_CACHE_RETENTION_MS;
+
+    const entry: XCacheEntry<T> = response.notModified && cached
+      ? { ...cached, etag: response.etag ?? cached.etag, storedAt, expiresAt }
+      : { value: response.data, etag: response.etag, storedAt, expiresAt };
+
+    await getXCache().set(key, entry).catch(error => {
+      console.error('[X Cache] Failed to store entry:', error);
+    });
+
+    return { entry, status: response.notModified && cached ? 'REVALIDATED' as const : 'MISS' as const };
+  })();
+
+  refreshes.set(key, refresh);
+  try {
+    return await refresh;
+  } finally {
+    refreshes.delete(key);
+  }
+}
+
+/**
+ * Serve an endpoint from the cache. Fresh entries are returned directly;
+ * stale ones are returned while a background request refreshes them.
+ * Otherwise X is called, and if it is rate limited or unreachable an
+ * expired entry is still served rather than failing.
+ */
+export async function withXCache<T>(
+  endpoint: XCacheEndpoint,
+  key: string,
+  load: XCacheLoader<T>
+): Promise<XCacheResult<T>> {
+  const policy: XCachePolicy = X_CACHE_POLICIES[endpoint];
+  const cached = await getXCache().get<T>(key).catch(error => {
+    console.error('[X Cache] Failed to read entry:', error);
+    return null;
+  });
+  const now = Date.now();
+  const getAge = (entry: XCacheEntry<T>) => Math.max(0, Math.floor((now - entry.storedAt) / 1000));
+
+  if (cached && now - cached.storedAt < policy.ttlMs) {
+    return { value: cached.value, status: 'HIT', age: getAge(cached) };
+  }
+
+  if (cached && now - cached.storedAt < policy.ttlMs + policy.staleMs) {
+    refreshEntry(key, policy, load, cached).catch(error => {
+      console.warn(`[X Cache] Background refresh of ${endpoint} failed:`, error instanceof Error ? error.message : error);
+    });
+    return { value: cached.value, status: 'STALE', age: getAge(cached) };
+  }
+
+  try {
+    const { entry, status } = await refreshEntry(key, policy, load, cached);
+    return { value: entry.value, status, age: 0 };
+  } catch (error) {
+    if (cached && (error instanceof XRateLimitError || error instanceof XNetworkError)) {
+      console.warn(`[X Cache] Serving stale ${endpoint} after ${error.code}`);
+      return { value: cached.value, status: 'STALE', age: getAge(cached) };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Drop a cached endpoint, e.g. after a write that changes it
+ */
+export async function invalidateXCache(endpoint: XCacheEndpoint, accessToken: string, ...parts: string[]): Promise<void> {
+  await getXCache().delete(getXCacheKey(endpoint, accessToken, ...parts)).catch(error => {
+    console.error('[X Cache] Failed to invalidate entry:', error);
+  });
+}
+
+/**
+ * Fetch the current user through the cache
+ */
+export async function fetchCurrentUserCached(accessToken: string): Promise<XCacheResult<XUser>> {
+  const result = await withXCache<XAPIResponse<XUser>>('USERS_ME', getXCacheKey('USERS_ME', accessToken), etag => {
+    return requestX<XAPIResponse<XUser>>(X_API_ENDPOINTS.USERS_ME, accessToken, {
+      query: { 'user.fields': USER_FIELDS.join(',') },
+      etag,
+    });
+  });
+  return { ...result, value: result.value.data };
+}
+
+/**
+ * Fetch a user's latest tweets through the cache. Pages carry no ETag, so
+ * expired lists are always fetched again.
+ */
+export async function fetchUserTweetsCached(
+  userId: string,
+  accessToken: string,
+  maxResults: number = 10
+): Promise<XCacheResult<XTweet[]>> {
+  const key = getXCacheKey('USER_TWEETS', accessToken, userId, String(maxResults));
+
+  return withXCache<XTweet[]>('USER_TWEETS', key, async () => ({
+    data: await fetchUserTweets(userId, accessToken, maxResults),
+    etag: null,
+    notModified: false,
+  }));
+}
+
+// Least cached first, so a response is reported by its weakest part
+const STATUS_ORDER: XCacheStatus[] = ['MISS', 'REVALIDATED', 'STALE', 'HIT'];
+
+/**
+ * Headers reporting how a response was served. With several lookups the
+ * least cached status and the oldest age are reported.
+ */
+export function toCacheHeaders(...results: XCacheResult<unknown>[]): Record<string, string> {
+  if (results.length === 0) return {};
+
+  const status = STATUS_ORDER.find(candidate => results.some(result => result.status === candidate)) ?? 'MISS';
+  const age = Math.max(...results.map(result => result.age));
+
+  return {
+    [X_CACHE_HEADERS.STATUS]: status,
+    [X_CACHE_HEADERS.AGE]: String(age),
+  };
+}
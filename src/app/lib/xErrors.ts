@@ -0,0 +1,200 @@
+/**
+ * X API Errors
+ *
+ * Typed errors for failed X API calls. Each carries X's problem details
+ * (title, detail, type, status) and a stable code that routes return as
+ * `error` in their JSON body, so hooks can rebuild the same class from a
+ * response and branch on it.
+ */
+
+import type { XAPIError } from './xapi';
+import type { RateLimitInfo } from './xRateLimit';
+
+/**
+ * Error codes returned by routes for X API failures
+ */
+export type XErrorCode =
+  | 'unauthorized'
+  | 'rate_limit_exceeded'
+  | 'forbidden_tier'
+  | 'not_found'
+  | 'network_error'
+  | 'x_api_error';
+
+/**
+ * JSON body routes return for an X API failure
+ */
+export interface XErrorBody extends XAPIError {
+  error: XErrorCode;
+  message: string;
+  resetAt?: string; // rate limit errors only
+}
+
+/**
+ * Problem details as far as X reported them
+ */
+export type XProblem = Partial<XAPIError>;
+
+// Status used for network failures, where X never answered
+const NETWORK_ERROR_STATUS = 503;
+
+/**
+ * Base class for X API failures
+ */
+export class XApiError extends Error {
+  code: XErrorCode;
+  title: string;
+  detail: string;
+  type: string;
+  status: number;
+  rateLimit: RateLimitInfo | null = null; // the endpoint's budget when X reported it
+
+  constructor(code: XErrorCode, message: string, problem: XProblem & { status: number }) {
+    super(message);
+    this.name = 'XApiError';
+    this.code = code;
+    this.title = problem.title ?? '';
+    this.detail = problem.detail ?? '';
+    this.type = problem.type ?? 'about:blank';
+    this.status = problem.status;
+  }
+
+  /**
+   * Status for our own response; X's server errors become a bad gateway
+   */
+  get responseStatus(): number {
+    return this.status >= 500 ? 502 : this.status;
+  }
+
+  /**
+   * JSON body for a route response, optionally with a friendlier message
+   */
+  toResponseBody(message: string = this.message): XErrorBody {
+    return {
+      error: this.code,
+      message,
+      title: this.title,
+      detail: this.detail,
+      type: this.type,
+      status: this.status,
+    };
+  }
+}
+
+/**
+ * Missing, invalid or expired access token (401)
+ */
+export class XAuthError extends XApiError {
+  constructor(problem: XProblem = {}, message = 'Invalid or expired access token') {
+    super('unauthorized', message, { ...problem, status: 401 });
+    this.name = 'XAuthError';
+  }
+}
+
+/**
+ * Request budget used up (429). resetAt is when X accepts requests again.
+ */
+export class XRateLimitError extends XApiError {
+  resetAt: Date | null;
+
+  constructor(problem: XProblem = {}, resetAt: Date | null = null, message = 'Rate limit exceeded. Please try again later.') {
+    super('rate_limit_exceeded', message, { ...problem, status: 429 });
+    this.name = 'XRateLimitError';
+    this.resetAt = resetAt;
+  }
+
+  toResponseBody(message: string = this.message): XErrorBody {
+    return {
+      ...super.toResponseBody(message),
+      ...(this.resetAt && { resetAt: this.resetAt.toISOString() }),
+    };
+  }
+}
+
+/**
+ * Request refused (403), usually because the app's access tier or granted
+ * scopes don't cover the endpoint
+ */
+export class XForbiddenTierError extends XApiError {
+  constructor(problem: XProblem = {}, message = 'Access forbidden. Your X API tier may not support this endpoint.') {
+    super('forbidden_tier', message, { ...problem, status: 403 });
+    this.name = 'XForbiddenTierError';
+  }
+}
+
+/**
+ * User, tweet or endpoint that doesn't exist (404)
+ */
+export class XNotFoundError extends XApiError {
+  constructor(problem: XProblem = {}, message = 'Not found on X.') {
+    super('not_found', message, { ...problem, status: 404 });
+    this.name = 'XNotFoundError';
+  }
+}
+
+/**
+ * X couldn't be reached at all
+ */
+export class XNetworkError extends XApiError {
+  constructor(problem: XProblem = {}, message = 'Cannot connect to X API. Please check your internet connection.') {
+    super('network_error', message, { ...problem, title: problem.title ?? 'Network Error', status: NETWORK_ERROR_STATUS });
+    this.name = 'XNetworkError';
+  }
+}
+
+// Subclass for each status X reports distinctly
+function buildXApiError(status: number, details: XProblem & { status: number }, rateLimit: RateLimitInfo | null): XApiError {
+  switch (status) {
+    case 401:
+      return new XAuthError(details);
+    case 403:
+      return new XForbiddenTierError(details);
+    case 404:
+      return new XNotFoundError(details);
+    case 429:
+      return new XRateLimitError(details, rateLimit?.reset ?? null);
+    default:
+      return new XApiError('x_api_error', `X API error: ${status} ${details.detail || details.title || ''}`.trim(), details);
+  }
+}
+
+/**
+ * Build the error class for a failed X response
+ */
+export function createXApiError(status: number, problem: XProblem | null, rateLimit: RateLimitInfo | null = null): XApiError {
+  const error = buildXApiError(status, { ...problem, status }, rateLimit);
+  error.rateLimit = rateLimit;
+  return error;
+}
+
+/**
+ * Rebuild an error from a route's JSON error body. Returns null when the
+ * body isn't an X API error.
+ */
+export function fromXErrorBody(
+  body: (Partial<Omit<XErrorBody, 'error'>> & { error?: unknown }) | null,
+  responseStatus: number
+): XApiError | null {
+  if (!body || typeof body.error !== 'string') return null;
+
+  const problem = { title: body.title, detail: body.detail, type: body.type };
+  const message = body.message;
+
+  switch (body.error) {
+    case 'unauthorized':
+    case 'token_expired': // our own session check, before X is called
+      return new XAuthError(problem, message);
+    case 'rate_limit_exceeded':
+      return new XRateLimitError(problem, body.resetAt ? new Date(body.resetAt) : null, message);
+    case 'forbidden_tier':
+      return new XForbiddenTierError(problem, message);
+    case 'not_found':
+      return new XNotFoundError(problem, message);
+    case 'network_error':
+      return new XNetworkError(problem, message);
+    case 'x_api_error':
+      return new XApiError('x_api_error', message ?? 'X API request failed', { ...problem, status: body.status ?? responseStatus });
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * X API Pagination
+ *
+ * Walks X v2 list endpoints page by page through `meta.next_token`, yielding
+ * one item at a time until a limit, a date range or the last page ends the
+ * walk. The page fetcher is passed in, so the same walker serves the server
+ * client and the browser's calls through /api/x.
+ */
+
+/**
+ * One page of a list endpoint
+ */
+export interface XPage<T> {
+  data?: T[];
+  meta?: {
+    result_count?: number;
+    next_token?: string;
+  };
+}
+
+/**
+ * Where a walk stops. Timelines come newest first, so the walk ends at the
+ * first item older than startTime.
+ */
+export interface XPaginationOptions {
+  limit?: number; // most items to yield
+  startTime?: Date;
+  endTime?: Date;
+}
+
+/**
+ * What to request for the next page
+ */
+export interface XPageRequest {
+  paginationToken?: string;
+  maxResults: number;
+}
+
+/**
+ * Page size bounds for timeline endpoints
+ */
+export const X_MIN_PAGE_SIZE = 5;
+export const X_MAX_PAGE_SIZE = 100;
+
+/**
+ * Format a date the way X's start_time and end_time parameters expect
+ */
+export function toXTimestamp(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+/**
+ * Yield items across pages until the limit, date range or last page
+ */
+export async function* paginateX<T extends { created_at?: string }>(
+  fetchPage: (request: XPageRequest) => Promise<XPage<T>>,
+  options: XPaginationOptions = {}
+): AsyncGenerator<T> {
+  const { limit = Infinity, startTime, endTime } = options;
+  let paginationToken: string | undefined;
+  let yielded = 0;
+
+  while (yielded < limit) {
+    const maxResults = Math.min(Math.max(limit - yielded, X_MIN_PAGE_SIZE), X_MAX_PAGE_SIZE);
+    const page = await fetchPage({ paginationToken, maxResults });
+
+    for (const item of page.data ?? []) {
+      const createdAt = item.created_at ? new Date(item.created_at) : null;
+
+      if (createdAt && endTime && createdAt > endTime) continue;
+      if (createdAt && startTime && createdAt < startTime) return;
+
+      yield item;
+      if (++yielded >= limit) return;
+    }
+
+    paginationToken = page.meta?.next_token;
+    if (!paginationToken) return;
+  }
+}
+
+/**
+ * Gather everything a walk yields
+ */
+export async function collectPages<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = [];
+  for await (const item of items) {
+    result.push(item);
+  }
+  return result;
+}
@@ -0,0 +1,172 @@
+/**
+ * X API Proxy Rules
+ *
+ * The browser's X client (services/xapi.ts) calls X through /api/x with
+ * its own bearer token. Only the endpoints it uses are forwarded: each is
+ * a path template with the query parameters it accepts, and field lists
+ * are limited to known fields. Requests are also limited per client IP.
+ */
+
+import { checkClientRateLimit, type ClientRateLimit } from './clientRateLimit';
+import { TWEET_FIELDS, USER_FIELDS } from './xapi';
+import { X_MAX_PAGE_SIZE, X_MIN_PAGE_SIZE } from './xPagination';
+
+/**
+ * Rules for one query parameter
+ */
+export type XProxyParam =
+  | { type: 'fields'; allowed: readonly string[] }
+  | { type: 'integer'; min: number; max: number }
+  | { type: 'pattern'; pattern: RegExp };
+
+/**
+ * An endpoint the proxy forwards. `:id` segments must be numeric IDs.
+ */
+export interface XProxyEndpoint {
+  template: string;
+  params: Record<string, XProxyParam>;
+}
+
+/**
+ * A validated request, ready for requestX
+ */
+export interface XProxyRequest {
+  template: string;
+  path: string;
+  query: Record<string, string>;
+}
+
+/**
+ * Why a request was refused
+ */
+export type XProxyRejectReason =
+  | 'invalid_endpoint'
+  | 'endpoint_not_allowed'
+  | 'unknown_parameter'
+  | 'invalid_parameter'
+  | 'field_not_allowed';
+
+export interface XProxyRejection {
+  reason: XProxyRejectReason;
+  message: string;
+}
+
+// Timestamps in the form toXTimestamp() produces
+const X_TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{3})?Z$/;
+const X_ID_PATTERN = /^\d{1,19}$/;
+
+// Plain segments only: no dots, encoding, backslashes or empty segments
+const SAFE_PATH_PATTERN = /^(\/[A-Za-z0-9_]+)+$/;
+const MAX_ENDPOINT_LENGTH = 2048;
+
+/**
+ * Endpoints the proxy forwards
+ */
+export const X_PROXY_ENDPOINTS: XProxyEndpoint[] = [
+  {
+    template: '/users/me',
+    params: {
+      'user.fields': { type: 'fields', allowed: USER_FIELDS },
+    },
+  },
+  {
+    template: '/tweets/:id',
+    params: {
+      'tweet.fields': { type: 'fields', allowed: TWEET_FIELDS },
+    },
+  },
+  {
+    template: '/users/me/tweets',
+    params: {
+      max_results: { type: 'integer', min: X_MIN_PAGE_SIZE, max: X_MAX_PAGE_SIZE },
+      'tweet.fields': { type: 'fields', allowed: TWEET_FIELDS },
+      pagination_token: { type: 'pattern', pattern: /^[A-Za-z0-9_-]{1,128}$/ },
+      start_time: { type: 'pattern', pattern: X_TIMESTAMP_PATTERN },
+      end_time: { type: 'pattern', pattern: X_TIMESTAMP_PATTERN },
+    },
+  },
+];
+
+const matchTemplate = (template: string, path: string): boolean => {
+  const templateSegments = template.split('/');
+  const pathSegments = path.split('/');
+
+  return templateSegments.length === pathSegments.length && templateSegments.every((segment, index) => {
+    return segment === ':id' ? X_ID_PATTERN.test(pathSegments[index]) : segment === pathSegments[index];
+  });
+};
+
+const validateParam = (name: string, value: string, rule: XProxyParam): XProxyRejection | null => {
+  switch (rule.type) {
+    case 'fields': {
+      const fields = value.split(',');
+      const unknown = fields.filter(field => !rule.allowed.includes(field));
+      if (unknown.length > 0) {
+        return { reason: 'field_not_allowed', message: `${name} may only list: ${rule.allowed.join(', ')}` };
+      }
+      return null;
+    }
+    case 'integer': {
+      const number = Number(value);
+      if (!/^\d+$/.test(value) || number < rule.min || number > rule.max) {
+        return { reason: 'invalid_parameter', message: `${name} must be a whole number from ${rule.min} to ${rule.max}` };
+      }
+      return null;
+    }
+    case 'pattern':
+      return rule.pattern.test(value) ? null : { reason: 'invalid_parameter', message: `${name} has an invalid value` };
+  }
+};
+
+/**
+ * Check a proxied endpoint (path and query string, relative to /2) against
+ * the allowlist
+ */
+export function validateXProxyEndpoint(endpoint: string): XProxyRequest | XProxyRejection {
+  if (endpoint.length > MAX_ENDPOINT_LENGTH) {
+    return { reason: 'invalid_endpoint', message: 'endpoint is too long' };
+  }
+
+  const [path, queryString = '', ...rest] = endpoint.split('?');
+  if (rest.length > 0 || endpoint.includes('#') || !SAFE_PATH_PATTERN.test(path)) {
+    return { reason: 'invalid_endpoint', message: 'endpoint must be a plain API path' };
+  }
+
+  const match = X_PROXY_ENDPOINTS.find(candidate => matchTemplate(candidate.template, path));
+  if (!match) {
+    return { reason: 'endpoint_not_allowed', message: `${path} is not an endpoint this proxy forwards` };
+  }
+
+  const query: Record<string, string> = {};
+  for (const [name, value] of new URLSearchParams(queryString)) {
+    const rule = match.params[name];
+    if (!rule) {
+      return { reason: 'unknown_parameter', message: `${name} is not accepted for ${match.template}` };
+    }
+    if (name in query) {
+      return { reason: 'invalid_parameter', message: `${name} is given more than once` };
+    }
+
+    const rejection = validateParam(name, value, rule);
+    if (rejection) return rejection;
+    query[name] = value;
+  }
+
+  return { template: match.template, path, query };
+}
+
+/**
+ * Requests each client IP may make per window
+ */
+export const X_PROXY_RATE_LIMIT = {
+  MAX_REQUESTS: 60,
+  WINDOW_MS: 60_000,
+} as const satisfies ClientRateLimit;
+
+/**
+ * Count a request from an IP. Returns when its window resets if the IP is
+ * over the limit, otherwise null.
+ */
+export function checkXProxyRateLimit(ip: string, now: number = Date.now()): Date | null {
+  return checkClientRateLimit('x-proxy', ip, X_PROXY_RATE_LIMIT, now);
+}
@@ -0,0 +1,55 @@
+/**
+ * X API Rate Limits
+ *
+ * X reports each endpoint's request budget in x-rate-limit-* response
+ * headers. The server forwards them unchanged so the browser can parse them
+ * with the same code.
+ */
+
+/**
+ * Request budget for one endpoint
+ */
+export interface RateLimitInfo {
+  limit: number;
+  remaining: number;
+  reset: Date;
+}
+
+/**
+ * Rate limit response headers
+ */
+export const RATE_LIMIT_HEADERS = {
+  LIMIT: 'x-rate-limit-limit',
+  REMAINING: 'x-rate-limit-remaining',
+  RESET: 'x-rate-limit-reset', // Unix time in seconds
+} as const;
+
+/**
+ * Read the rate limit headers, or null when any is missing
+ */
+export function parseRateLimitHeaders(headers: Headers): RateLimitInfo | null {
+  const limit = headers.get(RATE_LIMIT_HEADERS.LIMIT);
+  const remaining = headers.get(RATE_LIMIT_HEADERS.REMAINING);
+  const reset = headers.get(RATE_LIMIT_HEADERS.RESET);
+
+  if (!limit || !remaining || !reset) return null;
+
+  return {
+    limit: parseInt(limit, 10),
+    remaining: parseInt(remaining, 10),
+    reset: new Date(parseInt(reset, 10) * 1000),
+  };
+}
+
+/**
+ * Headers that pass a rate limit on to the browser
+ */
+export function toRateLimitHeaders(rateLimit: RateLimitInfo | null): Record<string, string> {
+  if (!rateLimit) return {};
+
+  return {
+    [RATE_LIMIT_HEADERS.LIMIT]: String(rateLimit.limit),
+    [RATE_LIMIT_HEADERS.REMAINING]: String(rateLimit.remaining),
+    [RATE_LIMIT_HEADERS.RESET]: String(Math.floor(rateLimit.reset.getTime() / 1000)),
+  };
+}
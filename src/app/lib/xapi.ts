@@ -5,15 +5,28 @@
  * Handles authentication, rate limiting, and error handling.
  */
 
+import { parseRateLimitHeaders, type RateLimitInfo } from './xRateLimit';
+import { createXApiError, XNetworkError } from './xErrors';
+import { collectPages, paginateX, toXTimestamp, type XPaginationOptions } from './xPagination';
+
+/**
+ * X API origin. Override with X_API_BASE_URL to point the server at a mock
+ * X server (see scripts/mock-x-server.js).
+ */
+const X_API_ORIGIN = process.env.X_API_BASE_URL || 'https://api.x.com';
+
 /**
  * X API Endpoints
  */
 export const X_API_ENDPOINTS = {
-  BASE_URL: 'https://api.x.com/2',
+  ORIGIN: X_API_ORIGIN,
+  BASE_URL: `${X_API_ORIGIN}/2`,
+  UPDATE_PROFILE_IMAGE: '/1.1/account/update_profile_image.json', // relative to ORIGIN, no v2 equivalent
   USERS_ME: '/users/me',
   USERS_BY_ID: '/users/:id',
   USERS_BY_USERNAME: '/users/by/username/:username',
   TWEETS: '/tweets',
+  MEDIA_UPLOAD: '/media/upload',
   USER_TWEETS: '/users/:id/tweets',
 } as const;
 
@@ -115,27 +128,147 @@ export interface XAPIError {
 }
 
 /**
- * Fetch current user data
+ * Options for a single X API request
  */
-export async function fetchCurrentUser(accessToken: string): Promise<XUser> {
-  const url = new URL(`${X_API_ENDPOINTS.BASE_URL}${X_API_ENDPOINTS.USERS_ME}`);
-  url.searchParams.set('user.fields', USER_FIELDS.join(','));
+export interface XRequestOptions {
+  method?: 'GET' | 'POST' | 'DELETE';
+  query?: Record<string, string>;
+  json?: unknown;
+  body?: FormData | URLSearchParams;
+  api?: 'v2' | 'v1.1'; // v1.1 paths are relative to the origin
+  retries?: number; // 5xx and network retries; defaults to none for writes
+  maxRateLimitWaitMs?: number; // 0 fails fast on 429
+  etag?: string | null; // sent as If-None-Match to revalidate a cached response
+}
 
-  const response = await fetch(url.toString(), {
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      'Content-Type': 'application/json',
-    },
-  });
+/**
+ * Response body, the endpoint's remaining budget and the body's ETag when X
+ * sends one. A 304 to a conditional request has notModified set and no data.
+ */
+export interface XResponse<T> {
+  data: T;
+  rateLimit: RateLimitInfo | null;
+  etag: string | null;
+  notModified: boolean;
+}
 
-  if (!response.ok) {
-    const error = await response.json().catch(() => null);
-    throw new Error(
-      error?.detail || `X API error: ${response.status} ${response.statusText}`
-    );
+/**
+ * Retry policy: attempts after the first for reads, the base backoff that
+ * doubles per attempt, and the longest a 429 is waited out before failing
+ */
+export const X_MAX_RETRIES = 2;
+export const X_RETRY_BASE_DELAY_MS = 500;
+export const X_MAX_RATE_LIMIT_WAIT_MS = 10_000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Exponential backoff with jitter so concurrent callers don't retry in lockstep
+const getRetryDelay = (attempt: number): number => {
+  return Math.round(X_RETRY_BASE_DELAY_MS * 2 ** attempt * (0.5 + Math.random() / 2));
+};
+
+// v2 errors are problem details; v1.1 and some v2 errors use { errors: [...] }
+const readProblem = async (response: Response): Promise<Partial<XAPIError> | null> => {
+  const body = await response.json().catch(() => null);
+  if (!body || typeof body !== 'object') return null;
+
+  const first = Array.isArray(body.errors) ? body.errors[0] : null;
+  return {
+    title: body.title ?? first?.title,
+    detail: body.detail ?? first?.detail ?? first?.message,
+    type: body.type ?? first?.type,
+    status: body.status ?? response.status,
+  };
+};
+
+/**
+ * Make an X API request. Parses the rate limit headers on every response,
+ * retries 5xx responses and network errors with jittered backoff, and waits
+ * out a 429 when the budget resets soon enough, failing fast otherwise.
+ * Passing an ETag makes the request conditional. Failures throw the
+ * matching XApiError subclass.
+ */
+export async function requestX<T>(
+  path: string,
+  accessToken: string,
+  options: XRequestOptions = {}
+): Promise<XResponse<T>> {
+  const { method = 'GET', query = {}, json, body, api = 'v2' } = options;
+  const retries = options.retries ?? (method === 'GET' ? X_MAX_RETRIES : 0);
+  const maxRateLimitWaitMs = options.maxRateLimitWaitMs ?? X_MAX_RATE_LIMIT_WAIT_MS;
+
+  const url = new URL(`${api === 'v2' ? X_API_ENDPOINTS.BASE_URL : X_API_ENDPOINTS.ORIGIN}${path}`);
+  Object.entries(query).forEach(([key, value]) => url.searchParams.set(key, value));
+
+  const headers: Record<string, string> = { Authorization: `Bearer ${accessToken}` };
+  if (json !== undefined) headers['Content-Type'] = 'application/json';
+  if (options.etag) headers['If-None-Match'] = options.etag;
+
+  let rateLimitWaited = false;
+
+  for (let attempt = 0; ; attempt++) {
+    let response: Response;
+    try {
+      response = await fetch(url.toString(), {
+        method,
+        headers,
+        body: json !== undefined ? JSON.stringify(json) : body,
+      });
+    } catch (error) {
+      if (attempt < retries) {
+        console.warn(`[X API] ${method} ${path} network error, retrying:`, error instanceof Error ? error.message : error);
+        await sleep(getRetryDelay(attempt));
+        continue;
+      }
+      throw new XNetworkError({ detail: error instanceof Error ? error.message : String(error) });
+    }
+
+    const rateLimit = parseRateLimitHeaders(response.headers);
+    const etag = response.headers.get('etag');
+
+    if (response.status === 304 && options.etag) {
+      return { data: undefined as T, rateLimit, etag: etag ?? options.etag, notModified: true };
+    }
+
+    if (response.ok) {
+      const data = await response.json().catch(() => ({}));
+
+      // v2 reports some failures, like an unknown username, as a 200 with only errors
+      if (data !== null && typeof data === 'object' && !('data' in data) && Array.isArray(data.errors) && data.errors.length > 0) {
+        const [first] = data.errors;
+        throw createXApiError(first.title === 'Not Found Error' ? 404 : response.status, first, rateLimit);
+      }
+
+      return { data: data as T, rateLimit, etag, notModified: false };
+    }
+
+    if (response.status === 429 && !rateLimitWaited && rateLimit) {
+      const waitMs = rateLimit.reset.getTime() - Date.now();
+      if (waitMs <= maxRateLimitWaitMs) {
+        console.warn(`[X API] ${method} ${path} rate limited, waiting ${Math.max(waitMs, 0)}ms for reset`);
+        rateLimitWaited = true;
+        await sleep(Math.max(waitMs, 0));
+        continue;
+      }
+    }
+
+    if (response.status >= 500 && attempt < retries) {
+      console.warn(`[X API] ${method} ${path} failed with ${response.status}, retrying`);
+      await sleep(getRetryDelay(attempt));
+      continue;
+    }
+
+    throw createXApiError(response.status, await readProblem(response), rateLimit);
   }
+}
 
-  const data: XAPIResponse<XUser> = await response.json();
+/**
+ * Fetch current user data
+ */
+export async function fetchCurrentUser(accessToken: string): Promise<XUser> {
+  const { data } = await requestX<XAPIResponse<XUser>>(X_API_ENDPOINTS.USERS_ME, accessToken, {
+    query: { 'user.fields': USER_FIELDS.join(',') },
+  });
   return data.data;
 }
 
@@ -146,32 +279,38 @@ export async function fetchUserByUsername(
   username: string,
   accessToken: string
 ): Promise<XUser> {
-  const url = new URL(
-    `${X_API_ENDPOINTS.BASE_URL}${X_API_ENDPOINTS.USERS_BY_USERNAME.replace(
-      ':username',
-      username
-    )}`
-  );
-  url.searchParams.set('user.fields', USER_FIELDS.join(','));
-
-  const response = await fetch(url.toString(), {
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      'Content-Type': 'application/json',
-    },
+  const path = X_API_ENDPOINTS.USERS_BY_USERNAME.replace(':username', encodeURIComponent(username));
+  const { data } = await requestX<XAPIResponse<XUser>>(path, accessToken, {
+    query: { 'user.fields': USER_FIELDS.join(',') },
   });
-
-  if (!response.ok) {
-    const error = await response.json().catch(() => null);
-    throw new Error(
-      error?.detail || `X API error: ${response.status} ${response.statusText}`
-    );
-  }
-
-  const data: XAPIResponse<XUser> = await response.json();
   return data.data;
 }
 
+/**
+ * Walk a user's tweets newest first across pages, up to a limit or back to
+ * startTime
+ */
+export function iterateUserTweets(
+  userId: string,
+  accessToken: string,
+  options: XPaginationOptions = {}
+): AsyncGenerator<XTweet> {
+  const path = X_API_ENDPOINTS.USER_TWEETS.replace(':id', encodeURIComponent(userId));
+
+  return paginateX<XTweet>(async ({ paginationToken, maxResults }) => {
+    const { data } = await requestX<XAPIResponse<XTweet[]>>(path, accessToken, {
+      query: {
+        'tweet.fields': TWEET_FIELDS.join(','),
+        max_results: maxResults.toString(),
+        ...(paginationToken && { pagination_token: paginationToken }),
+        ...(options.startTime && { start_time: toXTimestamp(options.startTime) }),
+        ...(options.endTime && { end_time: toXTimestamp(options.endTime) }),
+      },
+    });
+    return data;
+  }, options);
+}
+
 /**
  * Fetch user tweets
  */
@@ -180,28 +319,79 @@ export async function fetchUserTweets(
   accessToken: string,
   maxResults: number = 10
 ): Promise<XTweet[]> {
-  const url = new URL(
-    `${X_API_ENDPOINTS.BASE_URL}${X_API_ENDPOINTS.USER_TWEETS.replace(':id', userId)}`
-  );
-  url.searchParams.set('tweet.fields', TWEET_FIELDS.join(','));
-  url.searchParams.set('max_results', maxResults.toString());
+  return collectPages(iterateUserTweets(userId, accessToken, { limit: maxResults }));
+}
 
-  const response = await fetch(url.toString(), {
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      'Content-Type': 'application/json',
+/**
+ * Upload an image for use in a tweet and return its media ID
+ */
+export async function uploadMedia(
+  accessToken: string,
+  image: Buffer,
+  mediaType: 'image/png' | 'image/jpeg'
+): Promise<string> {
+  const form = new FormData();
+  form.set('media', new Blob([new Uint8Array(image)], { type: mediaType }));
+  form.set('media_category', 'tweet_image');
+  form.set('media_type', mediaType);
+
+  const { data } = await requestX<XAPIResponse<{ id: string }>>(X_API_ENDPOINTS.MEDIA_UPLOAD, accessToken, {
+    method: 'POST',
+    body: form,
+  });
+  return data.data.id;
+}
+
+/**
+ * Post a tweet as the authenticated user, optionally with uploaded media
+ */
+export async function postTweet(
+  accessToken: string,
+  text: string,
+  mediaIds: string[] = []
+): Promise<{ id: string; text: string }> {
+  const { data } = await requestX<XAPIResponse<{ id: string; text: string }>>(X_API_ENDPOINTS.TWEETS, accessToken, {
+    method: 'POST',
+    json: {
+      text,
+      ...(mediaIds.length > 0 && { media: { media_ids: mediaIds } }),
     },
   });
+  return data.data;
+}
 
-  if (!response.ok) {
-    const error = await response.json().catch(() => null);
-    throw new Error(
-      error?.detail || `X API error: ${response.status} ${response.statusText}`
-    );
+/**
+ * Largest profile image X accepts
+ */
+export const MAX_PROFILE_IMAGE_BYTES = 700 * 1024; // 700KB
+
+/**
+ * Replace the authenticated user's profile image. Returns the new image URL
+ * when X reports it.
+ *
+ * This is a v1.1 endpoint, which only accepts OAuth 1.0a user-context
+ * requests. Our OAuth 2.0 user tokens are refused by the real X API (no
+ * 2.0 scope grants profile updates); it works against the mock X server.
+ * See X_API_INTEGRATION.md.
+ */
+export async function updateProfileImage(
+  accessToken: string,
+  image: Buffer
+): Promise<{ profileImageUrl?: string }> {
+  if (image.length > MAX_PROFILE_IMAGE_BYTES) {
+    throw new Error('Profile image too large. X accepts images up to 700KB.');
   }
 
-  const data: XAPIResponse<XTweet[]> = await response.json();
-  return data.data || [];
+  const { data } = await requestX<{ profile_image_url_https?: string; profile_image_url?: string }>(
+    X_API_ENDPOINTS.UPDATE_PROFILE_IMAGE,
+    accessToken,
+    {
+      method: 'POST',
+      api: 'v1.1',
+      body: new URLSearchParams({ image: image.toString('base64'), skip_status: 'true' }),
+    }
+  );
+  return { profileImageUrl: data.profile_image_url_https ?? data.profile_image_url };
 }
 
 /**
@@ -252,29 +442,6 @@ export function getTopTweet(tweets: XTweet[]): XTweet | null {
   });
 }
 
-/**
- * Check rate limit headers
- */
-export interface RateLimitInfo {
-  limit: number;
-  remaining: number;
-  reset: Date;
-}
-
-export function parseRateLimitHeaders(headers: Headers): RateLimitInfo | null {
-  const limit = headers.get('x-rate-limit-limit');
-  const remaining = headers.get('x-rate-limit-remaining');
-  const reset = headers.get('x-rate-limit-reset');
-
-  if (!limit || !remaining || !reset) return null;
-
-  return {
-    limit: parseInt(limit, 10),
-    remaining: parseInt(remaining, 10),
-    reset: new Date(parseInt(reset, 10) * 1000),
-  };
-}
-
 /**
  * Format large numbers (e.g., 1.2K, 10.5M)
  */
@@ -2,6 +2,10 @@
 
 import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { Target, Users, TrendingUp, Zap, Download, Upload, Settings, Trophy, CheckCircle, Star, ArrowRight, Mail, BarChart3, Calendar, Activity } from 'lucide-react';
+import { renderGrowthRing, DEFAULT_RING_SIZE } from './lib/ringRenderer';
+import { BUILT_IN_RING_STYLES } from './lib/ringStyles';
+import { scaleImageToMaxSize } from './utils/imageProcessor';
+import { SUPPORTED_FORMATS_TEXT } from './utils/imageIngestion';
 
 interface AnalyticsDataPoint {
   date: string;
@@ -27,101 +31,6 @@ function useDebounce<T>(value: T, delay: number): T {
   return debouncedValue;
 }
 
-// Image scaling utility with comprehensive error handling
-const scaleImageToMaxSize = (file: File, maxSize: number = 400): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    // Validate file
-    if (!file || !file.type.startsWith('image/')) {
-      reject(new Error('Invalid file type. Please select an image file.'));
-      return;
-    }
-
-    if (file.size > 50 * 1024 * 1024) { // 50MB absolute limit
-      reject(new Error('File too large. Please select an image smaller than 50MB.'));
-      return;
-    }
-
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-
-    if (!ctx) {
-      reject(new Error('Canvas not supported in this browser.'));
-      return;
-    }
-
-    const img = new Image();
-    let objectUrl: string;
-
-    const cleanup = () => {
-      if (objectUrl) {
-        URL.revokeObjectURL(objectUrl);
-      }
-    };
-
-    img.onload = () => {
-      try {
-        // Validate image dimensions
-        if (img.width === 0 || img.height === 0) {
-          cleanup();
-          reject(new Error('Invalid image: Image has zero dimensions.'));
-          return;
-        }
-
-        if (img.width > 10000 || img.height > 10000) {
-          cleanup();
-          reject(new Error('Image too large: Maximum dimensions are 10000x10000 pixels.'));
-          return;
-        }
-
-        // Calculate new dimensions
-        let { width, height } = img;
-        const aspectRatio = width / height;
-
-        if (width > height) {
-          width = Math.min(width, maxSize);
-          height = width / aspectRatio;
-        } else {
-          height = Math.min(height, maxSize);
-          width = height * aspectRatio;
-        }
-
-        canvas.width = Math.round(width);
-        canvas.height = Math.round(height);
-
-        // Clear canvas and draw image
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
-        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-
-        // Convert to data URL with error handling
-        const dataUrl = canvas.toDataURL('image/jpeg', 0.8);
-        if (!dataUrl || dataUrl === 'data:,') {
-          cleanup();
-          reject(new Error('Failed to process image. The image may be corrupted.'));
-          return;
-        }
-
-        cleanup();
-        resolve(dataUrl);
-      } catch (error) {
-        cleanup();
-        reject(new Error(`Failed to process image: ${error instanceof Error ? error.message : 'Unknown error'}`));
-      }
-    };
-
-    img.onerror = () => {
-      cleanup();
-      reject(new Error('Failed to load image. The image may be corrupted or in an unsupported format.'));
-    };
-
-    try {
-      objectUrl = URL.createObjectURL(file);
-      img.src = objectUrl;
-    } catch (error) {
-      reject(new Error(`Failed to read file: ${error instanceof Error ? error.message : 'Unknown error'}`));
-    }
-  });
-};
-
 export default function GrowthRingsApp() {
   const [showTool, setShowTool] = useState(false);
   const [showAnalytics, setShowAnalytics] = useState(false);
@@ -142,43 +51,57 @@ export default function GrowthRingsApp() {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
 
-  // Analytics state
-  const [analyticsData] = useState<AnalyticsDataPoint[]>(() => {
-    // Try to load from localStorage first
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem('growthRingsAnalytics');
-      if (saved) {
-        try {
-          return JSON.parse(saved);
-        } catch {
-          console.warn('Failed to parse saved analytics data');
+  // Analytics state, read from the daily snapshots recorded on the server
+  const [analyticsData, setAnalyticsData] = useState<AnalyticsDataPoint[]>([]);
+  const [historyNotice, setHistoryNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!showAnalytics) return;
+
+    // Older versions stored generated sample data here
+    localStorage.removeItem('growthRingsAnalytics');
+
+    let cancelled = false;
+
+    const loadHistory = async () => {
+      try {
+        const response = await fetch('/api/x/history?days=30', { credentials: 'include' });
+
+        if (response.status === 401) {
+          setAnalyticsData([]);
+          setHistoryNotice('Sign in with X to start recording your daily metrics.');
+          return;
         }
+
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.message || `Request failed with status ${response.status}`);
+        }
+        if (cancelled) return;
+
+        const snapshots: Array<{ date: string; followersCount: number; tweetCount: number; engagementRate: number | null }> = result.data.snapshots;
+        setAnalyticsData(snapshots.map((snapshot, index) => ({
+          date: snapshot.date,
+          followers: snapshot.followersCount,
+          engagement: snapshot.engagementRate ?? 0,
+          // Tweets posted since the previous snapshot
+          tweets: index > 0 ? Math.max(snapshot.tweetCount - snapshots[index - 1].tweetCount, 0) : 0,
+        })));
+        setHistoryNotice(result.data.hasEnoughHistory
+          ? null
+          : `Not enough history yet. One snapshot is recorded per day you sync; trends appear after ${result.data.minimumDays} days (${snapshots.length} so far).`);
+      } catch (error) {
+        if (cancelled) return;
+        setHistoryNotice(`Failed to load history: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
-    }
+    };
 
-    // Generate sample analytics data for the last 30 days
-    const data: AnalyticsDataPoint[] = [];
-    const today = new Date();
-    for (let i = 29; i >= 0; i--) {
-      const date = new Date(today);
-      date.setDate(date.getDate() - i);
-      const followers = Math.floor(2000 + (Math.random() * 1000) + (i * 20));
-      data.push({
-        date: date.toISOString().split('T')[0],
-        followers,
-        engagement: Math.floor(2 + Math.random() * 4),
-        tweets: Math.floor(5 + Math.random() * 15)
-      });
-    }
-    return data;
-  });
+    loadHistory();
 
-  // Save analytics data to localStorage whenever it changes
-  useEffect(() => {
-    if (typeof window !== 'undefined' && analyticsData.length > 0) {
-      localStorage.setItem('growthRingsAnalytics', JSON.stringify(analyticsData));
-    }
-  }, [analyticsData]);
+    return () => {
+      cancelled = true;
+    };
+  }, [showAnalytics]);
 
   const goalTypes = useMemo(() => ({
     followers: { icon: Users, label: 'Followers', color: '#1DA1F2', format: (val: number) => val.toLocaleString() },
@@ -186,11 +109,7 @@ export default function GrowthRingsApp() {
     tweets: { icon: Zap, label: 'Monthly Tweets', color: '#8B5CF6', format: (val: number) => val.toString() }
   }), []);
 
-  const ringStyles = useMemo(() => ({
-    classic: { name: 'Classic Ring', gradient: false },
-    gradient: { name: 'Gradient Glow', gradient: true },
-    neon: { name: 'Neon Pulse', gradient: true, glow: true }
-  }), []);
+  const ringStyles = BUILT_IN_RING_STYLES;
 
   const timeframes = {
     '1month': { label: '1 Month', days: 30 },
@@ -232,7 +151,7 @@ export default function GrowthRingsApp() {
           return;
         }
 
-        const size = 400;
+        const size = DEFAULT_RING_SIZE;
 
         try {
           canvas.width = size;
@@ -255,138 +174,13 @@ export default function GrowthRingsApp() {
           clearTimeout(imageTimeout);
 
           try {
-            // Validate image loaded properly
-            if (img.width === 0 || img.height === 0) {
-              setCanvasError('Invalid image loaded. Please try a different image.');
-              setIsGenerating(false);
-              return;
-            }
-
-            ctx.save();
-            ctx.beginPath();
-            ctx.arc(size / 2, size / 2, size / 2 - 25, 0, 2 * Math.PI);
-            ctx.clip();
-
-            // Draw image with error handling
-            try {
-              ctx.drawImage(img, 0, 0, size, size);
-            } catch (_error) {
-              setCanvasError('Failed to draw image on canvas. The image may be corrupted.');
-              setIsGenerating(false);
-              return;
-            }
-
-            ctx.restore();
-
-            const centerX = size / 2;
-            const centerY = size / 2;
-            const radius = size / 2 - 20;
-            const lineWidth = 10;
-
-            // Background ring
-            try {
-              ctx.beginPath();
-              ctx.arc(centerX, centerY, radius, 0, 2 * Math.PI);
-              ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
-              ctx.lineWidth = lineWidth;
-              ctx.stroke();
-            } catch (_error) {
-              setCanvasError('Failed to draw background ring.');
-              setIsGenerating(false);
-              return;
-            }
-
-            // Progress ring - use debounced progress for smoother updates
-            try {
-              const startAngle = -Math.PI / 2;
-              const endAngle = startAngle + (debouncedProgressPercentage / 100) * 2 * Math.PI;
-
-              ctx.beginPath();
-              ctx.arc(centerX, centerY, radius, startAngle, endAngle);
-
-              if (ringStyles[ringStyle as keyof typeof ringStyles].gradient) {
-                const gradient = ctx.createLinearGradient(0, 0, size, size);
-                gradient.addColorStop(0, currentGoal.color);
-                gradient.addColorStop(1, currentGoal.color + '80');
-                ctx.strokeStyle = gradient;
-              } else {
-                ctx.strokeStyle = currentGoal.color;
-              }
-
-              ctx.lineWidth = lineWidth;
-              ctx.lineCap = 'round';
-
-              const currentRingStyle = ringStyles[ringStyle as keyof typeof ringStyles];
-              if ('glow' in currentRingStyle && currentRingStyle.glow) {
-                ctx.shadowColor = currentGoal.color;
-                ctx.shadowBlur = 15;
-              }
-
-              ctx.stroke();
-              ctx.shadowBlur = 0;
-            } catch (_error) {
-              setCanvasError('Failed to draw progress ring.');
-              setIsGenerating(false);
-              return;
-            }
-
-            // Add text elements
-            try {
-              // Add percentage text - use debounced progress
-              ctx.fillStyle = '#FFFFFF';
-              ctx.font = 'bold 28px Arial';
-              ctx.textAlign = 'center';
-              ctx.textBaseline = 'middle';
-              ctx.strokeStyle = '#000000';
-              ctx.lineWidth = 3;
-              ctx.strokeText(`${Math.round(debouncedProgressPercentage)}%`, centerX, centerY + 10);
-              ctx.fillText(`${Math.round(debouncedProgressPercentage)}%`, centerX, centerY + 10);
-
-              // Add goal label
-              ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
-              ctx.font = 'bold 14px Arial';
-              ctx.fillText(currentGoal.label.toUpperCase(), centerX, centerY + 40);
-            } catch (error) {
-              // Text rendering errors are non-critical, continue
-              console.warn('Failed to render text on canvas:', error);
-            }
-
-            // Achievement badge if goal reached
-            try {
-              if (debouncedProgressPercentage >= 100) {
-                const badgeSize = 70;
-                const badgeX = centerX + radius - badgeSize/2;
-                const badgeY = centerY - badgeSize/2;
-
-                ctx.beginPath();
-                ctx.arc(badgeX, badgeY, badgeSize/2, 0, 2 * Math.PI);
-                ctx.fillStyle = '#FFD700';
-                ctx.fill();
-                ctx.strokeStyle = '#FFA500';
-                ctx.lineWidth = 3;
-                ctx.stroke();
-
-                ctx.fillStyle = '#FF6B35';
-                ctx.font = 'bold 28px Arial';
-                ctx.textAlign = 'center';
-                ctx.textBaseline = 'middle';
-                ctx.fillText('🏆', badgeX, badgeY);
-              }
-            } catch (error) {
-              // Badge rendering errors are non-critical, continue
-              console.warn('Failed to render achievement badge:', error);
-            }
-
-            // Watermark
-            try {
-              ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
-              ctx.font = '10px Arial';
-              ctx.textAlign = 'right';
-              ctx.fillText('growthrings.app', size - 10, size - 10);
-            } catch (error) {
-              // Watermark errors are non-critical, continue
-              console.warn('Failed to render watermark:', error);
-            }
+            renderGrowthRing(ctx, {
+              image: img,
+              progress: debouncedProgressPercentage,
+              goal: currentGoal,
+              style: ringStyles[ringStyle as keyof typeof ringStyles],
+              size,
+            });
 
             setShowCanvas(true);
             setIsGenerating(false);
@@ -431,8 +225,9 @@ export default function GrowthRingsApp() {
       }
 
       // Validate file type
-      if (!file.type.startsWith('image/')) {
-        setImageError('Invalid file type. Please select an image file (JPG, PNG, GIF, etc.).');
+      // HEIC photos often arrive without a MIME type, so only reject known non-images
+      if (file.type && !file.type.startsWith('image/')) {
+        setImageError(`Invalid file type. Please select an image file (${SUPPORTED_FORMATS_TEXT}).`);
         return;
       }
 
@@ -751,7 +546,7 @@ export default function GrowthRingsApp() {
                   <input
                     ref={fileInputRef}
                     type="file"
-                    accept="image/*"
+                    accept="image/*,.heic,.heif,.avif,.webp,.svg"
                     onChange={handleImageUpload}
                     className="hidden"
                   />
@@ -938,104 +733,113 @@ export default function GrowthRingsApp() {
         </div>
 
         <div className="max-w-6xl mx-auto p-6">
-          {/* Stats Overview */}
-          <div className="grid md:grid-cols-3 gap-6 mb-8">
-            <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
-              <div className="flex items-center gap-3 mb-2">
-                <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
-                  <TrendingUp className="text-blue-600" size={20} />
-                </div>
-                <div>
-                  <p className="text-sm text-gray-600">30-Day Growth</p>
-                  <p className="text-2xl font-bold text-gray-900">
-                    {stats.growth > 0 ? '+' : ''}{stats.growth.toFixed(1)}%
-                  </p>
-                </div>
-              </div>
+          {historyNotice ? (
+            <div className="bg-blue-50 border border-blue-200 rounded-xl p-6 flex items-start gap-3" role="status">
+              <Calendar className="text-blue-600 flex-shrink-0" size={20} />
+              <p className="text-sm text-blue-800">{historyNotice}</p>
             </div>
-
-            <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
-              <div className="flex items-center gap-3 mb-2">
-                <div className="w-10 h-10 bg-green-100 rounded-lg flex items-center justify-center">
-                  <Activity className="text-green-600" size={20} />
-                </div>
-                <div>
-                  <p className="text-sm text-gray-600">Avg Engagement</p>
-                  <p className="text-2xl font-bold text-gray-900">{stats.avgEngagement.toFixed(1)}%</p>
+          ) : (
+            <>
+              {/* Stats Overview */}
+              <div className="grid md:grid-cols-3 gap-6 mb-8">
+                <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
+                  <div className="flex items-center gap-3 mb-2">
+                    <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
+                      <TrendingUp className="text-blue-600" size={20} />
+                    </div>
+                    <div>
+                      <p className="text-sm text-gray-600">30-Day Growth</p>
+                      <p className="text-2xl font-bold text-gray-900">
+                        {stats.growth > 0 ? '+' : ''}{stats.growth.toFixed(1)}%
+                      </p>
+                    </div>
+                  </div>
                 </div>
-              </div>
-            </div>
 
-            <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
-              <div className="flex items-center gap-3 mb-2">
-                <div className="w-10 h-10 bg-purple-100 rounded-lg flex items-center justify-center">
-                  <Zap className="text-purple-600" size={20} />
+                <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
+                  <div className="flex items-center gap-3 mb-2">
+                    <div className="w-10 h-10 bg-green-100 rounded-lg flex items-center justify-center">
+                      <Activity className="text-green-600" size={20} />
+                    </div>
+                    <div>
+                      <p className="text-sm text-gray-600">Avg Engagement</p>
+                      <p className="text-2xl font-bold text-gray-900">{stats.avgEngagement.toFixed(1)}%</p>
+                    </div>
+                  </div>
                 </div>
-                <div>
-                  <p className="text-sm text-gray-600">Total Tweets</p>
-                  <p className="text-2xl font-bold text-gray-900">{stats.totalTweets}</p>
+
+                <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
+                  <div className="flex items-center gap-3 mb-2">
+                    <div className="w-10 h-10 bg-purple-100 rounded-lg flex items-center justify-center">
+                      <Zap className="text-purple-600" size={20} />
+                    </div>
+                    <div>
+                      <p className="text-sm text-gray-600">Total Tweets</p>
+                      <p className="text-2xl font-bold text-gray-900">{stats.totalTweets}</p>
+                    </div>
+                  </div>
                 </div>
               </div>
-            </div>
-          </div>
 
-          {/* Charts */}
-          <div className="grid lg:grid-cols-2 gap-6">
-            <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
-              <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
-                <Users className="text-blue-600" size={20} />
-                Followers Growth
-              </h3>
-              <SimpleChart data={analyticsData} metric="followers" color="#1DA1F2" />
-              <div className="mt-4 flex justify-between text-sm text-gray-600">
-                <span>{analyticsData[0]?.followers.toLocaleString()}</span>
-                <span>{analyticsData[analyticsData.length - 1]?.followers.toLocaleString()}</span>
-              </div>
-            </div>
+              {/* Charts */}
+              <div className="grid lg:grid-cols-2 gap-6">
+                <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                    <Users className="text-blue-600" size={20} />
+                    Followers Growth
+                  </h3>
+                  <SimpleChart data={analyticsData} metric="followers" color="#1DA1F2" />
+                  <div className="mt-4 flex justify-between text-sm text-gray-600">
+                    <span>{analyticsData[0]?.followers.toLocaleString()}</span>
+                    <span>{analyticsData[analyticsData.length - 1]?.followers.toLocaleString()}</span>
+                  </div>
+                </div>
 
-            <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
-              <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
-                <TrendingUp className="text-green-600" size={20} />
-                Engagement Rate
-              </h3>
-              <SimpleChart data={analyticsData} metric="engagement" color="#17BF63" />
-              <div className="mt-4 flex justify-between text-sm text-gray-600">
-                <span>{analyticsData[0]?.engagement.toFixed(1)}%</span>
-                <span>{analyticsData[analyticsData.length - 1]?.engagement.toFixed(1)}%</span>
-              </div>
-            </div>
+                <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                    <TrendingUp className="text-green-600" size={20} />
+                    Engagement Rate
+                  </h3>
+                  <SimpleChart data={analyticsData} metric="engagement" color="#17BF63" />
+                  <div className="mt-4 flex justify-between text-sm text-gray-600">
+                    <span>{analyticsData[0]?.engagement.toFixed(1)}%</span>
+                    <span>{analyticsData[analyticsData.length - 1]?.engagement.toFixed(1)}%</span>
+                  </div>
+                </div>
 
-            <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
-              <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
-                <Zap className="text-purple-600" size={20} />
-                Daily Tweets
-              </h3>
-              <SimpleChart data={analyticsData} metric="tweets" color="#8B5CF6" />
-              <div className="mt-4 flex justify-between text-sm text-gray-600">
-                <span>{analyticsData[0]?.tweets}</span>
-                <span>{analyticsData[analyticsData.length - 1]?.tweets}</span>
-              </div>
-            </div>
+                <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                    <Zap className="text-purple-600" size={20} />
+                    Daily Tweets
+                  </h3>
+                  <SimpleChart data={analyticsData} metric="tweets" color="#8B5CF6" />
+                  <div className="mt-4 flex justify-between text-sm text-gray-600">
+                    <span>{analyticsData[0]?.tweets}</span>
+                    <span>{analyticsData[analyticsData.length - 1]?.tweets}</span>
+                  </div>
+                </div>
 
-            <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
-              <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
-                <Calendar className="text-orange-600" size={20} />
-                Recent Data
-              </h3>
-              <div className="space-y-3 max-h-32 overflow-y-auto">
-                {analyticsData.slice(-5).reverse().map((data, index) => (
-                  <div key={index} className="flex justify-between items-center text-sm">
-                    <span className="text-gray-600">{new Date(data.date).toLocaleDateString()}</span>
-                    <div className="flex gap-4">
-                      <span className="text-blue-600">{data.followers.toLocaleString()}</span>
-                      <span className="text-green-600">{data.engagement.toFixed(1)}%</span>
-                      <span className="text-purple-600">{data.tweets}</span>
-                    </div>
+                <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                    <Calendar className="text-orange-600" size={20} />
+                    Recent Data
+                  </h3>
+                  <div className="space-y-3 max-h-32 overflow-y-auto">
+                    {analyticsData.slice(-5).reverse().map((data, index) => (
+                      <div key={index} className="flex justify-between items-center text-sm">
+                        <span className="text-gray-600">{new Date(data.date).toLocaleDateString()}</span>
+                        <div className="flex gap-4">
+                          <span className="text-blue-600">{data.followers.toLocaleString()}</span>
+                          <span className="text-green-600">{data.engagement.toFixed(1)}%</span>
+                          <span className="text-purple-600">{data.tweets}</span>
+                        </div>
+                      </div>
+                    ))}
                   </div>
-                ))}
+                </div>
               </div>
-            </div>
-          </div>
+            </>
+          )}
         </div>
       </div>
     );
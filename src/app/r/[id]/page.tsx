@@ -0,0 +1,100 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { headers } from 'next/headers';
+import { notFound } from 'next/navigation';
+import { Target } from 'lucide-react';
+import { getSharedRing } from '../../lib/ringShareStore';
+import { getRingCaption } from '../../lib/serverRing';
+import { RING_EXPORT_PRESETS } from '../../lib/ringRenderer';
+
+// Shared rings are read from the store on each request
+export const dynamic = 'force-dynamic';
+
+interface SharedRingPageProps {
+  params: Promise<{ id: string }>;
+}
+
+// Crawlers need absolute image URLs; prefer the configured public URL
+async function getOrigin(): Promise<string> {
+  if (process.env.NEXTAUTH_URL) return process.env.NEXTAUTH_URL;
+
+  const requestHeaders = await headers();
+  const host = requestHeaders.get('x-forwarded-host') ?? requestHeaders.get('host') ?? 'localhost:3000';
+  const protocol = requestHeaders.get('x-forwarded-proto') ?? (host.startsWith('localhost') ? 'http' : 'https');
+  return `${protocol}://${host}`;
+}
+
+export async function generateMetadata({ params }: SharedRingPageProps): Promise<Metadata> {
+  const { id } = await params;
+  const ring = await getSharedRing(id);
+
+  if (!ring) {
+    return { title: 'Ring not found - Growth Rings' };
+  }
+
+  const caption = getRingCaption(ring.options);
+  const title = `${caption.title} - Growth Rings`;
+  const image = {
+    url: `/api/share/${id}/image`,
+    width: RING_EXPORT_PRESETS['og-image'].width,
+    height: RING_EXPORT_PRESETS['og-image'].height,
+    alt: `Growth ring: ${caption.title}`,
+  };
+
+  return {
+    metadataBase: new URL(await getOrigin()),
+    title,
+    description: caption.subtitle,
+    openGraph: {
+      type: 'website',
+      url: `/r/${id}`,
+      title,
+      description: caption.subtitle,
+      images: [image],
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description: caption.subtitle,
+      images: [image.url],
+    },
+  };
+}
+
+export default async function SharedRingPage({ params }: SharedRingPageProps) {
+  const { id } = await params;
+  const ring = await getSharedRing(id);
+
+  if (!ring) {
+    notFound();
+  }
+
+  const caption = getRingCaption(ring.options);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center p-6">
+      <div className="max-w-md w-full bg-white rounded-xl shadow-lg p-8 border border-gray-200 text-center">
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img
+          src={`/api/share/${id}/image?preset=x-avatar`}
+          alt={`Growth ring: ${caption.title}`}
+          width={RING_EXPORT_PRESETS['x-avatar'].width}
+          height={RING_EXPORT_PRESETS['x-avatar'].height}
+          className="mx-auto rounded-full shadow-lg mb-6"
+          style={{ maxWidth: '300px', width: '100%', height: 'auto' }}
+        />
+
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">{caption.title}</h1>
+        <p className="text-gray-600 mb-6">{caption.subtitle}</p>
+
+        <Link
+          href="/"
+          className="inline-flex items-center gap-2 bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white px-6 py-3 rounded-lg font-medium transition-colors"
+        >
+          <Target size={18} aria-hidden="true" />
+          Make your own growth ring
+        </Link>
+      </div>
+    </div>
+  );
+}
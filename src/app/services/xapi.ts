@@ -1,3 +1,7 @@
+import { parseRateLimitHeaders, type RateLimitInfo } from '../lib/xRateLimit';
+import { createXApiError, fromXErrorBody, XApiError, XNetworkError } from '../lib/xErrors';
+import { collectPages, paginateX, toXTimestamp, type XPage, type XPaginationOptions } from '../lib/xPagination';
+
 interface XApiConfig {
   bearerToken: string;
 }
@@ -25,7 +29,13 @@ interface AnalyticsHistory {
   followersCount: number;
   followingCount: number;
   tweetCount: number;
-  engagementRate: number;
+  engagementRate: number | null;
+}
+
+interface HistoricalData {
+  history: AnalyticsHistory[];
+  hasEnoughHistory: boolean;
+  minimumDays: number;
 }
 
 interface TweetAnalytics {
@@ -42,6 +52,24 @@ interface TweetAnalytics {
   engagementRate: number;
 }
 
+interface RawTweet {
+  id: string;
+  text: string;
+  created_at: string;
+  public_metrics: {
+    retweet_count: number;
+    like_count: number;
+    reply_count: number;
+    quote_count: number;
+  };
+}
+
+/**
+ * How far back detailed analytics reads tweets, and the most it reads
+ */
+export const ANALYTICS_TWEET_DAYS = 90;
+export const ANALYTICS_MAX_TWEETS = 500;
+
 interface XApiResponse<T> {
   data: T;
   errors?: Array<{
@@ -54,51 +82,63 @@ interface XApiResponse<T> {
 export class XApiService {
   private config: XApiConfig;
   private baseUrl = '/api/x';
+  private rateLimits = new Map<string, RateLimitInfo>();
 
   constructor(config: XApiConfig) {
     this.config = config;
   }
 
+  /**
+   * Tightest request budget seen across the endpoints called so far
+   */
+  getRateLimit(): RateLimitInfo | null {
+    const budgets = Array.from(this.rateLimits.values());
+    if (budgets.length === 0) return null;
+
+    return budgets.reduce((lowest, budget) => (budget.remaining < lowest.remaining ? budget : lowest));
+  }
+
   private async makeRequest<T>(endpoint: string): Promise<T> {
+    let response: Response;
     try {
-      const response = await fetch(`${this.baseUrl}?endpoint=${encodeURIComponent(endpoint)}`, {
+      response = await fetch(`${this.baseUrl}?endpoint=${encodeURIComponent(endpoint)}`, {
         method: 'GET',
         headers: {
           'Authorization': `Bearer ${this.config.bearerToken}`,
           'Content-Type': 'application/json',
         },
       });
+    } catch (error) {
+      // fetch only rejects when the request never got a response (network, CORS)
+      throw new XNetworkError(
+        { detail: error instanceof Error ? error.message : String(error) },
+        'Cannot connect to X API. Please check your bearer token and internet connection.'
+      );
+    }
 
-      if (!response.ok) {
-        if (response.status === 401) {
-          throw new Error('Invalid or expired bearer token. Please check your X API credentials.');
-        }
-        if (response.status === 403) {
-          throw new Error('Access forbidden. Your X API tier may not support this endpoint.');
-        }
-        if (response.status === 429) {
-          throw new Error('Rate limit exceeded. Please wait before making another request.');
-        }
-        throw new Error(`X API request failed: ${response.status} ${response.statusText}`);
-      }
+    // X limits each endpoint separately
+    const rateLimit = parseRateLimitHeaders(response.headers);
+    if (rateLimit) {
+      this.rateLimits.set(endpoint.split('?')[0], rateLimit);
+    }
 
-      const data = await response.json();
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw fromXErrorBody(body, response.status) ?? new XApiError(
+        'x_api_error',
+        `X API request failed: ${response.status} ${response.statusText}`,
+        { status: response.status }
+      );
+    }
 
-      if (data.errors && data.errors.length > 0) {
-        throw new Error(`X API Error: ${data.errors[0].title} - ${data.errors[0].detail}`);
-      }
+    const data = await response.json();
 
-      return data;
-    } catch (error) {
-      if (error instanceof Error) {
-        // Check for CORS/network errors
-        if (error.message === 'Failed to fetch' || error.name === 'TypeError') {
-          throw new Error('Cannot connect to X API. Please check your bearer token and internet connection.');
-        }
-        throw error;
-      }
-      throw new Error('Failed to connect to X API. Please check your internet connection.');
+    if (data !== null && typeof data === 'object' && Array.isArray(data.errors) && data.errors.length > 0) {
+      const [first] = data.errors;
+      throw createXApiError(first.title === 'Not Found Error' ? 404 : response.status, first, rateLimit);
     }
+
+    return data;
   }
 
   async getUserMetrics(): Promise<XApiUser> {
@@ -129,6 +169,8 @@ export class XApiService {
         profileImageUrl: response.data.profile_image_url,
       };
     } catch (error) {
+      // Typed errors reach the hook intact so it can branch on them
+      if (error instanceof XApiError) throw error;
       throw new Error(`Failed to fetch user metrics: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
@@ -156,11 +198,32 @@ export class XApiService {
         quoteCount: response.data.public_metrics.quote_count,
       };
     } catch (error) {
+      if (error instanceof XApiError) throw error;
       throw new Error(`Failed to fetch tweet engagement: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async getRecentTweets(maxResults: number = 10): Promise<Array<{
+  /**
+   * Walk the user's tweets newest first across pages
+   */
+  iterateRecentTweets(options: XPaginationOptions = {}): AsyncGenerator<RawTweet> {
+    return paginateX<RawTweet>(({ paginationToken, maxResults }) => {
+      const params = new URLSearchParams({
+        max_results: maxResults.toString(),
+        'tweet.fields': 'created_at,public_metrics',
+      });
+      if (paginationToken) params.set('pagination_token', paginationToken);
+      if (options.startTime) params.set('start_time', toXTimestamp(options.startTime));
+      if (options.endTime) params.set('end_time', toXTimestamp(options.endTime));
+
+      return this.makeRequest<XPage<RawTweet>>(`/users/me/tweets?${params.toString()}`);
+    }, options);
+  }
+
+  async getRecentTweets(
+    maxResults: number = 10,
+    range: Omit<XPaginationOptions, 'limit'> = {}
+  ): Promise<Array<{
     id: string;
     text: string;
     createdAt: string;
@@ -172,23 +235,9 @@ export class XApiService {
     };
   }>> {
     try {
-      const response = await this.makeRequest<XApiResponse<Array<{
-        id: string;
-        text: string;
-        created_at: string;
-        public_metrics: {
-          retweet_count: number;
-          like_count: number;
-          reply_count: number;
-          quote_count: number;
-        };
-      }>>>(`/users/me/tweets?max_results=${maxResults}&tweet.fields=created_at,public_metrics`);
-
-      if (!Array.isArray(response.data)) {
-        return [];
-      }
+      const tweets = await collectPages(this.iterateRecentTweets({ ...range, limit: maxResults }));
 
-      return response.data.map(tweet => ({
+      return tweets.map(tweet => ({
         id: tweet.id,
         text: tweet.text,
         createdAt: tweet.created_at,
@@ -200,6 +249,7 @@ export class XApiService {
         },
       }));
     } catch (error) {
+      if (error instanceof XApiError) throw error;
       throw new Error(`Failed to fetch recent tweets: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
@@ -229,7 +279,8 @@ export class XApiService {
   }> {
     try {
       const user = await this.getUserMetrics();
-      const recentTweets = await this.getRecentTweets(50);
+      const startTime = new Date(Date.now() - ANALYTICS_TWEET_DAYS * 24 * 60 * 60 * 1000);
+      const recentTweets = await this.getRecentTweets(ANALYTICS_MAX_TWEETS, { startTime });
 
       const tweetAnalytics: TweetAnalytics[] = recentTweets.map(tweet => ({
         id: tweet.id,
@@ -265,6 +316,7 @@ export class XApiService {
         averageEngagement: Math.round(averageEngagement * 10) / 10
       };
     } catch (error) {
+      if (error instanceof XApiError) throw error;
       throw new Error(`Failed to fetch detailed analytics: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
@@ -283,36 +335,37 @@ export class XApiService {
     return Math.round(((followRatio * 0.7) + (tweetActivity * 0.3)) * 10) / 10;
   }
 
-  async getHistoricalData(days: number = 30): Promise<AnalyticsHistory[]> {
-    // Since X API doesn't provide historical data in free tier,
-    // we'll generate realistic sample data based on current metrics
+  async getHistoricalData(days: number = 30): Promise<HistoricalData> {
+    // X only reports current counts, so the server records a daily snapshot
+    // for the signed-in user on each call and returns the snapshots stored so far
     try {
-      const currentUser = await this.getUserMetrics();
-      const data: AnalyticsHistory[] = [];
-      const today = new Date();
-
-      for (let i = days - 1; i >= 0; i--) {
-        const date = new Date(today);
-        date.setDate(date.getDate() - i);
-
-        // Simulate realistic growth with some variance
-        const growthFactor = 1 - (i / days) * 0.1; // Gradual growth over time
-        const variance = (Math.random() - 0.5) * 0.02; // ±1% daily variance
-
-        const followersCount = Math.floor(currentUser.publicMetrics.followersCount * (growthFactor + variance));
-        const followingCount = Math.floor(currentUser.publicMetrics.followingCount * (0.98 + variance));
-        const tweetCount = Math.floor(currentUser.publicMetrics.tweetCount * (growthFactor + variance * 0.5));
-
-        data.push({
-          date: date.toISOString().split('T')[0],
-          followersCount: Math.max(followersCount, 0),
-          followingCount: Math.max(followingCount, 0),
-          tweetCount: Math.max(tweetCount, 0),
-          engagementRate: Math.round((2 + Math.random() * 3 + variance * 10) * 10) / 10
-        });
+      const response = await fetch(`/api/x/history?days=${days}`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.message || `Request failed with status ${response.status}`);
       }
 
-      return data;
+      const { snapshots, hasEnoughHistory, minimumDays } = result.data as {
+        snapshots: AnalyticsHistory[];
+        hasEnoughHistory: boolean;
+        minimumDays: number;
+      };
+
+      return {
+        history: snapshots.map(({ date, followersCount, followingCount, tweetCount, engagementRate }) => ({
+          date,
+          followersCount,
+          followingCount,
+          tweetCount,
+          engagementRate,
+        })),
+        hasEnoughHistory,
+        minimumDays,
+      };
     } catch (error) {
       throw new Error(`Failed to fetch historical data: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
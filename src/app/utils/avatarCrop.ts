@@ -0,0 +1,87 @@
+// Avatar crop math for the pan/zoom cropper, plus optional face centering
+import { getCenteredCrop, type RingCropRect } from '../lib/ringRenderer';
+
+export const MIN_CROP_ZOOM = 1;
+export const MAX_CROP_ZOOM = 4;
+
+// Keep the crop square inside the image bounds
+export const clampCrop = (crop: RingCropRect, imageWidth: number, imageHeight: number): RingCropRect => {
+  const size = Math.min(crop.size, imageWidth, imageHeight);
+
+  return {
+    x: Math.min(Math.max(crop.x, 0), imageWidth - size),
+    y: Math.min(Math.max(crop.y, 0), imageHeight - size),
+    size,
+  };
+};
+
+// Zoom level of a crop, 1 = largest square that fits
+export const getCropZoom = (crop: RingCropRect, imageWidth: number, imageHeight: number): number => {
+  return Math.min(imageWidth, imageHeight) / crop.size;
+};
+
+// Zoom around the crop's center
+export const zoomCrop = (
+  crop: RingCropRect,
+  zoom: number,
+  imageWidth: number,
+  imageHeight: number
+): RingCropRect => {
+  const clampedZoom = Math.min(Math.max(zoom, MIN_CROP_ZOOM), MAX_CROP_ZOOM);
+  const size = Math.min(imageWidth, imageHeight) / clampedZoom;
+  const centerX = crop.x + crop.size / 2;
+  const centerY = crop.y + crop.size / 2;
+
+  return clampCrop({ x: centerX - size / 2, y: centerY - size / 2, size }, imageWidth, imageHeight);
+};
+
+// Move the crop by a delta in image pixels
+export const panCrop = (
+  crop: RingCropRect,
+  deltaX: number,
+  deltaY: number,
+  imageWidth: number,
+  imageHeight: number
+): RingCropRect => {
+  return clampCrop({ ...crop, x: crop.x + deltaX, y: crop.y + deltaY }, imageWidth, imageHeight);
+};
+
+// Shape Detection API, currently only shipped in Chromium behind a flag
+interface DetectedFace {
+  boundingBox: DOMRectReadOnly;
+}
+
+interface FaceDetectorInstance {
+  detect: (image: ImageBitmapSource) => Promise<DetectedFace[]>;
+}
+
+type FaceDetectorConstructor = new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => FaceDetectorInstance;
+
+// Center the crop on the most prominent face, falling back to a centered crop
+export const getInitialCrop = async (image: HTMLImageElement): Promise<RingCropRect> => {
+  const { width, height } = image;
+  const fallback = getCenteredCrop(width, height);
+  const FaceDetector = (window as unknown as { FaceDetector?: FaceDetectorConstructor }).FaceDetector;
+
+  if (!FaceDetector) return fallback;
+
+  try {
+    const faces = await new FaceDetector({ fastMode: true, maxDetectedFaces: 5 }).detect(image);
+    if (faces.length === 0) return fallback;
+
+    const face = faces.reduce((largest, candidate) =>
+      candidate.boundingBox.width * candidate.boundingBox.height >
+      largest.boundingBox.width * largest.boundingBox.height ? candidate : largest
+    ).boundingBox;
+
+    // Leave room around the face for hair and shoulders
+    const size = Math.min(Math.max(face.width, face.height) * 2, fallback.size);
+    return clampCrop(
+      { x: face.x + face.width / 2 - size / 2, y: face.y + face.height / 2 - size / 2, size },
+      width,
+      height
+    );
+  } catch {
+    return fallback;
+  }
+};
@@ -0,0 +1,228 @@
+// Image ingestion: format sniffing, EXIF orientation, safe SVG rasterizing and
+// decoding with errors that name the format that failed
+
+export type ImageFormat = 'jpeg' | 'png' | 'gif' | 'webp' | 'avif' | 'heic' | 'bmp' | 'svg';
+
+export const IMAGE_FORMATS: Record<ImageFormat, { label: string; hasAlpha: boolean; decodeHint: string }> = {
+  jpeg: { label: 'JPEG', hasAlpha: false, decodeHint: 'The file may be corrupted.' },
+  png: { label: 'PNG', hasAlpha: true, decodeHint: 'The file may be corrupted.' },
+  gif: { label: 'GIF', hasAlpha: true, decodeHint: 'The file may be corrupted.' },
+  webp: { label: 'WebP', hasAlpha: true, decodeHint: 'Update your browser or convert the image to JPEG or PNG.' },
+  avif: { label: 'AVIF', hasAlpha: true, decodeHint: 'Update your browser or convert the image to JPEG or PNG.' },
+  heic: { label: 'HEIC', hasAlpha: false, decodeHint: 'Try Safari, or convert the photo to JPEG first.' },
+  bmp: { label: 'BMP', hasAlpha: false, decodeHint: 'The file may be corrupted.' },
+  svg: { label: 'SVG', hasAlpha: true, decodeHint: 'The SVG may be invalid or use unsupported features.' },
+};
+
+export const SUPPORTED_FORMATS_TEXT = 'JPG, PNG, GIF, WebP, AVIF, HEIC, BMP or SVG';
+
+// Size SVGs are rasterized at when they don't declare one
+const DEFAULT_SVG_SIZE = 1200;
+
+export interface DecodedImage {
+  source: CanvasImageSource;
+  width: number;
+  height: number;
+  format: ImageFormat;
+  close: () => void;
+}
+
+const readAscii = (bytes: Uint8Array, start: number, length: number): string => {
+  return String.fromCharCode(...bytes.subarray(start, start + length));
+};
+
+// Identify the format from magic bytes; file.type is missing or wrong for HEIC on many systems
+export const detectImageFormat = (bytes: Uint8Array): ImageFormat | null => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+  if (bytes[0] === 0x89 && readAscii(bytes, 1, 3) === 'PNG') return 'png';
+  if (readAscii(bytes, 0, 4) === 'GIF8') return 'gif';
+  if (readAscii(bytes, 0, 4) === 'RIFF' && readAscii(bytes, 8, 4) === 'WEBP') return 'webp';
+  if (readAscii(bytes, 0, 2) === 'BM') return 'bmp';
+
+  if (readAscii(bytes, 4, 4) === 'ftyp') {
+    const brand = readAscii(bytes, 8, 4);
+    if (brand === 'avif' || brand === 'avis') return 'avif';
+    if (['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'].includes(brand)) return 'heic';
+  }
+
+  const head = new TextDecoder().decode(bytes.subarray(0, 1024)).trimStart().toLowerCase();
+  if (head.startsWith('<svg') || (head.startsWith('<?xml') && head.includes('<svg'))) return 'svg';
+
+  return null;
+};
+
+// Read the EXIF orientation (1-8) from a JPEG, 1 when absent
+export const getExifOrientation = (bytes: Uint8Array): number => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 2;
+
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const segmentLength = view.getUint16(offset + 2);
+
+    // APP1 segment starting with "Exif\0\0"
+    if (marker === 0xffe1 && readAscii(bytes, offset + 4, 4) === 'Exif') {
+      const tiff = offset + 10;
+      if (tiff + 8 > view.byteLength) return 1;
+
+      const littleEndian = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+      if (ifd + 2 > view.byteLength) return 1;
+
+      const entries = view.getUint16(ifd, littleEndian);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 10 > view.byteLength) return 1;
+        if (view.getUint16(entry, littleEndian) === 0x0112) {
+          const orientation = view.getUint16(entry + 8, littleEndian);
+          return orientation >= 1 && orientation <= 8 ? orientation : 1;
+        }
+      }
+      return 1;
+    }
+
+    // Stop at start of scan, image data follows
+    if (marker === 0xffda || (marker & 0xff00) !== 0xff00) break;
+    offset += 2 + segmentLength;
+  }
+
+  return 1;
+};
+
+// Strip scripts, event handlers and external references, and give the SVG a pixel size
+export const sanitizeSvg = (text: string): string => {
+  const doc = new DOMParser().parseFromString(text, 'image/svg+xml');
+  const svg = doc.documentElement;
+
+  if (doc.getElementsByTagName('parsererror').length > 0 || svg.nodeName.toLowerCase() !== 'svg') {
+    throw new Error('Invalid SVG image. The file could not be parsed.');
+  }
+
+  doc.querySelectorAll('script, foreignObject').forEach(node => node.remove());
+
+  doc.querySelectorAll('*').forEach(node => {
+    Array.from(node.attributes).forEach(attribute => {
+      const name = attribute.name.toLowerCase();
+      const value = attribute.value.trim().toLowerCase();
+
+      if (name.startsWith('on')) {
+        node.removeAttribute(attribute.name);
+      } else if ((name === 'href' || name === 'xlink:href') && !value.startsWith('#') && !value.startsWith('data:image/')) {
+        node.removeAttribute(attribute.name);
+      }
+    });
+  });
+
+  // Without explicit dimensions browsers rasterize SVGs at 300x150 or 0x0
+  const viewBox = svg.getAttribute('viewBox')?.split(/[\s,]+/).map(Number);
+  const width = parseFloat(svg.getAttribute('width') ?? '');
+  const height = parseFloat(svg.getAttribute('height') ?? '');
+
+  if (!width || !height) {
+    const aspectRatio = viewBox && viewBox[2] > 0 && viewBox[3] > 0 ? viewBox[2] / viewBox[3] : 1;
+    svg.setAttribute('width', String(aspectRatio >= 1 ? DEFAULT_SVG_SIZE : Math.round(DEFAULT_SVG_SIZE * aspectRatio)));
+    svg.setAttribute('height', String(aspectRatio >= 1 ? Math.round(DEFAULT_SVG_SIZE / aspectRatio) : DEFAULT_SVG_SIZE));
+  }
+
+  return new XMLSerializer().serializeToString(doc);
+};
+
+const loadImageElement = (blob: Blob): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const img = new Image();
+
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Image element failed to load'));
+    };
+
+    img.src = url;
+  });
+};
+
+// Browsers that support the CSS property also apply EXIF orientation when decoding
+const browserAppliesOrientation = (): boolean => {
+  return typeof CSS !== 'undefined' && CSS.supports('image-orientation', 'from-image');
+};
+
+// Redraw an image with the given EXIF orientation applied
+const applyOrientation = (image: HTMLImageElement, orientation: number): HTMLCanvasElement => {
+  const { naturalWidth: width, naturalHeight: height } = image;
+  const swap = orientation >= 5;
+  const canvas = document.createElement('canvas');
+  canvas.width = swap ? height : width;
+  canvas.height = swap ? width : height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas not supported in this browser.');
+  }
+
+  const transforms: Record<number, [number, number, number, number, number, number]> = {
+    2: [-1, 0, 0, 1, width, 0],
+    3: [-1, 0, 0, -1, width, height],
+    4: [1, 0, 0, -1, 0, height],
+    5: [0, 1, 1, 0, 0, 0],
+    6: [0, 1, -1, 0, height, 0],
+    7: [0, -1, -1, 0, height, width],
+    8: [0, -1, 1, 0, 0, width],
+  };
+
+  const transform = transforms[orientation];
+  if (transform) ctx.setTransform(...transform);
+  ctx.drawImage(image, 0, 0);
+
+  return canvas;
+};
+
+const decodeBlob = async (blob: Blob, format: ImageFormat, orientation: number): Promise<DecodedImage> => {
+  if (typeof createImageBitmap === 'function' && format !== 'svg') {
+    try {
+      const bitmap = await createImageBitmap(blob, { imageOrientation: 'from-image' });
+      return { source: bitmap, width: bitmap.width, height: bitmap.height, format, close: () => bitmap.close() };
+    } catch {
+      // Fall through to an <img> element, which some browsers decode more formats with
+    }
+  }
+
+  const img = await loadImageElement(blob);
+
+  if (orientation > 1 && !browserAppliesOrientation()) {
+    const canvas = applyOrientation(img, orientation);
+    return { source: canvas, width: canvas.width, height: canvas.height, format, close: () => {} };
+  }
+
+  return { source: img, width: img.naturalWidth, height: img.naturalHeight, format, close: () => {} };
+};
+
+// Decode an uploaded file into something drawable, upright and at its natural size
+export const decodeImageFile = async (file: File): Promise<DecodedImage> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const format = detectImageFormat(bytes);
+
+  if (!format) {
+    const name = file.type || file.name.split('.').pop()?.toUpperCase() || 'unknown';
+    throw new Error(`Unsupported image format (${name}). Please use ${SUPPORTED_FORMATS_TEXT}.`);
+  }
+
+  const { label, decodeHint } = IMAGE_FORMATS[format];
+
+  try {
+    if (format === 'svg') {
+      const svg = sanitizeSvg(new TextDecoder().decode(bytes));
+      return await decodeBlob(new Blob([svg], { type: 'image/svg+xml' }), format, 1);
+    }
+
+    const orientation = format === 'jpeg' ? getExifOrientation(bytes) : 1;
+    return await decodeBlob(new Blob([bytes], { type: file.type || `image/${format}` }), format, orientation);
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Invalid SVG')) throw error;
+    throw new Error(`${label} images can't be decoded in this browser. ${decodeHint}`);
+  }
+};
@@ -0,0 +1,196 @@
+// Animated ring export (GIF, APNG, WebM), encoded entirely in the browser
+import { GIFEncoder, quantize, applyPalette } from 'gifenc';
+import * as UPNG from 'upng-js';
+
+export type AnimationFormat = 'gif' | 'apng' | 'webm';
+
+export interface AnimationFrame {
+  sweep: number; // 0-1 fraction of the final progress
+  glowScale: number; // glow multiplier, pulses over the animation
+}
+
+export interface AnimationExportOptions {
+  format: AnimationFormat;
+  durationMs: number;
+  fps: number;
+  size: number;
+}
+
+export type DrawAnimationFrame = (ctx: CanvasRenderingContext2D, frame: AnimationFrame) => void;
+
+export const ANIMATION_FORMATS: Record<AnimationFormat, { label: string; mimeType: string; extension: string }> = {
+  gif: { label: 'GIF', mimeType: 'image/gif', extension: 'gif' },
+  apng: { label: 'APNG', mimeType: 'image/png', extension: 'png' },
+  webm: { label: 'WebM', mimeType: 'video/webm', extension: 'webm' },
+};
+
+export const ANIMATION_DURATIONS = [2000, 3000, 5000];
+export const ANIMATION_FRAME_RATES = [10, 15, 24, 30];
+
+// Portion of the animation spent sweeping the arc; the rest holds on the final value
+const SWEEP_PORTION = 0.7;
+
+// Number of glow pulses over the whole animation
+const PULSE_COUNT = 2;
+
+// Ease-out sweep followed by a hold, with a glow pulse that loops seamlessly
+export const getAnimationFrame = (t: number): AnimationFrame => {
+  const sweepT = Math.min(t / SWEEP_PORTION, 1);
+
+  return {
+    sweep: 1 - Math.pow(1 - sweepT, 3),
+    glowScale: 0.4 + 0.8 * (0.5 - 0.5 * Math.cos(t * PULSE_COUNT * 2 * Math.PI)),
+  };
+};
+
+export const isWebmSupported = (): boolean => {
+  return typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported('video/webm');
+};
+
+// Yield to the event loop so long encodes don't freeze the UI
+const nextTick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const encodeGif = async (
+  ctx: CanvasRenderingContext2D,
+  draw: DrawAnimationFrame,
+  frameCount: number,
+  options: AnimationExportOptions
+): Promise<Blob> => {
+  const { size, fps } = options;
+  const gif = GIFEncoder();
+  const delay = Math.round(1000 / fps);
+
+  for (let i = 0; i < frameCount; i++) {
+    ctx.clearRect(0, 0, size, size);
+    draw(ctx, getAnimationFrame(frameCount > 1 ? i / (frameCount - 1) : 1));
+
+    const { data } = ctx.getImageData(0, 0, size, size);
+    const palette = quantize(data, 256, { format: 'rgba4444', oneBitAlpha: true });
+    const index = applyPalette(data, palette, 'rgba4444');
+    const transparentIndex = palette.findIndex(color => color[3] === 0);
+
+    gif.writeFrame(index, size, size, {
+      palette,
+      delay,
+      transparent: transparentIndex !== -1,
+      transparentIndex: Math.max(transparentIndex, 0),
+    });
+
+    await nextTick();
+  }
+
+  gif.finish();
+  return new Blob([gif.bytes()], { type: ANIMATION_FORMATS.gif.mimeType });
+};
+
+const encodeApng = async (
+  ctx: CanvasRenderingContext2D,
+  draw: DrawAnimationFrame,
+  frameCount: number,
+  options: AnimationExportOptions
+): Promise<Blob> => {
+  const { size, fps } = options;
+  const frames: ArrayBuffer[] = [];
+  const delays: number[] = [];
+
+  for (let i = 0; i < frameCount; i++) {
+    ctx.clearRect(0, 0, size, size);
+    draw(ctx, getAnimationFrame(frameCount > 1 ? i / (frameCount - 1) : 1));
+
+    frames.push(ctx.getImageData(0, 0, size, size).data.slice().buffer);
+    delays.push(Math.round(1000 / fps));
+
+    await nextTick();
+  }
+
+  // 0 colors = lossless
+  const png = UPNG.encode(frames, size, size, 0, delays);
+  return new Blob([png], { type: ANIMATION_FORMATS.apng.mimeType });
+};
+
+const recordWebm = (
+  canvas: HTMLCanvasElement,
+  ctx: CanvasRenderingContext2D,
+  draw: DrawAnimationFrame,
+  frameCount: number,
+  options: AnimationExportOptions
+): Promise<Blob> => {
+  const { size, fps } = options;
+
+  if (!isWebmSupported() || typeof canvas.captureStream !== 'function') {
+    return Promise.reject(new Error('WebM recording is not supported in this browser. Try GIF or APNG instead.'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const stream = canvas.captureStream(fps);
+    const recorder = new MediaRecorder(stream, { mimeType: 'video/webm' });
+    const chunks: Blob[] = [];
+    let frame = 0;
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop());
+      resolve(new Blob(chunks, { type: ANIMATION_FORMATS.webm.mimeType }));
+    };
+
+    recorder.onerror = () => {
+      stream.getTracks().forEach(track => track.stop());
+      reject(new Error('WebM recording failed.'));
+    };
+
+    // WebM is recorded in real time, one frame per tick
+    const drawNext = () => {
+      if (frame >= frameCount) {
+        recorder.stop();
+        return;
+      }
+
+      ctx.clearRect(0, 0, size, size);
+      draw(ctx, getAnimationFrame(frameCount > 1 ? frame / (frameCount - 1) : 1));
+      frame++;
+      setTimeout(drawNext, 1000 / fps);
+    };
+
+    recorder.start();
+    drawNext();
+  });
+};
+
+// Render every frame with `draw` and encode them in the requested format
+export const exportRingAnimation = async (
+  draw: DrawAnimationFrame,
+  options: AnimationExportOptions
+): Promise<Blob> => {
+  const { format, durationMs, fps, size } = options;
+
+  if (!Number.isFinite(durationMs) || durationMs <= 0 || durationMs > 10000) {
+    throw new Error('Animation duration must be between 0 and 10 seconds.');
+  }
+
+  if (!Number.isFinite(fps) || fps < 1 || fps > 60) {
+    throw new Error('Frame rate must be between 1 and 60 fps.');
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+
+  const ctx = canvas.getContext('2d', { willReadFrequently: format !== 'webm' });
+  if (!ctx) {
+    throw new Error('Canvas not supported in this browser. Please try a modern browser.');
+  }
+
+  const frameCount = Math.max(1, Math.round((durationMs / 1000) * fps));
+
+  switch (format) {
+    case 'gif':
+      return encodeGif(ctx, draw, frameCount, options);
+    case 'apng':
+      return encodeApng(ctx, draw, frameCount, options);
+    case 'webm':
+      return recordWebm(canvas, ctx, draw, frameCount, options);
+  }
+};
@@ -0,0 +1,83 @@
+/**
+ * Ring Render Worker
+ *
+ * Renders growth rings on an OffscreenCanvas off the main thread. Only the
+ * most recent render request is drawn; requests that arrive while another is
+ * queued replace it and are reported back as cancelled.
+ */
+
+import { renderRingJob, DEFAULT_RING_SIZE, type RingCanvasContext, type RingRenderJob } from '../lib/ringRenderer';
+
+/**
+ * Messages sent to the worker
+ */
+export type RingWorkerRequest =
+  | { type: 'image'; bitmap: ImageBitmap }
+  | { type: 'render'; id: number; job: RingRenderJob };
+
+/**
+ * Messages sent back to the main thread
+ */
+export type RingWorkerResponse =
+  | { type: 'rendered'; id: number; bitmap: ImageBitmap }
+  | { type: 'cancelled'; id: number }
+  | { type: 'error'; id: number; message: string };
+
+// The project compiles against the DOM lib, which types a worker's global scope like a Worker
+const workerScope = self as unknown as Worker;
+
+let image: ImageBitmap | null = null;
+let pending: Extract<RingWorkerRequest, { type: 'render' }> | null = null;
+let scheduled = false;
+
+function reply(response: RingWorkerResponse, transfer: Transferable[] = []): void {
+  workerScope.postMessage(response, transfer);
+}
+
+function renderPending(): void {
+  scheduled = false;
+  const request = pending;
+  pending = null;
+  if (!request) return;
+
+  try {
+    if (!image) {
+      throw new Error('No image loaded. Please upload your profile picture again.');
+    }
+
+    const size = request.job.size ?? DEFAULT_RING_SIZE;
+    const canvas = new OffscreenCanvas(size, size);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('OffscreenCanvas 2D context not available.');
+    }
+
+    renderRingJob(ctx as unknown as RingCanvasContext, image, request.job);
+
+    const bitmap = canvas.transferToImageBitmap();
+    reply({ type: 'rendered', id: request.id, bitmap }, [bitmap]);
+  } catch (error) {
+    reply({ type: 'error', id: request.id, message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
+
+workerScope.onmessage = (event: MessageEvent<RingWorkerRequest>) => {
+  const message = event.data;
+
+  if (message.type === 'image') {
+    image?.close();
+    image = message.bitmap;
+    return;
+  }
+
+  if (pending) {
+    reply({ type: 'cancelled', id: pending.id });
+  }
+
+  // Defer so a burst of slider updates collapses into one render
+  pending = message;
+  if (!scheduled) {
+    scheduled = true;
+    setTimeout(renderPending, 0);
+  }
+};
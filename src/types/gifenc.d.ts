@@ -0,0 +1,45 @@
+/**
+ * Type declarations for gifenc (the package ships without types)
+ */
+declare module 'gifenc' {
+  export type GifColorFormat = 'rgb565' | 'rgb444' | 'rgba4444';
+  export type GifPalette = number[][];
+
+  export interface QuantizeOptions {
+    format?: GifColorFormat;
+    oneBitAlpha?: boolean | number;
+    clearAlpha?: boolean;
+    clearAlphaThreshold?: number;
+    clearAlphaColor?: number;
+  }
+
+  export interface WriteFrameOptions {
+    palette?: GifPalette;
+    first?: boolean;
+    transparent?: boolean;
+    transparentIndex?: number;
+    delay?: number;
+    repeat?: number;
+    dispose?: number;
+  }
+
+  export interface GifStream {
+    writeFrame(index: Uint8Array, width: number, height: number, opts?: WriteFrameOptions): void;
+    finish(): void;
+    bytes(): Uint8Array<ArrayBuffer>;
+    bytesView(): Uint8Array;
+    reset(): void;
+  }
+
+  export function GIFEncoder(opts?: { auto?: boolean; initialCapacity?: number }): GifStream;
+  export function quantize(
+    rgba: Uint8Array | Uint8ClampedArray,
+    maxColors: number,
+    options?: QuantizeOptions
+  ): GifPalette;
+  export function applyPalette(
+    rgba: Uint8Array | Uint8ClampedArray,
+    palette: GifPalette,
+    format?: GifColorFormat
+  ): Uint8Array;
+}
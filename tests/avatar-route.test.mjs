@@ -0,0 +1,133 @@
+/**
+ * /api/x/avatar against the mock X server
+ *
+ * Starts scripts/mock-x-server.js and a Next dev server pointed at it, with
+ * profile image uploads switched on, and posts images the way the app does.
+ * Like the real X API, the mock refuses the OAuth 2.0 bearer token on the
+ * v1.1 upload endpoint.
+ *
+ * Run with: npm test
+ */
+
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+
+const ROOT = fileURLToPath(new URL('..', import.meta.url));
+const MOCK_PORT = Number(process.env.TEST_MOCK_X_PORT || 4090);
+const APP_PORT = Number(process.env.TEST_APP_PORT || 3090);
+const MOCK_URL = `http://localhost:${MOCK_PORT}`;
+const APP_URL = `http://localhost:${APP_PORT}`;
+const STARTUP_TIMEOUT_MS = 120_000;
+
+// A 1x1 transparent PNG
+const PNG_BASE64 =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+const children = [];
+
+// Start a process in its own group, resolving once it prints `ready`
+function start(args, env, ready) {
+  const child = spawn(process.execPath, args, {
+    cwd: ROOT,
+    env: { ...process.env, ...env },
+    detached: true,
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+  children.push(child);
+
+  return new Promise((resolve, reject) => {
+    let output = '';
+    const timer = setTimeout(() => reject(new Error(`Timed out starting ${args[0]}:\n${output}`)), STARTUP_TIMEOUT_MS);
+
+    const onData = chunk => {
+      output += chunk;
+      if (ready.test(output)) {
+        clearTimeout(timer);
+        resolve();
+      }
+    };
+    child.stdout.on('data', onData);
+    child.stderr.on('data', onData);
+    child.on('exit', code => {
+      clearTimeout(timer);
+      reject(new Error(`${args[0]} exited with ${code}:\n${output}`));
+    });
+  });
+}
+
+function postAvatar(body, cookie) {
+  return fetch(`${APP_URL}/api/x/avatar`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(cookie ? { Cookie: cookie } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+const signedInCookie = () => `x_access_token=test-token; x_token_expiry=${Date.now() + 60 * 60 * 1000}`;
+
+before(async () => {
+  await start(['scripts/mock-x-server.js'], { MOCK_X_PORT: String(MOCK_PORT) }, /Listening on/);
+  await start(
+    ['node_modules/next/dist/bin/next', 'dev', '--turbopack', '-p', String(APP_PORT)],
+    {
+      X_API_BASE_URL: MOCK_URL,
+      NEXTAUTH_SECRET: 'avatar-route-test-secret',
+      STORAGE_DRIVER: 'memory',
+      NEXT_PUBLIC_PROFILE_IMAGE_UPLOADS: 'true',
+      NEXT_TELEMETRY_DISABLED: '1',
+    },
+    /Ready in/
+  );
+});
+
+after(() => {
+  for (const child of children) {
+    child.removeAllListeners('exit');
+    try {
+      process.kill(-child.pid, 'SIGTERM');
+    } catch {
+      // Already gone
+    }
+  }
+});
+
+test('reports that X refuses the upload for an OAuth 2.0 token', async () => {
+  const getProfileImageUrl = () => fetch(`${MOCK_URL}/2/users/me?user.fields=profile_image_url`, {
+    headers: { Authorization: 'Bearer test-token' },
+  }).then(res => res.json()).then(body => body.data.profile_image_url);
+
+  const before = await getProfileImageUrl();
+  const response = await postAvatar({ image: `data:image/png;base64,${PNG_BASE64}` }, signedInCookie());
+  const body = await response.json();
+
+  assert.equal(response.status, 403);
+  assert.equal(body.error, 'forbidden_tier');
+  assert.match(body.message, /OAuth 1\.0a/);
+  assert.equal(await getProfileImageUrl(), before);
+});
+
+test('rejects requests without a sign-in', async () => {
+  const response = await postAvatar({ image: `data:image/png;base64,${PNG_BASE64}` });
+
+  assert.equal(response.status, 401);
+  assert.equal((await response.json()).error, 'unauthorized');
+});
+
+test('rejects images that are not PNG or JPEG data URLs', async () => {
+  const response = await postAvatar({ image: 'data:image/gif;base64,R0lGODlh' }, signedInCookie());
+
+  assert.equal(response.status, 400);
+  assert.equal((await response.json()).error, 'invalid_request');
+});
+
+test('rejects images over the 700KB limit', async () => {
+  const oversized = Buffer.alloc(701 * 1024).toString('base64');
+  const response = await postAvatar({ image: `data:image/png;base64,${oversized}` }, signedInCookie());
+
+  assert.equal(response.status, 413);
+});
@@ -0,0 +1,125 @@
+/**
+ * Goal pacing, calculated as of a fixed day
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculatePacing, type GoalPacingInput } from '../src/app/lib/pacing';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+const input = (overrides: Partial<GoalPacingInput>): GoalPacingInput => ({
+  startValue: 1000,
+  current: 1000,
+  target: 2000,
+  startDate: null,
+  deadline: null,
+  history: [],
+  ...overrides,
+});
+
+test('reports a reached goal as complete', () => {
+  const pacing = calculatePacing(input({ current: 2100, deadline: '2026-03-11' }), NOW);
+
+  assert.equal(pacing.status, 'complete');
+  assert.equal(pacing.requiredPerDay, 0);
+  assert.equal(pacing.daysLeft, 10);
+  assert.equal(pacing.projectedDate, null);
+  assert.equal(pacing.expectedValue, null);
+});
+
+test('reports a goal past its deadline as behind', () => {
+  const pacing = calculatePacing(input({
+    current: 1500,
+    startDate: '2026-01-01',
+    deadline: '2026-02-20',
+  }), NOW);
+
+  assert.equal(pacing.daysLeft, -9);
+  assert.equal(pacing.requiredPerDay, null);
+  assert.equal(pacing.expectedValue, 2000);
+  assert.equal(pacing.status, 'behind');
+});
+
+test('uses the recent history for the current rate', () => {
+  const pacing = calculatePacing(input({
+    current: 1100,
+    target: 2100,
+    deadline: '2026-04-10',
+    history: [
+      { date: '2026-01-01', value: 0 }, // outside the rate window
+      { date: '2026-02-10', value: 1000 },
+      { date: '2026-02-20', value: 1100 },
+    ],
+  }), NOW);
+
+  assert.equal(pacing.currentPerDay, 10);
+  assert.equal(pacing.requiredPerDay, 25);
+  assert.equal(pacing.projectedDate, '2026-06-09');
+  assert.equal(pacing.status, 'behind');
+});
+
+test('falls back to the gain since the start date', () => {
+  const pacing = calculatePacing(input({
+    current: 1280,
+    target: 1380,
+    startDate: '2026-02-01',
+    deadline: '2026-03-11',
+    history: [{ date: '2026-02-28', value: 1270 }], // one point isn't a rate
+  }), NOW);
+
+  assert.equal(pacing.currentPerDay, 10);
+  assert.equal(pacing.requiredPerDay, 10);
+  assert.equal(pacing.status, 'on-track');
+});
+
+test('is ahead when the rate beats the required rate by the tolerance', () => {
+  const pacing = calculatePacing(input({
+    current: 1280,
+    target: 1380,
+    startDate: '2026-02-01',
+    deadline: '2026-03-21',
+  }), NOW);
+
+  assert.equal(pacing.requiredPerDay, 5);
+  assert.equal(pacing.status, 'ahead');
+});
+
+test('compares against the straight line when there is no rate yet', () => {
+  const onTheDay = input({ startDate: '2026-03-01', deadline: '2026-03-31' });
+
+  // Nothing is required on the first day, so any gain is ahead
+  assert.equal(calculatePacing(onTheDay, NOW).currentPerDay, null);
+  assert.equal(calculatePacing(onTheDay, NOW).expectedValue, 1000);
+  assert.equal(calculatePacing(onTheDay, NOW).status, 'on-track');
+  assert.equal(calculatePacing({ ...onTheDay, current: 1010 }, NOW).status, 'ahead');
+});
+
+test('places the expected value on the line from start to deadline', () => {
+  const pacing = calculatePacing(input({
+    current: 1200,
+    startDate: '2026-02-01',
+    deadline: '2026-04-02',
+  }), NOW);
+
+  // 28 of 60 days elapsed
+  assert.equal(pacing.expectedValue, 1000 + 1000 * (28 / 60));
+});
+
+test('stops projecting past ten years', () => {
+  const slow = input({ current: 1028, startDate: '2026-02-01' }); // 1 a day
+
+  assert.equal(calculatePacing({ ...slow, target: 1028 + 3650 }, NOW).projectedDate, '2036-02-27');
+  assert.equal(calculatePacing({ ...slow, target: 1028 + 3651 }, NOW).projectedDate, null);
+});
+
+test('leaves everything unknown without a deadline, start date or history', () => {
+  assert.deepEqual(calculatePacing(input({ current: 1500 }), NOW), {
+    daysLeft: null,
+    requiredPerDay: null,
+    currentPerDay: null,
+    projectedDate: null,
+    expectedValue: null,
+    status: null,
+  });
+});
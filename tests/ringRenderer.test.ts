@@ -0,0 +1,127 @@
+/**
+ * Growth ring renderer, drawn onto @napi-rs/canvas contexts
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCanvas, type SKRSContext2D } from '@napi-rs/canvas';
+import {
+  renderGrowthRing,
+  renderRingExport,
+  DEFAULT_WATERMARK,
+  type RingCanvasContext,
+  type RingImageSource,
+  type RingRenderOptions,
+  type RingStyle,
+} from '../src/app/lib/ringRenderer';
+import { BUILT_IN_RING_STYLES } from '../src/app/lib/ringStyles';
+
+const SIZE = 400;
+const GOAL = { label: 'Followers', color: '#ff0000' };
+const LAP_TWO_COLOR = '#ff5959'; // the goal color brightened for a second lap
+const TRACK_COLOR = '#333333';
+
+// Flat colors, so sampled pixels are exact
+const STYLE: RingStyle = {
+  ...BUILT_IN_RING_STYLES.classic,
+  capStyle: 'butt',
+  trackColor: TRACK_COLOR,
+};
+
+const avatar = (() => {
+  const canvas = createCanvas(50, 50);
+  const ctx = canvas.getContext('2d');
+  ctx.fillStyle = '#0000ff';
+  ctx.fillRect(0, 0, 50, 50);
+  return canvas as unknown as RingImageSource;
+})();
+
+// Point on the ring's stroke at a fraction of a lap, clockwise from 12 o'clock
+const pointOnRing = (fraction: number, size = SIZE) => {
+  const radius = size / 2 - 20;
+  const angle = -Math.PI / 2 + fraction * 2 * Math.PI;
+  return {
+    x: Math.round(size / 2 + radius * Math.cos(angle)),
+    y: Math.round(size / 2 + radius * Math.sin(angle)),
+  };
+};
+
+const colorAt = (ctx: SKRSContext2D, { x, y }: { x: number; y: number }) => {
+  const [r, g, b] = ctx.getImageData(x, y, 1, 1).data;
+  return '#' + [r, g, b].map(value => value.toString(16).padStart(2, '0')).join('');
+};
+
+const render = (options: Partial<RingRenderOptions>) => {
+  const ctx = createCanvas(SIZE, SIZE).getContext('2d');
+  const texts: string[] = [];
+  const fillText = ctx.fillText.bind(ctx);
+  ctx.fillText = (text: string, x: number, y: number, maxWidth?: number) => {
+    texts.push(text);
+    fillText(text, x, y, maxWidth);
+  };
+
+  renderGrowthRing(ctx as unknown as RingCanvasContext, {
+    image: avatar,
+    progress: 0,
+    goal: GOAL,
+    style: STYLE,
+    ...options,
+  });
+
+  return { ctx, texts };
+};
+
+test('draws the progress arc clockwise from 12 o\'clock', () => {
+  const { ctx } = render({ progress: 25 });
+
+  assert.equal(colorAt(ctx, pointOnRing(0.125)), GOAL.color);
+  assert.equal(colorAt(ctx, pointOnRing(0.5)), TRACK_COLOR);
+  assert.equal(colorAt(ctx, pointOnRing(0.875)), TRACK_COLOR);
+});
+
+test('keeps the avatar inside the ring', () => {
+  const { ctx } = render({ progress: 25 });
+
+  assert.equal(colorAt(ctx, { x: SIZE / 2, y: 60 }), '#0000ff');
+  assert.equal(ctx.getImageData(5, 5, 1, 1).data[3], 0);
+});
+
+test('stops at a full ring without overflow', () => {
+  const { ctx } = render({ progress: 150 });
+
+  assert.equal(colorAt(ctx, pointOnRing(0.125)), GOAL.color);
+  assert.equal(colorAt(ctx, pointOnRing(0.875)), GOAL.color);
+});
+
+test('draws progress past 100% as a brighter lap with overflow', () => {
+  const { ctx } = render({ progress: 150, overflow: true });
+
+  assert.equal(colorAt(ctx, pointOnRing(0.125)), LAP_TWO_COLOR);
+  assert.equal(colorAt(ctx, pointOnRing(0.375)), LAP_TWO_COLOR);
+  assert.equal(colorAt(ctx, pointOnRing(0.875)), GOAL.color);
+});
+
+test('draws the default watermark', () => {
+  const { texts } = render({ progress: 25 });
+
+  assert.ok(texts.includes(DEFAULT_WATERMARK));
+});
+
+test('replaces or hides the watermark', () => {
+  assert.ok(render({ progress: 25, text: { watermark: '@me' } }).texts.includes('@me'));
+
+  const { texts } = render({ progress: 25, text: { watermark: null } });
+  assert.ok(!texts.includes(DEFAULT_WATERMARK));
+});
+
+test('scales the ring onto an avatar export preset', () => {
+  const ctx = createCanvas(800, 800).getContext('2d');
+
+  renderRingExport(ctx as unknown as RingCanvasContext, 'x-avatar-hd', ringCtx => {
+    renderGrowthRing(ringCtx, { image: avatar, progress: 25, goal: GOAL, style: STYLE });
+  }, { title: '25% to 100', color: GOAL.color, font: STYLE.font });
+
+  const { x, y } = pointOnRing(0.125);
+  assert.equal(colorAt(ctx, { x: x * 2, y: y * 2 }), GOAL.color);
+  assert.equal(colorAt(ctx, { x: 400, y: 120 }), '#0000ff');
+});
@@ -0,0 +1,110 @@
+/**
+ * Storage implementations, each run through the same cases
+ */
+
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMemoryStorage } from '../src/app/lib/memoryStorage';
+import { createSqliteStorage } from '../src/app/lib/sqliteStorage';
+import type { Storage, StoredGoal } from '../src/app/lib/storage';
+import type { MetricsSnapshot } from '../src/app/lib/metricsHistoryStore';
+import type { SharedRing } from '../src/app/lib/ringShareStore';
+
+const goal = (overrides: Partial<StoredGoal> = {}): StoredGoal => ({
+  id: 'goal-1',
+  userId: 'user-1',
+  name: '10K followers',
+  goalType: 'followers',
+  startValue: 1000,
+  target: 10000,
+  deadline: '2026-12-31',
+  ringStyle: 'classic',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const snapshot = (date: string, followersCount: number): MetricsSnapshot => ({
+  date,
+  recordedAt: `${date}T12:00:00.000Z`,
+  followersCount,
+  followingCount: 100,
+  tweetCount: 500,
+  listedCount: 3,
+  engagementRate: null,
+});
+
+const sharedRing = (id: string, target: number): SharedRing => ({
+  id,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  options: { target } as SharedRing['options'],
+});
+
+const drivers: Record<string, () => Storage> = {
+  memory: createMemoryStorage,
+  sqlite: () => createSqliteStorage(':memory:'),
+};
+
+for (const [driver, createStorage] of Object.entries(drivers)) {
+  describe(`${driver} storage`, () => {
+    let storage: Storage;
+
+    beforeEach(() => {
+      storage = createStorage();
+    });
+
+    test('saves and updates a user\'s goals', async () => {
+      await storage.saveGoal(goal());
+      await storage.saveGoal(goal({ name: 'Renamed' }));
+
+      assert.deepEqual(await storage.listGoals('user-1'), [goal({ name: 'Renamed' })]);
+      assert.deepEqual(await storage.getGoal('user-1', 'goal-1'), goal({ name: 'Renamed' }));
+    });
+
+    test('keeps goals to the user who owns them', async () => {
+      await storage.saveGoal(goal());
+
+      await assert.rejects(storage.saveGoal(goal({ userId: 'user-2', name: 'Taken over' })), /another user/);
+      assert.equal(await storage.getGoal('user-2', 'goal-1'), null);
+      assert.deepEqual(await storage.listGoals('user-2'), []);
+      assert.equal((await storage.getGoal('user-1', 'goal-1'))?.name, '10K followers');
+    });
+
+    test('reports whether a goal was deleted', async () => {
+      await storage.saveGoal(goal());
+
+      assert.equal(await storage.deleteGoal('user-2', 'goal-1'), false);
+      assert.equal(await storage.deleteGoal('user-1', 'goal-1'), true);
+      assert.equal(await storage.deleteGoal('user-1', 'goal-1'), false);
+      assert.deepEqual(await storage.listGoals('user-1'), []);
+    });
+
+    test('replaces a snapshot for the same date', async () => {
+      await storage.putSnapshot('user-1', snapshot('2026-03-01', 100));
+      await storage.putSnapshot('user-1', snapshot('2026-03-01', 120));
+
+      assert.deepEqual(await storage.getSnapshot('user-1', '2026-03-01'), snapshot('2026-03-01', 120));
+      assert.equal((await storage.listSnapshots('user-1', '2026-01-01')).length, 1);
+    });
+
+    test('lists a user\'s snapshots since a date, oldest first', async () => {
+      await storage.putSnapshot('user-1', snapshot('2026-03-03', 130));
+      await storage.putSnapshot('user-1', snapshot('2026-03-01', 100));
+      await storage.putSnapshot('user-1', snapshot('2026-03-02', 110));
+      await storage.putSnapshot('user-2', snapshot('2026-03-02', 999));
+
+      const since = await storage.listSnapshots('user-1', '2026-03-02');
+      assert.deepEqual(since.map(entry => entry.date), ['2026-03-02', '2026-03-03']);
+      assert.deepEqual(since.map(entry => entry.followersCount), [110, 130]);
+      assert.deepEqual(await storage.listSnapshots('user-1', '2026-03-04'), []);
+    });
+
+    test('refuses a shared ring ID that is already taken', async () => {
+      assert.equal(await storage.createSharedRing(sharedRing('abcd1234', 100)), true);
+      assert.equal(await storage.createSharedRing(sharedRing('abcd1234', 200)), false);
+
+      assert.equal((await storage.getSharedRing('abcd1234'))?.options.target, 100);
+      assert.equal(await storage.getSharedRing('missing1'), null);
+    });
+  });
+}
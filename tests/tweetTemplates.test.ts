@@ -0,0 +1,36 @@
+/**
+ * Tweet length counting, weighted the way X counts it
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { countTweetCharacters, MAX_TWEET_LENGTH } from '../src/app/lib/tweetTemplates';
+
+test('counts Latin text one per character', () => {
+  assert.equal(countTweetCharacters('Hello, world!'), 13);
+  assert.equal(countTweetCharacters('café'), 4);
+  assert.equal(countTweetCharacters('cafe\u0301'), 4); // combining accent, normalized
+});
+
+test('counts CJK characters double', () => {
+  assert.equal(countTweetCharacters('成長'), 4);
+});
+
+test('counts each URL as 23', () => {
+  assert.equal(countTweetCharacters('see https://example.com/a/very/long/path?query=1'), 4 + 23);
+});
+
+test('counts each emoji sequence as 2', () => {
+  assert.equal(countTweetCharacters('👍'), 2);
+  assert.equal(countTweetCharacters('👍🏽'), 2); // skin tone modifier
+  assert.equal(countTweetCharacters('👨‍👩‍👧‍👦'), 2); // ZWJ family
+  assert.equal(countTweetCharacters('🏳️‍🌈'), 2);
+  assert.equal(countTweetCharacters('🇺🇸'), 2); // flag
+  assert.equal(countTweetCharacters('1️⃣'), 2); // keycap
+  assert.equal(countTweetCharacters('❤️'), 2);
+  assert.equal(countTweetCharacters('🎉 50% to 10K 🚀'), 2 + 12 + 2);
+});
+
+test('allows a full tweet of multi-code-point emoji', () => {
+  assert.equal(countTweetCharacters('👍🏽'.repeat(MAX_TWEET_LENGTH / 2)), MAX_TWEET_LENGTH);
+});